@@ -7,7 +7,18 @@ const { config, logLevel } = require('./lib/config');
 const { getClientIdentifier, getOrCreateSession, setupSessionCleanup } = require('./lib/session');
 const { handleQuery } = require('./lib/query-handler');
 const { handleTransaction } = require('./lib/transaction-handler');
+const { handleBatch } = require('./lib/batch-handler');
+const { handleStream } = require('./lib/stream-handler');
+const { handleListen, closeAllListeners } = require('./lib/notifications');
+const { getPreparedStatementStats } = require('./lib/prepared-statements');
+const {
+  handleTransactionBegin,
+  handleTransactionCommit,
+  handleTransactionRollback,
+  rollbackAllTransactions
+} = require('./lib/interactive-transaction');
 const { formatPostgresError } = require('./lib/utils');
+const { createSignatureVerifier } = require('./lib/request-signing');
 
 const { Pool } = pg;
 
@@ -29,8 +40,25 @@ const app = Fastify({
   },
   trustProxy: true,
   bodyLimit: 1048576, // 1MB
+  // Reuse the caller's request ID when given, so client errors can be matched with proxy logs
+  requestIdHeader: 'x-request-id',
 });
 
+// Keep the raw JSON body, which request signatures are computed over
+app.addContentTypeParser('application/json', { parseAs: 'string' }, (request, body, done) => {
+  request.rawBody = body;
+  try {
+    done(null, body === '' ? undefined : JSON.parse(body));
+  } catch (err) {
+    err.statusCode = 400;
+    done(err, undefined);
+  }
+});
+
+const signatureVerifier = config.auth.signingSecret
+  ? createSignatureVerifier({ secret: config.auth.signingSecret, maxAgeMs: config.auth.signatureMaxAgeMillis })
+  : null;
+
 // Enable compression for responses if configured
 if (config.enableCompression) {
   await app.register(fastifyCompress);
@@ -83,6 +111,19 @@ app.addHook('preHandler', async (request, reply) => {
     return;
   }
 
+  if (signatureVerifier) {
+    const result = await signatureVerifier.verify({
+      method: request.method,
+      url: request.url,
+      headers: request.headers,
+      rawBody: request.rawBody || '',
+    });
+    if (!result.ok) {
+      request.log.warn({ reason: result.reason }, 'Rejected request signature');
+      return reply.code(401).send({ error: 'Unauthorized', message: result.reason });
+    }
+  }
+
   // Skip auth if no token is configured
   if (!config.auth.token) {
     return;
@@ -100,7 +141,9 @@ app.addHook('preHandler', async (request, reply) => {
 app.addHook('onRequest', async (request, reply) => {
   reply.header('Access-Control-Allow-Origin', '*');
   reply.header('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
-  reply.header('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-Session-ID, Neon-Connection-String, Neon-Raw-Text-Output, Neon-Array-Mode, Neon-Batch-Isolation-Level, Neon-Batch-Read-Only, Neon-Batch-Deferrable');
+  reply.header('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-Session-ID, Neon-Connection-String, Neon-Raw-Text-Output, Neon-Array-Mode, Neon-Batch-Isolation-Level, Neon-Batch-Read-Only, Neon-Batch-Deferrable, X-Transaction-ID, X-Request-ID, X-Statement-Timeout, X-Signature, X-Signature-Timestamp, X-Signature-Nonce, Last-Event-ID');
+  reply.header('Access-Control-Expose-Headers', 'X-Request-ID, X-Prepared-Statement');
+  reply.header('X-Request-ID', request.id);
 
   if (request.method === 'OPTIONS') {
     reply.code(204).send();
@@ -115,6 +158,12 @@ app.get('/', async () => {
     endpoints: [
       { path: '/query', method: 'POST', description: 'Execute SQL queries' },
       { path: '/transaction', method: 'POST', description: 'Execute transactions' },
+      { path: '/batch', method: 'POST', description: 'Execute independent queries without a transaction' },
+      { path: '/stream', method: 'POST', description: 'Stream the rows of a query as NDJSON' },
+      { path: '/listen', method: 'GET', description: 'Subscribe to LISTEN/NOTIFY channels over Server-Sent Events' },
+      { path: '/transaction/begin', method: 'POST', description: 'Begin an interactive transaction' },
+      { path: '/transaction/commit', method: 'POST', description: 'Commit an interactive transaction' },
+      { path: '/transaction/rollback', method: 'POST', description: 'Roll back an interactive transaction' },
       { path: '/health', method: 'GET', description: 'Health check endpoint' }
     ],
     documentation: 'https://github.com/samuellembke/drizzle-edge-pg-proxy-client'
@@ -129,7 +178,8 @@ app.get('/health', async () => {
       await client.query('SELECT 1');
       return { 
         status: 'ok',
-        database: 'connected'
+        database: 'connected',
+        preparedStatements: getPreparedStatementStats()
       };
     } finally {
       client.release();
@@ -154,6 +204,34 @@ app.post('/transaction', async (request, reply) => {
   return handleTransaction(request, reply, pool, app.log);
 });
 
+// Batch endpoint for independent queries
+app.post('/batch', async (request, reply) => {
+  return handleBatch(request, reply, pool, app.log);
+});
+
+// Streaming endpoint for large result sets
+app.post('/stream', async (request, reply) => {
+  return handleStream(request, reply, pool, app.log);
+});
+
+// Notification subscriptions over Server-Sent Events
+app.get('/listen', async (request, reply) => {
+  return handleListen(request, reply, app.log);
+});
+
+// Interactive transaction endpoints
+app.post('/transaction/begin', async (request, reply) => {
+  return handleTransactionBegin(request, reply, pool, app.log);
+});
+
+app.post('/transaction/commit', async (request, reply) => {
+  return handleTransactionCommit(request, reply, app.log);
+});
+
+app.post('/transaction/rollback', async (request, reply) => {
+  return handleTransactionRollback(request, reply, app.log);
+});
+
 // Start the server
 const start = async () => {
   try {
@@ -169,7 +247,16 @@ const start = async () => {
 const shutdown = async () => {
   app.log.info('Shutting down server...');
   clearInterval(cleanupInterval);
+  // Subscription streams would otherwise keep the server from closing
+  const closedListeners = await closeAllListeners(app.log);
+  if (closedListeners > 0) {
+    app.log.info(`Closed ${closedListeners} LISTEN connection(s)`);
+  }
   await app.close();
+  const rolledBack = await rollbackAllTransactions(app.log);
+  if (rolledBack > 0) {
+    app.log.info(`Rolled back ${rolledBack} open interactive transaction(s)`);
+  }
   await pool.end();
   app.log.info('Server successfully shut down');
   process.exit(0);
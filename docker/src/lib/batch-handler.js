@@ -0,0 +1,106 @@
+// Non-transactional batches for the PostgreSQL HTTP proxy server
+
+const { formatQueryResult, formatPostgresError } = require('./utils');
+const { getStatementTimeout, withStatementTimeout, cancelOnDisconnect } = require('./cancellation');
+const { config } = require('./config');
+
+// Run one statement of a batch on its own pool client; failures become an error entry
+// instead of failing the batch
+async function runStatement(request, reply, pool, logger, queryItem, index, settings) {
+  const { query, params = [] } = queryItem || {};
+  if (!query) {
+    return { status: 'error', error: { message: `Query at index ${index} is missing SQL statement (field: "query")` } };
+  }
+
+  let client;
+  let stopWatching = () => false;
+  try {
+    client = await pool.connect();
+    stopWatching = cancelOnDisconnect(request, reply, pool, client, logger);
+
+    logger.debug({ query, params, index, sessionId: settings.sessionId }, 'Executing query in batch');
+    const result = await withStatementTimeout(client, settings.statementTimeout, () => client.query(query, params));
+
+    const formattedResult = formatQueryResult(result, settings.rawTextOutput);
+    formattedResult.rowAsArray = settings.arrayMode;
+    return { status: 'ok', result: formattedResult };
+  } catch (error) {
+    logger.warn({
+      error: error.message,
+      errorCode: error.code,
+      index,
+      sessionId: settings.sessionId
+    }, 'Query in batch failed');
+    return { status: 'error', error: formatPostgresError(error) };
+  } finally {
+    const cancelled = stopWatching();
+    if (client) {
+      client.release(cancelled);
+    }
+  }
+}
+
+// Run the statements with at most as many in flight as the pool has connections, so one batch
+// never waits on more pool.connect() calls than the pool can serve
+async function runConcurrently(queries, run) {
+  const results = new Array(queries.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < queries.length) {
+      const index = next++;
+      results[index] = await run(queries[index], index);
+    }
+  };
+  const workers = Math.min(queries.length, Math.max(1, config.database.pool.max));
+  await Promise.all(Array.from({ length: workers }, worker));
+  return results;
+}
+
+// Handle a batch of independent queries: each runs in autocommit mode, concurrently (up to the
+// pool size) unless options.sequential is set, and gets its own result or error entry
+async function handleBatch(request, reply, pool, logger) {
+  const { queries, options = {} } = request.body || {};
+
+  // Validate queries array
+  if (!queries || !Array.isArray(queries) || queries.length === 0) {
+    return reply.code(400).send({ error: 'Queries array is required and must not be empty' });
+  }
+
+  const settings = {
+    sessionId: request.headers['x-session-id'],
+    rawTextOutput: request.headers['neon-raw-text-output'] === 'true',
+    arrayMode: request.headers['neon-array-mode'] === 'true',
+    statementTimeout: getStatementTimeout(request)
+  };
+  const sequential = options.sequential === true;
+
+  logger.debug({
+    queryCount: queries.length,
+    sequential,
+    sessionId: settings.sessionId
+  }, 'Starting batch');
+
+  const run = (queryItem, index) => runStatement(request, reply, pool, logger, queryItem, index, settings);
+
+  let results;
+  if (sequential) {
+    results = [];
+    for (let i = 0; i < queries.length; i++) {
+      results.push(await run(queries[i], i));
+    }
+  } else {
+    results = await runConcurrently(queries, run);
+  }
+
+  logger.debug({
+    resultsCount: results.length,
+    failedCount: results.filter(entry => entry.status === 'error').length,
+    sessionId: settings.sessionId
+  }, 'Batch finished');
+
+  return { results };
+}
+
+module.exports = {
+  handleBatch
+};
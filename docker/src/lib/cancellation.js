@@ -0,0 +1,62 @@
+// Statement timeouts and cancellation of queries whose client has gone away
+
+const { config } = require('./config');
+
+// Milliseconds requested with the X-Statement-Timeout header, capped by MAX_STATEMENT_TIMEOUT;
+// null when the request sets no timeout
+function getStatementTimeout(request) {
+  const requestedMs = parseInt(request.headers['x-statement-timeout'], 10);
+  if (!(requestedMs > 0)) {
+    return null;
+  }
+  const maxMs = config.query.maxStatementTimeoutMillis;
+  return maxMs > 0 ? Math.min(requestedMs, maxMs) : requestedMs;
+}
+
+// Run fn with statement_timeout set on the client. The setting is reset afterwards; inside a
+// transaction that failed, the rollback reverts it instead.
+async function withStatementTimeout(client, timeoutMs, fn) {
+  if (!timeoutMs) {
+    return fn();
+  }
+  await client.query(`SET statement_timeout = ${Number(timeoutMs)}`);
+  try {
+    return await fn();
+  } finally {
+    await client.query('RESET statement_timeout').catch(() => {});
+  }
+}
+
+// Cancel the query running on client if the HTTP client disconnects before the response was
+// sent (an aborted fetch or a cancelled edge function). Returns a function that stops watching;
+// call it before releasing the client. It returns true when a cancel was sent: the cancel
+// travels over another pooled connection and may arrive after the query finished, so the
+// client must then be released with that value to discard it rather than hand its backend to
+// another request whose query the cancel would hit.
+function cancelOnDisconnect(request, reply, pool, client, logger) {
+  let running = true;
+  let cancelled = false;
+  const onClose = () => {
+    if (!running || reply.raw.writableFinished) {
+      return;
+    }
+    cancelled = true;
+    const pid = client.processID;
+    logger.warn({ pid, sessionId: request.headers['x-session-id'] }, 'Client disconnected, cancelling query');
+    pool.query('SELECT pg_cancel_backend($1)', [pid]).catch((error) => {
+      logger.warn({ pid, error: error.message }, 'Failed to cancel query');
+    });
+  };
+  reply.raw.once('close', onClose);
+  return () => {
+    running = false;
+    reply.raw.off('close', onClose);
+    return cancelled;
+  };
+}
+
+module.exports = {
+  getStatementTimeout,
+  withStatementTimeout,
+  cancelOnDisconnect
+};
@@ -12,7 +12,29 @@ const config = {
     }
   },
   auth: {
-    token: process.env.AUTH_TOKEN
+    token: process.env.AUTH_TOKEN,
+    // Shared secret for HMAC request signatures; when set, unsigned requests are rejected
+    signingSecret: process.env.SIGNING_SECRET,
+    // Signed requests whose timestamp differs from the server clock by more than this are rejected
+    signatureMaxAgeMillis: parseInt(process.env.SIGNATURE_MAX_AGE || '60000', 10)
+  },
+  query: {
+    // Upper limit for the statement_timeout clients request with X-Statement-Timeout (0 = none)
+    maxStatementTimeoutMillis: parseInt(process.env.MAX_STATEMENT_TIMEOUT || '0', 10),
+    // Upper limit for the rows /stream fetches from its cursor at a time
+    maxStreamBatchSize: parseInt(process.env.STREAM_MAX_BATCH_SIZE || '10000', 10),
+    // Named statements kept prepared per pooled connection (0 = run every statement unnamed)
+    preparedStatementCacheSize: parseInt(process.env.PREPARED_STATEMENT_CACHE_SIZE || '100', 10)
+  },
+  transaction: {
+    // Interactive transactions idle for longer than this are rolled back
+    idleTimeoutMillis: parseInt(process.env.TRANSACTION_IDLE_TIMEOUT || '30000', 10)
+  },
+  listen: {
+    // Notifications kept per channel set for clients that reconnect with Last-Event-ID
+    bufferSize: parseInt(process.env.LISTEN_BUFFER_SIZE || '1000', 10),
+    // How long a LISTEN connection stays open after its last subscriber left, so reconnects can resume
+    resumeWindowMillis: parseInt(process.env.LISTEN_RESUME_WINDOW || '30000', 10)
   },
   enableCompression: process.env.ENABLE_COMPRESSION === 'true'
 };
@@ -0,0 +1,169 @@
+// Interactive (callback-style) transaction handling for the PostgreSQL HTTP proxy server
+//
+// A transaction is begun with POST /transaction/begin, which pins a pooled client to the
+// caller's session. Queries carrying the matching X-Transaction-ID header run on that client
+// until POST /transaction/commit or /transaction/rollback releases it. Transactions left idle
+// for longer than their idle timeout are rolled back automatically.
+
+const { randomUUID } = require('crypto');
+const { config } = require('./config');
+const { sessionStorage } = require('./session');
+const { formatPostgresError } = require('./utils');
+const { getTransactionOptions, buildBeginCommand } = require('./transaction-handler');
+
+// Error body for an unknown or expired transaction ID (25P01: no_active_sql_transaction)
+function transactionNotFound(transactionId) {
+  return {
+    message: `Transaction ${transactionId} not found or has expired`,
+    code: '25P01'
+  };
+}
+
+// End a transaction with COMMIT or ROLLBACK and release its client back to the pool
+async function finishTransaction(session, transactionId, command, logger) {
+  const entry = session.transactions.get(transactionId);
+  if (!entry) {
+    return false;
+  }
+
+  session.transactions.delete(transactionId);
+  clearTimeout(entry.timer);
+
+  try {
+    await entry.client.query(command);
+    entry.client.release(entry.cancelled);
+  } catch (error) {
+    // Destroy the connection rather than returning it to the pool in an unknown state
+    entry.client.release(error);
+    logger.warn({ transactionId, command, error: error.message }, 'Failed to finish interactive transaction');
+    throw error;
+  }
+
+  return true;
+}
+
+// (Re)start the idle timer of a transaction that has no query in flight
+function scheduleIdleRollback(session, transactionId, entry, logger) {
+  clearTimeout(entry.timer);
+  entry.timer = setTimeout(() => {
+    logger.warn({ transactionId, idleTimeoutMs: entry.idleTimeoutMs }, 'Rolling back idle interactive transaction');
+    finishTransaction(session, transactionId, 'ROLLBACK', logger).catch(() => {});
+  }, entry.idleTimeoutMs);
+}
+
+// Look up a transaction for a query and pause its idle timer; returns null if unknown
+function acquireTransactionClient(session, transactionId) {
+  const entry = session.transactions.get(transactionId);
+  if (!entry) {
+    return null;
+  }
+
+  entry.activeQueries++;
+  clearTimeout(entry.timer);
+  return entry;
+}
+
+// Mark a query on a transaction as finished and restart the idle timer once none are running
+function releaseTransactionClient(session, transactionId, entry, logger) {
+  entry.activeQueries--;
+  if (entry.activeQueries === 0 && session.transactions.get(transactionId) === entry) {
+    scheduleIdleRollback(session, transactionId, entry, logger);
+  }
+}
+
+// Begin an interactive transaction bound to the request's session
+async function handleTransactionBegin(request, reply, pool, logger) {
+  const session = request.session;
+  const sessionId = request.headers['x-session-id'];
+
+  let startCmd;
+  try {
+    startCmd = buildBeginCommand(getTransactionOptions(request));
+  } catch (error) {
+    return reply.code(400).send({ message: error.message });
+  }
+
+  // Clients may ask for a shorter idle timeout, never a longer one
+  const maxIdleTimeoutMs = config.transaction.idleTimeoutMillis;
+  const requestedTimeoutMs = Number(request.body && request.body.idleTimeoutMs);
+  const idleTimeoutMs = requestedTimeoutMs > 0 ? Math.min(requestedTimeoutMs, maxIdleTimeoutMs) : maxIdleTimeoutMs;
+
+  const client = await pool.connect();
+  try {
+    await client.query(startCmd);
+  } catch (error) {
+    client.release();
+    logger.error({ error, errorCode: error.code, sessionId }, 'Failed to begin interactive transaction');
+    return reply.code(400).send(formatPostgresError(error));
+  }
+
+  const transactionId = randomUUID();
+  // cancelled: a query was cancelled on disconnect, so the client is discarded at the end
+  const entry = { client, idleTimeoutMs, activeQueries: 0, timer: null, cancelled: false };
+  session.transactions.set(transactionId, entry);
+  scheduleIdleRollback(session, transactionId, entry, logger);
+
+  logger.debug({
+    transactionId,
+    startCmd,
+    idleTimeoutMs,
+    sessionId,
+    openTransactions: session.transactions.size
+  }, 'Interactive transaction started');
+
+  return { transactionId, idleTimeoutMs };
+}
+
+// Commit or roll back an interactive transaction identified by the X-Transaction-ID header
+async function handleTransactionEnd(request, reply, command, logger) {
+  const session = request.session;
+  const sessionId = request.headers['x-session-id'];
+  const transactionId = request.headers['x-transaction-id'];
+
+  if (!transactionId) {
+    return reply.code(400).send({ message: 'X-Transaction-ID header is required' });
+  }
+
+  try {
+    const finished = await finishTransaction(session, transactionId, command, logger);
+    if (!finished) {
+      return reply.code(404).send(transactionNotFound(transactionId));
+    }
+  } catch (error) {
+    logger.error({ error, errorCode: error.code, transactionId, sessionId }, `Interactive transaction ${command} failed`);
+    return reply.code(400).send(formatPostgresError(error));
+  }
+
+  logger.debug({ transactionId, command, sessionId }, 'Interactive transaction finished');
+  return { transactionId, status: command === 'COMMIT' ? 'committed' : 'rolled_back' };
+}
+
+async function handleTransactionCommit(request, reply, logger) {
+  return handleTransactionEnd(request, reply, 'COMMIT', logger);
+}
+
+async function handleTransactionRollback(request, reply, logger) {
+  return handleTransactionEnd(request, reply, 'ROLLBACK', logger);
+}
+
+// Roll back every open interactive transaction (used on shutdown)
+async function rollbackAllTransactions(logger) {
+  const pending = [];
+  for (const session of sessionStorage.values()) {
+    for (const transactionId of [...session.transactions.keys()]) {
+      pending.push(finishTransaction(session, transactionId, 'ROLLBACK', logger).catch(() => {}));
+    }
+  }
+  await Promise.all(pending);
+  return pending.length;
+}
+
+module.exports = {
+  transactionNotFound,
+  acquireTransactionClient,
+  releaseTransactionClient,
+  handleTransactionBegin,
+  handleTransactionCommit,
+  handleTransactionRollback,
+  rollbackAllTransactions
+};
@@ -0,0 +1,214 @@
+// LISTEN/NOTIFY subscriptions for the PostgreSQL HTTP proxy server, streamed as Server-Sent Events
+
+const { randomUUID } = require('crypto');
+const { Client } = require('pg');
+const { config } = require('./config');
+const { formatPostgresError } = require('./utils');
+
+// Comment lines sent while no notifications arrive, so proxies and clients keep the stream open
+const HEARTBEAT_INTERVAL_MS = 15000;
+
+// One dedicated LISTEN connection per distinct set of channels, shared by every subscriber to
+// that set. Keyed by the sorted channel names; values are promises while the connection opens.
+const listeners = new Map();
+
+const quoteIdentifier = (name) => `"${name.replace(/"/g, '""')}"`;
+
+// Channel names from ?channel=a&channel=b, deduplicated and sorted
+function getChannels(request) {
+  const requested = request.query && request.query.channel;
+  const channels = (Array.isArray(requested) ? requested : [requested])
+    .filter(channel => typeof channel === 'string' && channel !== '');
+  return [...new Set(channels)].sort();
+}
+
+// Close a listener's connection and end its subscribers' streams, which then reconnect
+function closeListener(listener, logger, error) {
+  if (listener.closed) {
+    return;
+  }
+  listener.closed = true;
+  clearTimeout(listener.lingerTimer);
+  if (listeners.get(listener.key) === listener.ready) {
+    listeners.delete(listener.key);
+  }
+  if (error) {
+    logger.warn({ error: error.message, channels: listener.channels }, 'LISTEN connection lost');
+  }
+  for (const subscriber of listener.subscribers) {
+    subscriber.end();
+  }
+  listener.subscribers.clear();
+  listener.client.end().catch(() => {});
+}
+
+// Keep a listener without subscribers open for a while, so subscribers that reconnect can resume
+function lingerIfUnused(listener, logger) {
+  if (listener.subscribers.size === 0 && !listener.closed) {
+    clearTimeout(listener.lingerTimer);
+    listener.lingerTimer = setTimeout(() => closeListener(listener, logger), config.listen.resumeWindowMillis);
+  }
+}
+
+// Open a connection that LISTENs on the channels; notifications get an ID made of the listener's
+// epoch and a sequence number, and the latest ones are kept for resuming subscribers
+async function openListener(key, channels, logger) {
+  const client = new Client({ connectionString: config.database.url });
+  const listener = {
+    key,
+    channels,
+    client,
+    epoch: randomUUID(),
+    seq: 0,
+    buffer: [],
+    subscribers: new Set(),
+    lingerTimer: null,
+    closed: false,
+    ready: null
+  };
+
+  client.on('notification', (message) => {
+    listener.seq++;
+    const event = {
+      seq: listener.seq,
+      id: `${listener.epoch}:${listener.seq}`,
+      data: JSON.stringify({ channel: message.channel, payload: message.payload, processId: message.processId })
+    };
+    listener.buffer.push(event);
+    if (listener.buffer.length > config.listen.bufferSize) {
+      listener.buffer.shift();
+    }
+    for (const subscriber of listener.subscribers) {
+      subscriber.send(event);
+    }
+  });
+  client.on('error', (error) => closeListener(listener, logger, error));
+  client.on('end', () => closeListener(listener, logger));
+
+  try {
+    await client.connect();
+    for (const channel of channels) {
+      await client.query(`LISTEN ${quoteIdentifier(channel)}`);
+    }
+  } catch (error) {
+    closeListener(listener, logger);
+    throw error;
+  }
+
+  logger.debug({ channels }, 'LISTEN connection opened');
+  return listener;
+}
+
+// The open listener for the channels, opening it on first use
+async function acquireListener(channels, logger) {
+  const key = channels.join('\0');
+  let ready = listeners.get(key);
+  if (!ready) {
+    ready = openListener(key, channels, logger);
+    listeners.set(key, ready);
+    ready.then(
+      (listener) => { listener.ready = ready; },
+      () => { if (listeners.get(key) === ready) listeners.delete(key); }
+    );
+  }
+  const listener = await ready;
+  // Another request may have seen the connection fail meanwhile
+  return listener.closed ? acquireListener(channels, logger) : listener;
+}
+
+// Buffered notifications after the Last-Event-ID, or null when some of them are no longer
+// available (another epoch, or more notifications than the buffer holds)
+function eventsAfter(listener, lastEventId) {
+  const [epoch, seqText] = String(lastEventId).split(':');
+  const lastSeq = Number(seqText);
+  if (epoch !== listener.epoch || !Number.isInteger(lastSeq)) {
+    return null;
+  }
+  const missed = listener.buffer.filter(event => event.seq > lastSeq);
+  const firstMissed = lastSeq + 1;
+  if (lastSeq < listener.seq && (missed.length === 0 || missed[0].seq !== firstMissed)) {
+    return null;
+  }
+  return missed;
+}
+
+// Handle a subscription: GET /listen?channel=... answers with an SSE stream. It starts with a
+// "ready" event (resumed tells whether missed notifications could be replayed), then sends one
+// event per notification with {channel, payload, processId} as its data.
+async function handleListen(request, reply, logger) {
+  const channels = getChannels(request);
+  const sessionId = request.headers['x-session-id'];
+  if (channels.length === 0) {
+    return reply.code(400).send({ error: 'At least one channel (query parameter: "channel") is required' });
+  }
+
+  let listener;
+  try {
+    listener = await acquireListener(channels, logger);
+  } catch (error) {
+    logger.error({ error, errorCode: error.code, channels, sessionId }, 'Failed to LISTEN');
+    return reply.code(400).send(formatPostgresError(error));
+  }
+
+  // The client may have gone away while the connection opened
+  if (request.raw.socket.destroyed) {
+    reply.hijack();
+    lingerIfUnused(listener, logger);
+    return;
+  }
+
+  const lastEventId = request.headers['last-event-id'];
+  const replay = lastEventId ? eventsAfter(listener, lastEventId) : [];
+
+  // The stream outlives the handler; Fastify must not send a reply of its own
+  reply.hijack();
+  const res = reply.raw;
+  res.writeHead(200, {
+    ...reply.getHeaders(),
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no'
+  });
+
+  const subscriber = {
+    send: (event) => res.write(`id: ${event.id}\ndata: ${event.data}\n\n`),
+    end: () => res.end()
+  };
+
+  // Without notifications to replay, the ready event carries the current position, so a
+  // reconnect can resume even if no notification arrives before it; replayed ones carry their own
+  const position = replay && replay.length > 0 ? '' : `id: ${listener.epoch}:${listener.seq}\n`;
+  res.write(`${position}event: ready\ndata: ${JSON.stringify({ channels, resumed: replay !== null })}\n\n`);
+  for (const event of replay || []) {
+    subscriber.send(event);
+  }
+
+  listener.subscribers.add(subscriber);
+  clearTimeout(listener.lingerTimer);
+  const heartbeat = setInterval(() => res.write(': ping\n\n'), HEARTBEAT_INTERVAL_MS);
+
+  logger.debug({ channels, sessionId, resumed: replay !== null, replayed: replay ? replay.length : 0 }, 'Subscriber connected');
+
+  res.on('close', () => {
+    clearInterval(heartbeat);
+    listener.subscribers.delete(subscriber);
+    logger.debug({ channels, sessionId }, 'Subscriber disconnected');
+    lingerIfUnused(listener, logger);
+  });
+}
+
+// Close every LISTEN connection and end all subscriptions (used on shutdown)
+async function closeAllListeners(logger) {
+  const open = await Promise.all([...listeners.values()].map(ready => ready.catch(() => null)));
+  const closing = open.filter(Boolean);
+  for (const listener of closing) {
+    closeListener(listener, logger);
+  }
+  return closing.length;
+}
+
+module.exports = {
+  handleListen,
+  closeAllListeners
+};
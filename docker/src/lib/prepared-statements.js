@@ -0,0 +1,106 @@
+// Per-connection prepared statement cache for the PostgreSQL HTTP proxy server
+//
+// Clients name their statements after a hash of the SQL text. The first query with a name on a
+// pooled connection prepares the statement under that name; later ones on the same connection
+// skip parsing and planning. Each connection keeps its PREPARED_STATEMENT_CACHE_SIZE most
+// recently used statements and deallocates the others.
+
+const { config } = require('./config');
+
+// Prepared statements of each connection, least recently used first; values are the SQL text
+const caches = new WeakMap();
+
+// Counters since the proxy started, reported by /health
+const stats = { hits: 0, misses: 0, evictions: 0, invalidations: 0 };
+
+// Names the proxy accepts; anything else runs unnamed
+const STATEMENT_NAME = /^[A-Za-z_][A-Za-z0-9_]{0,62}$/;
+
+// 0A000 feature_not_supported, raised when a schema change altered the result of a cached plan
+const PLAN_INVALIDATED = 'cached plan must not change result type';
+
+const quoteIdentifier = (name) => `"${name.replace(/"/g, '""')}"`;
+
+// pg skips Parse for statements it saw parse on a connection; it must forget deallocated ones
+function isParsed(client, name) {
+  return Boolean(client.connection && client.connection.parsedStatements[name]);
+}
+
+async function deallocate(client, name, logger) {
+  if (client.connection) {
+    delete client.connection.parsedStatements[name];
+  }
+  try {
+    await client.query(`DEALLOCATE ${quoteIdentifier(name)}`);
+  } catch (error) {
+    logger.warn({ name, error: error.message }, 'Failed to deallocate prepared statement');
+  }
+}
+
+// Deallocate the least recently used statements beyond the cache size. Not done while the
+// connection is in an interactive transaction, where a failed DEALLOCATE would abort it.
+async function evict(client, cache, logger) {
+  for (const name of cache.keys()) {
+    if (cache.size <= config.query.preparedStatementCacheSize) {
+      break;
+    }
+    cache.delete(name);
+    stats.evictions++;
+    await deallocate(client, name, logger);
+  }
+}
+
+// Run a query, as a prepared statement when it carries a valid name and the cache is enabled.
+// Returns the result and, for prepared statements, 'hit' or 'miss'. Outside a transaction, a
+// statement whose plan a schema change invalidated is prepared again.
+async function queryPrepared(client, { name, text, values }, { inTransaction }, logger) {
+  if (!name || config.query.preparedStatementCacheSize <= 0 || !STATEMENT_NAME.test(name)) {
+    return { result: await client.query(text, values) };
+  }
+
+  let cache = caches.get(client);
+  if (!cache) {
+    cache = new Map();
+    caches.set(client, cache);
+  }
+  const cachedText = cache.get(name);
+  if (cachedText !== undefined && cachedText !== text) {
+    // Another statement hashed to the same name
+    return { result: await client.query(text, values) };
+  }
+
+  const hit = isParsed(client, name);
+  cache.delete(name);
+  cache.set(name, text);
+  try {
+    const result = await client.query({ name, text, values });
+    stats[hit ? 'hits' : 'misses']++;
+    if (!inTransaction) {
+      await evict(client, cache, logger);
+    }
+    return { result, cache: hit ? 'hit' : 'miss' };
+  } catch (error) {
+    if (!isParsed(client, name)) {
+      // Parsing failed, so there is nothing to deallocate
+      cache.delete(name);
+    }
+    // Inside a transaction the error aborted it; the next use outside one prepares the statement again
+    if (!hit || inTransaction || error.code !== '0A000' || !String(error.message).includes(PLAN_INVALIDATED)) {
+      throw error;
+    }
+    stats.invalidations++;
+    cache.delete(name);
+    logger.info({ name }, 'Prepared statement invalidated by a schema change');
+    await deallocate(client, name, logger);
+    return queryPrepared(client, { name, text, values }, { inTransaction }, logger);
+  }
+}
+
+function getPreparedStatementStats() {
+  return { ...stats, cacheSize: config.query.preparedStatementCacheSize };
+}
+
+module.exports = {
+  queryPrepared,
+  getPreparedStatementStats
+};
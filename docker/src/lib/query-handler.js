@@ -1,14 +1,17 @@
 // Query handling for the PostgreSQL HTTP proxy server
 
-const { formatQueryResult, formatPostgresError } = require('./utils');
+const { formatQueryResult, formatPostgresError, connectOrReply } = require('./utils');
+const { acquireTransactionClient, releaseTransactionClient, transactionNotFound } = require('./interactive-transaction');
+const { getStatementTimeout, withStatementTimeout, cancelOnDisconnect } = require('./cancellation');
+const { queryPrepared } = require('./prepared-statements');
 
 // Handle a single query execution
 async function handleQuery(request, reply, pool, logger) {
   // Get client session from the request context
   const session = request.session;
 
-  // Expect 'query' field to match Neon protocol
-  const { query, params = [], method = 'all' } = request.body; 
+  // Expect 'query' field to match Neon protocol; name (optional) identifies a statement to keep prepared
+  const { query, params = [], method = 'all', name } = request.body; 
   const rawTextOutput = request.headers['neon-raw-text-output'] === 'true';
   const arrayMode = request.headers['neon-array-mode'] === 'true';
 
@@ -26,18 +29,43 @@ async function handleQuery(request, reply, pool, logger) {
 
   // Process session values for tracking
   const sessionId = request.headers['x-session-id'];
+
+  // Queries inside an interactive transaction run on the client pinned to that transaction
+  const transactionId = request.headers['x-transaction-id'];
+  let transaction = null;
+  if (transactionId) {
+    transaction = acquireTransactionClient(session, transactionId);
+    if (!transaction) {
+      return reply.code(404).send(transactionNotFound(transactionId));
+    }
+  }
   
+  const statementTimeout = getStatementTimeout(request);
+
   // Log the query with important session context
   logger.debug({ 
     query, // Log 'query' field
     params, 
     sessionId,
+    transactionId,
+    statementTimeout,
     sessionStorageSize: session.returningValues.size
   }, 'Processing query');
 
+  let client = null;
+  let stopWatching = null;
   try {
-    // Execute the query exactly as received
-    const result = await pool.query(query, params); // Use 'query' variable
+    // Execute the query exactly as received, on a client of its own so it can be cancelled
+    client = transaction ? transaction.client : await connectOrReply(pool, reply, logger, sessionId);
+    if (!client) {
+      return reply;
+    }
+    stopWatching = cancelOnDisconnect(request, reply, pool, client, logger);
+    const { result, cache } = await withStatementTimeout(client, statementTimeout, () =>
+      queryPrepared(client, { name, text: query, values: params }, { inTransaction: Boolean(transaction) }, logger));
+    if (cache) {
+      reply.header('X-Prepared-Statement', cache);
+    }
     
     // Store RETURNING values in session for future queries
     if (hasReturning && result.rows && result.rows.length > 0) {
@@ -79,6 +107,7 @@ async function handleQuery(request, reply, pool, logger) {
     logger.debug({ 
       rowCount: result.rowCount,
       hasRows: result.rows.length > 0,
+      preparedStatement: cache,
       sessionId
     }, 'Query completed successfully');
 
@@ -109,6 +138,14 @@ async function handleQuery(request, reply, pool, logger) {
 
     // Format PostgreSQL error like Neon does
     return reply.code(400).send(formatPostgresError(error));
+  } finally {
+    const cancelled = stopWatching ? stopWatching() : false;
+    if (transaction) {
+      transaction.cancelled = transaction.cancelled || cancelled;
+      releaseTransactionClient(session, transactionId, transaction, logger);
+    } else if (client) {
+      client.release(cancelled);
+    }
   }
 }
 
@@ -0,0 +1,74 @@
+// Verification of HMAC-signed requests for the PostgreSQL HTTP proxy server.
+// The canonical string must match the client's (src/client/signing.ts):
+// METHOD \n path \n timestamp \n nonce \n hex(sha256(body))
+//
+// The path is the one the proxy receives (request.url, with the query string). A reverse proxy
+// in front of it must forward the path unchanged, or the signatures will not match.
+
+const { createHash, createHmac, timingSafeEqual } = require('crypto');
+
+const header = (headers, name) => {
+  const value = headers[name];
+  return Array.isArray(value) ? value[0] : value;
+};
+
+// Create a verifier for requests signed with the shared secret. A request is accepted once:
+// maxAgeMs bounds the difference between its timestamp and now, and nonces are remembered
+// for twice that long.
+function createSignatureVerifier({ secret, maxAgeMs, now = Date.now }) {
+  // Nonces of accepted requests in insertion order, with the time they can be forgotten. A
+  // request older than maxAgeMs is rejected by its timestamp, so 2 * maxAgeMs is enough.
+  const seenNonces = new Map();
+
+  const forgetExpiredNonces = (time) => {
+    for (const [nonce, expiresAt] of seenNonces) {
+      if (expiresAt > time) {
+        break;
+      }
+      seenNonces.delete(nonce);
+    }
+  };
+
+  // request: { method, url (path and query string, as received), headers, rawBody };
+  // resolves to { ok: true } or { ok: false, reason }
+  async function verify(request) {
+    const signature = header(request.headers, 'x-signature');
+    const timestamp = header(request.headers, 'x-signature-timestamp');
+    const nonce = header(request.headers, 'x-signature-nonce');
+    if (!signature || !timestamp || !nonce) {
+      return { ok: false, reason: 'Missing request signature' };
+    }
+
+    const time = now();
+    const age = Math.abs(time - Number(timestamp));
+    if (!/^\d+$/.test(timestamp) || age > maxAgeMs) {
+      return { ok: false, reason: 'Request timestamp is too old or too far in the future' };
+    }
+
+    if (!/^(?:[0-9a-f]{2})+$/i.test(signature)) {
+      return { ok: false, reason: 'Invalid request signature' };
+    }
+    const bodyDigest = createHash('sha256').update(request.rawBody, 'utf8').digest('hex');
+    const canonical = [request.method.toUpperCase(), request.url, timestamp, nonce, bodyDigest].join('\n');
+    const expected = createHmac('sha256', secret).update(canonical, 'utf8').digest();
+    const received = Buffer.from(signature, 'hex');
+    // timingSafeEqual compares in constant time, but only buffers of the same length
+    if (received.length !== expected.length || !timingSafeEqual(received, expected)) {
+      return { ok: false, reason: 'Invalid request signature' };
+    }
+
+    // Only requests with a valid signature reach the nonce cache, so it cannot be flooded
+    forgetExpiredNonces(time);
+    if (seenNonces.has(nonce)) {
+      return { ok: false, reason: 'Request nonce has already been used' };
+    }
+    seenNonces.set(nonce, time + 2 * maxAgeMs);
+    return { ok: true };
+  }
+
+  return { verify };
+}
+
+module.exports = {
+  createSignatureVerifier
+};
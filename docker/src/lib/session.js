@@ -31,7 +31,8 @@ function getOrCreateSession(request) {
   if (!sessionStorage.has(clientId)) {
     sessionStorage.set(clientId, {
       lastActivity: Date.now(),
-      returningValues: new Map() // Simple key-value store for values from RETURNING clauses
+      returningValues: new Map(), // Simple key-value store for values from RETURNING clauses
+      transactions: new Map() // Open interactive transactions keyed by transaction ID
     });
   } else {
     // Update last activity timestamp
@@ -51,7 +52,8 @@ function setupSessionCleanup(logger) {
 
     let expiredCount = 0;
     for (const [clientId, session] of sessionStorage.entries()) {
-      if (now - session.lastActivity > expiryTime) {
+      // Sessions with open interactive transactions are kept until the transactions finish
+      if (now - session.lastActivity > expiryTime && session.transactions.size === 0) {
         sessionStorage.delete(clientId);
         expiredCount++;
       }
@@ -0,0 +1,109 @@
+// Streaming of large result sets for the PostgreSQL HTTP proxy server
+
+const { Readable } = require('stream');
+const { config } = require('./config');
+const { formatQueryResult, formatPostgresError } = require('./utils');
+const { getStatementTimeout, cancelOnDisconnect } = require('./cancellation');
+
+const DEFAULT_BATCH_SIZE = 1000;
+const CURSOR_NAME = 'proxy_stream';
+
+// Rows fetched per round trip: the requested batchSize, capped by STREAM_MAX_BATCH_SIZE
+function getBatchSize(request) {
+  const requested = parseInt(request.body.batchSize, 10);
+  const batchSize = requested > 0 ? requested : DEFAULT_BATCH_SIZE;
+  return Math.min(batchSize, config.query.maxStreamBatchSize);
+}
+
+// Handle a streamed query. The query runs as a cursor in a transaction of its own; the response
+// is NDJSON: a {"fields"} line, {"rows"} lines of up to batchSize rows, then an {"end"} line, or
+// an {"error"} line when the query fails after the response has started. The next batch is only
+// fetched once the previous one has been written, so a slow reader holds the cursor back instead
+// of filling the proxy's memory.
+async function handleStream(request, reply, pool, logger) {
+  const { query, params = [] } = request.body;
+  const rawTextOutput = request.headers['neon-raw-text-output'] === 'true';
+  const arrayMode = request.headers['neon-array-mode'] === 'true';
+  const sessionId = request.headers['x-session-id'];
+
+  if (!query) {
+    return reply.code(400).send({ error: 'SQL query (field: "query") is required' });
+  }
+
+  const batchSize = getBatchSize(request);
+  const statementTimeout = getStatementTimeout(request);
+  // Rows are sent as /query sends them (see formatQueryResult), so both give the client the same values
+  const fetchConfig = `FETCH ${batchSize} FROM ${CURSOR_NAME}`;
+
+  logger.debug({ query, params, batchSize, statementTimeout, sessionId }, 'Starting stream');
+
+  const client = await pool.connect();
+  const stopWatching = cancelOnDisconnect(request, reply, pool, client, logger);
+
+  const finish = async (error) => {
+    const cancelled = stopWatching();
+    try {
+      await client.query(error ? 'ROLLBACK' : 'COMMIT');
+      client.release(cancelled);
+    } catch (endError) {
+      // A connection that failed to end its transaction is not reused
+      client.release(endError);
+    }
+  };
+
+  // Declare the cursor and fetch the first batch before answering, so errors in the query itself
+  // still get a regular 400 response
+  let first;
+  try {
+    await client.query('BEGIN');
+    if (statementTimeout) {
+      // Applies to every FETCH; SET LOCAL ends with the transaction
+      await client.query(`SET LOCAL statement_timeout = ${statementTimeout}`);
+    }
+    await client.query(`DECLARE ${CURSOR_NAME} NO SCROLL CURSOR FOR ${query}`, params);
+    first = await client.query(fetchConfig);
+  } catch (error) {
+    logger.error({ error, query, errorCode: error.code, sessionId }, 'Stream query error');
+    await finish(error);
+    return reply.code(400).send(formatPostgresError(error));
+  }
+
+  const { fields } = formatQueryResult(first, rawTextOutput);
+
+  async function* lines() {
+    let rowCount = 0;
+    let completed = false;
+    let failed = null;
+    try {
+      yield JSON.stringify({ fields, rowAsArray: arrayMode }) + '\n';
+      let result = first;
+      while (result.rows.length > 0) {
+        rowCount += result.rows.length;
+        yield JSON.stringify({ rows: result.rows }) + '\n';
+        if (result.rows.length < batchSize) {
+          break;
+        }
+        result = await client.query(fetchConfig);
+      }
+      yield JSON.stringify({ end: { command: 'SELECT', rowCount } }) + '\n';
+      completed = true;
+      logger.debug({ rowCount, sessionId }, 'Stream completed');
+    } catch (error) {
+      failed = error;
+      logger.error({ error, query, errorCode: error.code, rowCount, sessionId }, 'Stream failed');
+      yield JSON.stringify({ error: formatPostgresError(error) }) + '\n';
+    } finally {
+      // Also reached when the reader went away and the response stream was destroyed
+      await finish(failed || (completed ? null : new Error('Stream aborted')));
+    }
+  }
+
+  return reply
+    .type('application/x-ndjson')
+    .header('Cache-Control', 'no-cache')
+    .send(Readable.from(lines(), { objectMode: false, highWaterMark: 1 }));
+}
+
+module.exports = {
+  handleStream
+};
@@ -1,6 +1,50 @@
 // Transaction handling for the PostgreSQL HTTP proxy server
 
-const { formatQueryResult, formatPostgresError } = require('./utils');
+const { formatQueryResult, formatPostgresError, connectOrReply } = require('./utils');
+const { getStatementTimeout, cancelOnDisconnect } = require('./cancellation');
+
+// Neon's isolation level names mapped to their SQL spelling
+const ISOLATION_LEVELS = {
+  ReadUncommitted: 'READ UNCOMMITTED',
+  ReadCommitted: 'READ COMMITTED',
+  RepeatableRead: 'REPEATABLE READ',
+  Serializable: 'SERIALIZABLE'
+};
+
+// Read transaction options from the Neon-Batch-* headers, falling back to body.options
+function getTransactionOptions(request) {
+  const headers = request.headers;
+  const bodyOptions = (request.body && request.body.options) || {};
+
+  const readFlag = (header, fallback) => {
+    return headers[header] !== undefined ? headers[header] === 'true' : fallback;
+  };
+
+  return {
+    isolationLevel: headers['neon-batch-isolation-level'] || bodyOptions.isolationLevel,
+    readOnly: readFlag('neon-batch-read-only', bodyOptions.readOnly),
+    deferrable: readFlag('neon-batch-deferrable', bodyOptions.deferrable)
+  };
+}
+
+// Build the BEGIN statement for the given options; throws on an unknown isolation level
+function buildBeginCommand({ isolationLevel, readOnly, deferrable }) {
+  let startCmd = 'BEGIN';
+  if (isolationLevel) {
+    const level = ISOLATION_LEVELS[isolationLevel] || String(isolationLevel).toUpperCase();
+    if (!Object.values(ISOLATION_LEVELS).includes(level)) {
+      throw new Error(`Invalid isolation level: ${isolationLevel}`);
+    }
+    startCmd += ` ISOLATION LEVEL ${level}`;
+  }
+  if (readOnly === true) {
+    startCmd += ' READ ONLY';
+  }
+  if (deferrable === true) {
+    startCmd += ' DEFERRABLE';
+  }
+  return startCmd;
+}
 
 // Handle a transaction with multiple queries
 async function handleTransaction(request, reply, pool, logger) {
@@ -8,7 +52,7 @@ async function handleTransaction(request, reply, pool, logger) {
   const session = request.session;
   const sessionId = request.headers['x-session-id'];
 
-  const { queries, options = {} } = request.body;
+  const { queries } = request.body;
   const rawTextOutput = request.headers['neon-raw-text-output'] === 'true';
   const arrayMode = request.headers['neon-array-mode'] === 'true';
 
@@ -18,12 +62,19 @@ async function handleTransaction(request, reply, pool, logger) {
   }
 
   // Check for optional transaction settings
+  const options = getTransactionOptions(request);
   const { isolationLevel, readOnly, deferrable } = options;
+
+  let startCmd;
+  try {
+    startCmd = buildBeginCommand(options);
+  } catch (error) {
+    return reply.code(400).send({ message: error.message });
+  }
   
   // Log transaction start with context
   logger.debug({
     queryCount: queries.length,
-    hasOptions: Object.keys(options).length > 0,
     isolationLevel,
     readOnly,
     deferrable,
@@ -31,28 +82,31 @@ async function handleTransaction(request, reply, pool, logger) {
     sessionStorageSize: session.returningValues.size
   }, 'Starting transaction');
 
+  const statementTimeout = getStatementTimeout(request);
+
   // Get a client from the pool
-  const client = await pool.connect();
+  const client = await connectOrReply(pool, reply, logger, sessionId);
+  if (!client) {
+    return reply;
+  }
+  const stopWatching = cancelOnDisconnect(request, reply, pool, client, logger);
   
   // Define transaction results array
   const results = [];
+  // Index of the query being executed, reported to the client when it fails
+  let queryIndex = -1;
 
   try {
     // Start transaction with optional isolation level
-    let startCmd = 'BEGIN';
-    if (isolationLevel) {
-      startCmd += ` ISOLATION LEVEL ${isolationLevel}`;
-    }
-    if (readOnly === true) {
-      startCmd += ' READ ONLY';
-    }
-    if (deferrable === true) {
-      startCmd += ' DEFERRABLE';
-    }
     await client.query(startCmd);
+    if (statementTimeout) {
+      // SET LOCAL ends with the transaction
+      await client.query(`SET LOCAL statement_timeout = ${statementTimeout}`);
+    }
 
     // Process each query in sequence
     for (let i = 0; i < queries.length; i++) {
+      queryIndex = i;
       const queryItem = queries[i];
       // Expect 'query' field to match Neon protocol
       const { query, params = [], method = 'all' } = queryItem; 
@@ -147,14 +201,21 @@ async function handleTransaction(request, reply, pool, logger) {
       sessionId
     }, 'Transaction failed');
 
-    // Format the error response
-    return reply.code(400).send(formatPostgresError(error));
+    // Format the error response; queryIndex stays -1 when BEGIN or COMMIT failed
+    const errorResponse = formatPostgresError(error);
+    if (queryIndex >= 0 && results.length === queryIndex) {
+      errorResponse.queryIndex = queryIndex;
+    }
+    return reply.code(400).send(errorResponse);
   } finally {
-    // Always release the client back to the pool
-    client.release();
+    const cancelled = stopWatching();
+    // Always release the client, back to the pool unless a cancel may still reach it
+    client.release(cancelled);
   }
 }
 
 module.exports = {
-  handleTransaction
+  handleTransaction,
+  getTransactionOptions,
+  buildBeginCommand
 };
@@ -64,7 +64,21 @@ function formatQueryResult(result, rawTextOutput = false) {
   };
 }
 
+// Get a client from the pool. If none can be had, answer 503 with notExecuted: the statements
+// never reached the database, so the client may retry them even if they write. Returns null
+// after answering.
+async function connectOrReply(pool, reply, logger, sessionId) {
+  try {
+    return await pool.connect();
+  } catch (error) {
+    logger.error({ error: error.message, errorCode: error.code, sessionId }, 'Failed to get a database connection');
+    reply.code(503).send({ ...formatPostgresError(error), notExecuted: true });
+    return null;
+  }
+}
+
 module.exports = {
   formatPostgresError,
-  formatQueryResult
+  formatQueryResult,
+  connectOrReply
 };
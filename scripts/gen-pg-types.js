@@ -0,0 +1,123 @@
+// Generates src/client/pg-type-catalog.ts (the PgTypeId enum, the built-in type catalog and the
+// range types) from pg_type and pg_range of a running PostgreSQL server.
+//
+//   DATABASE_URL=postgres://... node scripts/gen-pg-types.js           rewrite the file
+//   DATABASE_URL=postgres://... node scripts/gen-pg-types.js --check   fail if it is out of date
+
+import { readFileSync, writeFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import pg from 'pg';
+
+const OUTPUT = fileURLToPath(new URL('../src/client/pg-type-catalog.ts', import.meta.url));
+
+// Built-in types with fixed OIDs. Types initdb creates get OIDs from 10000 up, which differ
+// between installations, so they are left out, as are the rowtypes of shared catalogs whose
+// array types get such OIDs. Array types are listed with their element type, not on their own;
+// int2vector and oidvector are not the array type of anything and stay in.
+const TYPES_QUERY = `
+  SELECT t.oid::int AS oid, t.typname AS name, t.typarray::int AS "arrayOid",
+         t.typcategory AS category, t.typdelim AS delimiter
+  FROM pg_type t
+  WHERE t.typnamespace = 'pg_catalog'::regnamespace
+    AND t.typisdefined
+    AND t.oid < 10000
+    AND t.typarray < 10000
+    AND NOT EXISTS (SELECT 1 FROM pg_type a WHERE a.typarray = t.oid)
+  ORDER BY t.oid`;
+
+const RANGES_QUERY = `
+  SELECT rngtypid::int AS "rangeOid", rngmultitypid::int AS "multirangeOid", rngsubtype::int AS "subtypeOid"
+  FROM pg_range
+  WHERE rngtypid < 10000
+  ORDER BY rngtypid`;
+
+// Types removed from pg_type in PostgreSQL 12, kept for older servers
+const REMOVED_TYPES = [
+  { oid: 702, name: 'abstime', arrayOid: 1023, category: 'D', delimiter: ',', removedIn: 12 },
+  { oid: 703, name: 'reltime', arrayOid: 1024, category: 'T', delimiter: ',', removedIn: 12 },
+  { oid: 704, name: 'tinterval', arrayOid: 1025, category: 'T', delimiter: ',', removedIn: 12 },
+];
+
+const member = (name) => name.toUpperCase();
+const arrayMember = (name) => `${member(name)}_ARRAY`;
+const quote = (value) => `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+
+function render(types, ranges) {
+  const byOid = new Map(types.map(info => [info.oid, info]));
+  const removed = (info) => (info.removedIn ? `  // Removed in PostgreSQL ${info.removedIn}` : '');
+  const arrays = types.filter(info => info.arrayOid !== 0).sort((a, b) => a.arrayOid - b.arrayOid);
+
+  const catalogEntry = (info) => {
+    const arrayOid = info.arrayOid === 0 ? '0' : `PgTypeId.${arrayMember(info.name)}`;
+    const delimiter = info.delimiter === ',' ? '' : `, ${quote(info.delimiter)}`;
+    return `  type(PgTypeId.${member(info.name)}, ${quote(info.name)}, ${arrayOid}, '${info.category}'${delimiter}),`;
+  };
+  const rangeEntry = (range) => {
+    const name = (oid) => `PgTypeId.${member(byOid.get(oid).name)}`;
+    return `  { rangeOid: ${name(range.rangeOid)}, multirangeOid: ${name(range.multirangeOid)}, subtypeOid: ${name(range.subtypeOid)} },`;
+  };
+
+  return [
+    '/**',
+    ' * Built-in PostgreSQL types, generated by scripts/gen-pg-types.js from pg_type and pg_range.',
+    ' * Do not edit by hand: run `npm run gen:pg-types` against a PostgreSQL server instead.',
+    ' */',
+    '',
+    "import type { PgTypeCategory, PgTypeInfo } from './pg-types';",
+    '',
+    '// PostgreSQL Data Types IDs',
+    'export enum PgTypeId {',
+    ...types.map(info => `  ${member(info.name)} = ${info.oid},${removed(info)}`),
+    '',
+    '  // Array types',
+    ...arrays.map(info => `  ${arrayMember(info.name)} = ${info.arrayOid},${removed(info)}`),
+    '}',
+    '',
+    'function type(oid: number, name: string, arrayOid: number, category: PgTypeCategory, delimiter = \',\'): PgTypeInfo {',
+    '  return { oid, name, arrayOid, category, delimiter };',
+    '}',
+    '',
+    'export const PG_TYPE_CATALOG: readonly PgTypeInfo[] = [',
+    ...types.map(catalogEntry),
+    '];',
+    '',
+    '// Built-in range types: range OID, multirange OID and subtype OID',
+    'export const RANGE_TYPES: readonly { rangeOid: number; multirangeOid: number; subtypeOid: number }[] = [',
+    ...ranges.map(rangeEntry),
+    '];',
+    '',
+  ].join('\n');
+}
+
+async function main() {
+  if (!process.env.DATABASE_URL) {
+    throw new Error('Set DATABASE_URL to the PostgreSQL server to read pg_type from');
+  }
+  const client = new pg.Client({ connectionString: process.env.DATABASE_URL });
+  await client.connect();
+  try {
+    const current = (await client.query(TYPES_QUERY)).rows;
+    const ranges = (await client.query(RANGES_QUERY)).rows;
+    // Servers before PostgreSQL 12 still have the removed types; list them the same way for all
+    const types = [...current.filter(row => !REMOVED_TYPES.some(info => info.oid === row.oid)), ...REMOVED_TYPES]
+      .sort((a, b) => a.oid - b.oid);
+    const source = render(types, ranges);
+
+    if (process.argv.includes('--check')) {
+      if (readFileSync(OUTPUT, 'utf8') !== source) {
+        console.error('src/client/pg-type-catalog.ts is out of date; run npm run gen:pg-types');
+        process.exitCode = 1;
+      }
+      return;
+    }
+    writeFileSync(OUTPUT, source);
+    console.log(`Wrote ${types.length} types and ${ranges.length} ranges to src/client/pg-type-catalog.ts`);
+  } finally {
+    await client.end();
+  }
+}
+
+main().catch((error) => {
+  console.error(error.message);
+  process.exitCode = 1;
+});
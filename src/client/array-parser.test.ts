@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest';
-import { TypeParser, PgTypeId, isArrayType, getElementTypeId } from './pg-http-client';
+import { TypeParser, PgTypeId, isArrayType, getElementTypeId, processQueryResult, parsePostgresArray } from './parsing';
+import { PG_TYPE_CATALOG, getArrayTypeId, getTypeInfoByName } from './pg-types';
 
 // Since the array parsing functions aren't exported directly,
 // we'll test them through the TypeParser class which uses them internally
@@ -135,4 +136,124 @@ describe('PostgreSQL Array Parser', () => {
       expect(dateResult[1].getUTCMonth()).toBe(1);
     });
   });
+
+  describe('Type Catalog', () => {
+    it('should not treat scalar types in the 1000-1099 range as arrays', () => {
+      for (const typeId of [PgTypeId.ACLITEM, PgTypeId.BPCHAR, PgTypeId.VARCHAR, PgTypeId.DATE, PgTypeId.TIME]) {
+        expect(isArrayType(typeId)).toBe(false);
+      }
+    });
+
+    it('should map every array type to its element type and back', () => {
+      for (const info of PG_TYPE_CATALOG.filter(t => t.arrayOid !== 0)) {
+        expect(isArrayType(info.arrayOid)).toBe(true);
+        expect(getElementTypeId(info.arrayOid)).toBe(info.oid);
+        expect(getArrayTypeId(info.oid)).toBe(info.arrayOid);
+      }
+      expect(getElementTypeId(PgTypeId.TEXT)).toBe(0);
+    });
+
+    it('should look types up by name', () => {
+      expect(getTypeInfoByName('timestamptz')).toMatchObject({
+        oid: PgTypeId.TIMESTAMPTZ,
+        arrayOid: PgTypeId.TIMESTAMPTZ_ARRAY,
+        category: 'D',
+      });
+      expect(getTypeInfoByName('box')?.delimiter).toBe(';');
+    });
+
+    it('should leave plain varchar and date columns alone when processing results', () => {
+      const result = processQueryResult({
+        fields: [
+          { name: 'code', dataTypeID: PgTypeId.VARCHAR },
+          { name: 'day', dataTypeID: PgTypeId.DATE },
+        ],
+        rows: [['{not an array}', '2024-01-15']],
+      }, typeParser, false);
+      expect(result.rows[0].code).toBe('{not an array}');
+      expect(result.rows[0].day).toBeInstanceOf(Date);
+    });
+
+    it('should provide array parsers for every built-in element type', () => {
+      expect(typeParser.getTypeParser(PgTypeId.BPCHAR_ARRAY)('{a,b}')).toEqual(['a', 'b']);
+      expect(typeParser.getTypeParser(PgTypeId.TIME_ARRAY)('{10:00:00,"12:30:00"}')).toEqual(['10:00:00', '12:30:00']);
+      expect(typeParser.getTypeParser(PgTypeId.INET_ARRAY)('{10.0.0.1,::1}')).toEqual([
+        { address: '10.0.0.1', prefix: 32 },
+        { address: '::1', prefix: 128 },
+      ]);
+    });
+
+    it('should split box arrays on semicolons', () => {
+      const result = typeParser.getTypeParser(PgTypeId.BOX_ARRAY)('{(1,1),(0,0);(3,3),(2,2)}');
+      expect(result).toEqual([
+        { upperRight: { x: 1, y: 1 }, lowerLeft: { x: 0, y: 0 } },
+        { upperRight: { x: 3, y: 3 }, lowerLeft: { x: 2, y: 2 } },
+      ]);
+    });
+  });
+
+  describe('Array I/O Rules', () => {
+    const text = (value: string) => parsePostgresArray(value, item => item);
+
+    it('should distinguish quoted NULL and empty strings from SQL NULL', () => {
+      expect(text('{NULL,null,"NULL","null",""}')).toEqual([null, null, 'NULL', 'null', '']);
+      expect(text('{\\NULL,NUL\\L}')).toEqual(['NULL', 'NULL']);
+      expect(text('{"",a,""}')).toEqual(['', 'a', '']);
+    });
+
+    it('should trim whitespace around elements but keep it inside and when quoted', () => {
+      expect(text('{  a  ,  b c  }')).toEqual(['a', 'b c']);
+      expect(text('{" a ","\tb"}')).toEqual([' a ', '\tb']);
+      expect(text('{a\\ ,\\ b}')).toEqual(['a ', ' b']);
+      expect(text(' { { 1 , 2 } , { 3 , 4 } } ')).toEqual([['1', '2'], ['3', '4']]);
+    });
+
+    it('should unescape backslashes inside and outside quotes', () => {
+      expect(text('{"a\\"b","c\\\\d",e\\,f}')).toEqual(['a"b', 'c\\d', 'e,f']);
+    });
+
+    it('should keep braces and delimiters inside quoted elements', () => {
+      expect(text('{"{1,2}","}","a;b"}')).toEqual(['{1,2}', '}', 'a;b']);
+      expect(parsePostgresArray('{"{[1,3),[5,8)}","{}"}', item => `<${item}>`)).toEqual(['<{[1,3),[5,8)}>', '<{}>']);
+    });
+
+    it('should accept dimension decorations and drop the bounds', () => {
+      expect(text('[0:2]={1,2,3}')).toEqual(['1', '2', '3']);
+      expect(text('[1:2][-1:0]={{a,b},{c,d}}')).toEqual([['a', 'b'], ['c', 'd']]);
+      expect(() => text('[1:x]={1}')).toThrow('malformed dimensions');
+    });
+
+    it('should split on the given delimiter only', () => {
+      expect(parsePostgresArray('{(1,1),(0,0);(3,3),(2,2)}', item => item, ';')).toEqual(['(1,1),(0,0)', '(3,3),(2,2)']);
+      expect(parsePostgresArray('{"a;b";c}', item => item, ';')).toEqual(['a;b', 'c']);
+    });
+
+    it('should parse empty and nested empty arrays', () => {
+      expect(text('{}')).toEqual([]);
+      expect(text('{ }')).toEqual([]);
+      expect(text('{{},{}}')).toEqual([[], []]);
+    });
+
+    it('should not call the element parser for NULL', () => {
+      const seen: string[] = [];
+      parsePostgresArray('{1,NULL,"NULL"}', item => seen.push(item));
+      expect(seen).toEqual(['1', 'NULL']);
+    });
+
+    it('should reject malformed literals', () => {
+      for (const literal of ['', '1,2', '{1,2', '{1,,2}', '{"a}', '{1,{2}}', '{{1},2}', '{1} x']) {
+        expect(() => text(literal), literal).toThrow('Invalid PostgreSQL array format');
+      }
+      // Quoted sections may start mid-element
+      expect(text('{a b"c"}')).toEqual(['a bc']);
+    });
+
+    it('should parse large arrays quickly', () => {
+      const values = Array.from({ length: 100000 }, (_, i) => i);
+      const literal = '{' + values.join(',') + '}';
+      const started = Date.now();
+      expect(typeParser.getTypeParser(PgTypeId.INT4_ARRAY)(literal)).toEqual(values);
+      expect(Date.now() - started).toBeLessThan(1000);
+    });
+  });
 });
@@ -0,0 +1,124 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createPgHttpClient, LogLevel, ProxyAuthError } from './index';
+import { createTokenSource, getJwtExpiry } from './auth';
+
+const mockFetch = vi.fn();
+
+const jsonResponse = (body: any, status = 200) => ({
+  ok: status >= 200 && status < 300,
+  status,
+  statusText: status === 200 ? 'OK' : 'Error',
+  headers: new Headers(),
+  json: async () => body,
+}) as unknown as Response;
+
+const okResult = { command: 'SELECT', rowCount: 0, fields: [], rows: [] };
+
+const authorizationOf = (call: number) => (mockFetch.mock.calls[call]![1].headers as Record<string, string>)['Authorization'];
+
+// Unsigned JWT with the given exp claim (seconds)
+const jwt = (exp: number) => `eyJhbGciOiJub25lIn0.${btoa(JSON.stringify({ sub: 'tenant-1', exp })).replace(/=+$/, '')}.`;
+
+describe('Token source', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should read the expiry of JWTs', () => {
+    expect(getJwtExpiry(jwt(1700000000))).toBe(1700000000 * 1000);
+    expect(getJwtExpiry('static-token')).toBeUndefined();
+    expect(getJwtExpiry('a.b.c')).toBeUndefined();
+  });
+
+  it('should cache tokens until shortly before they expire', async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(0);
+    let issued = 0;
+    const tokens = createTokenSource(() => ({ token: `token-${++issued}`, expiresAt: 60_000 }));
+
+    expect(await tokens.get()).toBe('token-1');
+    vi.setSystemTime(45_000);
+    expect(await tokens.get()).toBe('token-1');
+    vi.setSystemTime(55_000);
+    expect(await tokens.get()).toBe('token-2');
+  });
+
+  it('should coalesce concurrent refreshes', async () => {
+    const provider = vi.fn(async () => {
+      await new Promise(resolve => setTimeout(resolve, 5));
+      return 'fresh-token';
+    });
+    const tokens = createTokenSource(provider);
+
+    const results = await Promise.all([tokens.get(), tokens.get(), tokens.get()]);
+    expect(results).toEqual(['fresh-token', 'fresh-token', 'fresh-token']);
+    expect(provider).toHaveBeenCalledTimes(1);
+  });
+
+  it('should only drop the token that was rejected', async () => {
+    let issued = 0;
+    const tokens = createTokenSource(() => `token-${++issued}`);
+    const first = await tokens.get();
+    tokens.invalidate(first);
+    const second = await tokens.get();
+    expect(second).toBe('token-2');
+
+    // A late 401 for the old token keeps the new one
+    tokens.invalidate(first);
+    expect(await tokens.get()).toBe('token-2');
+    expect(createTokenSource('static').invalidate('static')).toBe(false);
+  });
+});
+
+describe('Clients with a token provider', () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+  });
+
+  const createClient = (authToken: any) => createPgHttpClient({
+    proxyUrl: 'https://test-proxy.com',
+    fetch: mockFetch as unknown as typeof fetch,
+    logger: { level: LogLevel.None },
+    authToken,
+  });
+
+  it('should send tokens from sync and async providers', async () => {
+    mockFetch.mockResolvedValue(jsonResponse(okResult));
+    await createClient(() => 'sync-token').query('SELECT 1');
+    await createClient(async () => ({ token: 'async-token' })).query('SELECT 1');
+    await createClient('static-token').query('SELECT 1');
+    expect([0, 1, 2].map(authorizationOf)).toEqual(['Bearer sync-token', 'Bearer async-token', 'Bearer static-token']);
+  });
+
+  it('should refresh the token and retry once after a 401', async () => {
+    let issued = 0;
+    const provider = vi.fn(() => `token-${++issued}`);
+    mockFetch
+      .mockResolvedValueOnce(jsonResponse({ error: 'Unauthorized' }, 401))
+      .mockResolvedValueOnce(jsonResponse(okResult));
+
+    await createClient(provider).query('SELECT 1');
+    expect([0, 1].map(authorizationOf)).toEqual(['Bearer token-1', 'Bearer token-2']);
+    expect(provider).toHaveBeenCalledTimes(2);
+  });
+
+  it('should give up after the refreshed token is rejected too', async () => {
+    mockFetch.mockResolvedValue(jsonResponse({ error: 'Unauthorized' }, 401));
+    await expect(createClient(() => 'revoked').query('SELECT 1')).rejects.toBeInstanceOf(ProxyAuthError);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+
+    // Static tokens cannot be refreshed
+    mockFetch.mockClear();
+    await expect(createClient('static-token').query('SELECT 1')).rejects.toBeInstanceOf(ProxyAuthError);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should surface provider failures as ProxyAuthError', async () => {
+    const error = await createClient(async () => { throw new Error('token service down'); })
+      .query('SELECT 1')
+      .catch(e => e);
+    expect(error).toBeInstanceOf(ProxyAuthError);
+    expect(error.message).toBe('Failed to get an auth token: token service down');
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+});
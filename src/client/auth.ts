@@ -0,0 +1,73 @@
+import { ProxyAuthError } from './errors';
+import type { AuthToken, AuthTokenProvider } from './types';
+
+/**
+ * Auth token handling: a static token, or a provider whose tokens are cached until they expire
+ */
+
+// Tokens are refreshed this long before they expire, so they don't expire in flight
+const EXPIRY_MARGIN_MS = 10_000;
+
+// Expiry of a JWT from its exp claim; undefined for other tokens
+export function getJwtExpiry(token: string): number | undefined {
+  const payload = token.split('.')[1];
+  if (!payload || token.split('.').length !== 3) return undefined;
+  try {
+    const base64 = payload.replace(/-/g, '+').replace(/_/g, '/');
+    const claims = JSON.parse(atob(base64.padEnd(base64.length + (4 - base64.length % 4) % 4, '=')));
+    return typeof claims?.exp === 'number' ? claims.exp * 1000 : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+export interface TokenSource {
+  get(): Promise<string | undefined>;
+  // Drop a token the proxy rejected; returns false if the token cannot be refreshed
+  invalidate(token: string | undefined): boolean;
+}
+
+export function createTokenSource(authToken: string | AuthTokenProvider | undefined): TokenSource {
+  if (typeof authToken !== 'function') {
+    return {
+      get: async () => authToken,
+      invalidate: () => false,
+    };
+  }
+
+  let cached: { token: string; expiresAt?: number } | null = null;
+  // Concurrent requests share one call to the provider
+  let pending: Promise<string> | null = null;
+
+  const fetchToken = async (): Promise<string> => {
+    let result: string | AuthToken;
+    try {
+      result = await authToken();
+    } catch (error) {
+      const authError = new ProxyAuthError(`Failed to get an auth token: ${error instanceof Error ? error.message : String(error)}`);
+      authError.sourceError = error instanceof Error ? error : undefined;
+      throw authError;
+    }
+    const token = typeof result === 'string' ? result : result.token;
+    const expiresAt = typeof result === 'string' || result.expiresAt === undefined
+      ? getJwtExpiry(token)
+      : new Date(result.expiresAt).getTime();
+    cached = { token, expiresAt };
+    return token;
+  };
+
+  return {
+    get: async () => {
+      if (cached && (cached.expiresAt === undefined || cached.expiresAt - EXPIRY_MARGIN_MS > Date.now())) {
+        return cached.token;
+      }
+      pending ??= fetchToken().finally(() => { pending = null; });
+      return pending;
+    },
+    invalidate: (token) => {
+      // Another request may have refreshed the token already
+      if (cached?.token === token) cached = null;
+      return true;
+    },
+  };
+}
@@ -0,0 +1,109 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createPgHttpClient, DatabaseError, LogLevel, PgError, ProxyConnectionError } from './index';
+
+const mockFetch = vi.fn();
+
+const jsonResponse = (body: any, status = 200) => ({
+  ok: status >= 200 && status < 300,
+  status,
+  statusText: status === 200 ? 'OK' : 'Error',
+  headers: new Headers(),
+  json: async () => body,
+}) as unknown as Response;
+
+const usersResult = { command: 'SELECT', rowCount: 1, fields: [{ name: 'id', dataTypeID: 23 }, { name: 'name', dataTypeID: 25 }], rows: [['1', 'Ada']] };
+const duplicateKey = { message: 'duplicate key value violates unique constraint "users_email_key"', code: '23505', constraint: 'users_email_key' };
+
+const requestBody = (call = 0) => JSON.parse(mockFetch.mock.calls[call]![1].body);
+
+describe('batch', () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+  });
+
+  const createClient = (options: { arrayMode?: boolean; retry?: boolean } = {}) => createPgHttpClient({
+    proxyUrl: 'https://test-proxy.com',
+    fetch: mockFetch as unknown as typeof fetch,
+    logger: { level: LogLevel.None },
+    ...options,
+  });
+
+  it('should send all statements in one request and return an entry per statement', async () => {
+    mockFetch.mockResolvedValueOnce(jsonResponse({
+      results: [
+        { status: 'ok', result: usersResult },
+        { status: 'error', error: duplicateKey },
+        { status: 'ok', result: { command: 'UPDATE', rowCount: 2, fields: [], rows: [] } },
+      ],
+    }));
+    const { sql, batch } = createClient();
+
+    const results = await batch([
+      sql`SELECT id, name FROM users WHERE id = ${1}`,
+      sql`INSERT INTO users (email) VALUES (${'ada@example.com'})`,
+      { text: 'UPDATE users SET seen = true WHERE team = :team', values: { team: 7 } },
+    ], { mode: 'independent' });
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(mockFetch.mock.calls[0]![0]).toBe('https://test-proxy.com/batch');
+    expect(requestBody()).toEqual({
+      queries: [
+        { query: 'SELECT id, name FROM users WHERE id = $1', params: [1] },
+        { query: 'INSERT INTO users (email) VALUES ($1)', params: ['ada@example.com'] },
+        { query: 'UPDATE users SET seen = true WHERE team = $1', params: [7] },
+      ],
+      options: { sequential: false },
+    });
+
+    expect(results[0]).toMatchObject({ status: 'ok', result: { rowCount: 1, rows: [{ id: 1, name: 'Ada' }] } });
+    expect(results[2]).toMatchObject({ status: 'ok', result: { command: 'UPDATE', rowCount: 2 } });
+
+    const failed = results[1]!;
+    expect(failed.status).toBe('error');
+    if (failed.status === 'error') {
+      expect(failed.error).toBeInstanceOf(DatabaseError);
+      expect(failed.error).toMatchObject({ code: '23505', constraint: 'users_email_key', queryIndex: 1 });
+    }
+  });
+
+  it('should pass sequential and arrayMode to the proxy', async () => {
+    mockFetch.mockResolvedValueOnce(jsonResponse({ results: [{ status: 'ok', result: usersResult }] }));
+    const { sql, batch } = createClient();
+
+    const [entry] = await batch([sql`SELECT id, name FROM users`], { mode: 'independent', sequential: true, arrayMode: true });
+
+    expect(requestBody().options).toEqual({ sequential: true });
+    expect(mockFetch.mock.calls[0]![1].headers['Neon-Array-Mode']).toBe('true');
+    expect(entry).toMatchObject({ status: 'ok', result: { rows: [[1, 'Ada']] } });
+  });
+
+  it('should reject when the request itself fails', async () => {
+    const { sql, batch } = createClient();
+
+    mockFetch.mockResolvedValueOnce(jsonResponse({ error: 'Service unavailable' }, 503));
+    await expect(batch([sql`SELECT 1`], { mode: 'independent' })).rejects.toBeInstanceOf(ProxyConnectionError);
+
+    mockFetch.mockResolvedValueOnce(jsonResponse({ results: [] }));
+    await expect(batch([sql`SELECT 1`], { mode: 'independent' })).rejects.toThrow('expected one result per query');
+
+    await expect(batch([sql`SELECT 1`], { mode: 'atomic' } as any)).rejects.toThrow(PgError);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should only retry batches with writes when they did not reach the database', async () => {
+    const { sql, batch } = createClient({ retry: true });
+    // A dropped connection may have run the INSERT already
+    mockFetch.mockRejectedValue(new TypeError('fetch failed'));
+
+    await expect(batch([sql`INSERT INTO users (name) VALUES (${'Ada'})`, sql`SELECT 1`], { mode: 'independent' })).rejects.toThrow();
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+
+    mockFetch.mockReset();
+    mockFetch
+      .mockRejectedValueOnce(new TypeError('fetch failed'))
+      .mockResolvedValueOnce(jsonResponse({ results: [{ status: 'ok', result: usersResult }] }));
+    const [entry] = await batch([sql`SELECT id, name FROM users`], { mode: 'independent', retry: { baseDelayMs: 0 } });
+    expect(entry!.status).toBe('ok');
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { encodeBytea, decodeBytea } from './binary';
+import { TypeParser } from './parsing';
+import { PgTypeId } from './pg-types';
+import { TypeSerializer } from './serialization';
+import { encodeBuffersAsBytea, toParameterizedQuery } from './utils';
+
+const sqlParts = (strings: TemplateStringsArray, ...values: any[]) => toParameterizedQuery(strings, values);
+
+describe('Binary data without Buffer', () => {
+  // Behave like an edge runtime without Node compatibility
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should hex-encode Uint8Array, ArrayBuffer and other views', () => {
+    vi.stubGlobal('Buffer', undefined);
+    const bytes = new Uint8Array([0, 1, 0xab, 0xff]);
+
+    expect(encodeBytea(bytes)).toBe('\\x0001abff');
+    expect(encodeBuffersAsBytea(bytes.buffer)).toBe('\\x0001abff');
+    expect(encodeBuffersAsBytea(new DataView(bytes.buffer, 2, 2))).toBe('\\xabff');
+    expect(encodeBuffersAsBytea('not binary')).toBe('not binary');
+  });
+
+  it('should add the bytea hint in sql templates and serialize params', () => {
+    vi.stubGlobal('Buffer', undefined);
+    const bytes = new Uint8Array([0xde, 0xad]);
+
+    expect(sqlParts`SELECT ${bytes}`).toEqual({ query: 'SELECT $1::bytea', params: [bytes] });
+    expect(new TypeSerializer().serialize(bytes)).toBe('\\xdead');
+    expect(new TypeSerializer().serialize([bytes])).toBe('{"\\\\xdead"}');
+  });
+
+  it('should decode hex and legacy escape output', () => {
+    vi.stubGlobal('Buffer', undefined);
+
+    expect(decodeBytea('\\x0001abff')).toEqual(new Uint8Array([0, 1, 0xab, 0xff]));
+    expect(decodeBytea('\\x')).toEqual(new Uint8Array([]));
+    expect(decodeBytea('ab\\\\c\\000\\377')).toEqual(new Uint8Array([0x61, 0x62, 0x5c, 0x63, 0, 0xff]));
+    expect(() => decodeBytea('\\x0g')).toThrow('Invalid hex');
+    expect(() => decodeBytea('bad\\9')).toThrow('Invalid bytea escape');
+  });
+});
+
+describe('BYTEA parsers', () => {
+  it('should parse bytea and bytea[] as Uint8Array by default', () => {
+    const parser = new TypeParser();
+    const value = parser.getTypeParser(PgTypeId.BYTEA)('\\x0102');
+
+    expect(value).toBeInstanceOf(Uint8Array);
+    expect(Buffer.isBuffer(value)).toBe(false);
+    expect(value).toEqual(new Uint8Array([1, 2]));
+    expect(parser.getTypeParser(PgTypeId.BYTEA_ARRAY)('{"\\\\x01",NULL,"\\\\xff"}')).toEqual([
+      new Uint8Array([1]),
+      null,
+      new Uint8Array([0xff]),
+    ]);
+  });
+
+  it('should return Buffer when requested and available', () => {
+    const parser = new TypeParser(undefined, { bytea: 'Buffer' });
+    const value = parser.getTypeParser(PgTypeId.BYTEA)('\\x0102');
+
+    expect(Buffer.isBuffer(value)).toBe(true);
+    expect(Array.from(value)).toEqual([1, 2]);
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * Binary (bytea) helpers built on Uint8Array only, so they work in edge runtimes
+ * without Node's Buffer (Cloudflare Workers, Deno, browsers)
+ */
+
+const HEX_DIGITS = '0123456789abcdef';
+
+// Byte -> two-character hex lookup table
+const BYTE_TO_HEX: string[] = Array.from({ length: 256 }, (_, byte) =>
+  HEX_DIGITS[byte >> 4]! + HEX_DIGITS[byte & 0x0f]!);
+
+// Check for binary data: ArrayBuffers and their views (Uint8Array, Buffer, DataView, ...)
+export function isBinary(value: unknown): value is ArrayBuffer | ArrayBufferView {
+  return value instanceof ArrayBuffer || ArrayBuffer.isView(value);
+}
+
+// View binary data as bytes without copying
+export function toUint8Array(value: ArrayBuffer | ArrayBufferView): Uint8Array {
+  if (value instanceof Uint8Array) return value;
+  if (value instanceof ArrayBuffer) return new Uint8Array(value);
+  return new Uint8Array(value.buffer, value.byteOffset, value.byteLength);
+}
+
+export function bytesToHex(bytes: Uint8Array): string {
+  let hex = '';
+  for (let i = 0; i < bytes.length; i++) {
+    hex += BYTE_TO_HEX[bytes[i]!];
+  }
+  return hex;
+}
+
+export function hexToBytes(hex: string): Uint8Array {
+  if (hex.length % 2 !== 0 || /[^0-9a-fA-F]/.test(hex)) {
+    throw new Error('Invalid hex string');
+  }
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.substr(i * 2, 2), 16);
+  }
+  return bytes;
+}
+
+// Encode binary data as a bytea hex literal: \x0102ff
+export function encodeBytea(value: ArrayBuffer | ArrayBufferView): string {
+  return '\\x' + bytesToHex(toUint8Array(value));
+}
+
+/**
+ * Decode bytea text output in either the hex format (\x0102ff, the default since
+ * PostgreSQL 9.0) or the legacy escape format (bytea_output = 'escape')
+ */
+export function decodeBytea(text: string): Uint8Array {
+  if (text.startsWith('\\x')) {
+    return hexToBytes(text.slice(2));
+  }
+
+  // Escape format: printable bytes as-is, \\ for a backslash and \ooo octal for the rest
+  const bytes: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const char = text.charCodeAt(i);
+    if (char !== 0x5c /* \ */) {
+      bytes.push(char);
+    } else if (text[i + 1] === '\\') {
+      bytes.push(0x5c);
+      i++;
+    } else if (/^[0-3][0-7]{2}$/.test(text.substr(i + 1, 3))) {
+      bytes.push(parseInt(text.substr(i + 1, 3), 8));
+      i += 3;
+    } else {
+      throw new Error(`Invalid bytea escape sequence at position ${i}`);
+    }
+  }
+  return new Uint8Array(bytes);
+}
+
+// Return bytes as a Node Buffer when Buffer exists, otherwise as the Uint8Array itself
+export function toBufferIfAvailable(bytes: Uint8Array): Uint8Array {
+  const NodeBuffer = (globalThis as any).Buffer;
+  return NodeBuffer ? NodeBuffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength) : bytes;
+}
@@ -0,0 +1,147 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createPgHttpClient, DatabaseError, LogLevel, ProxyConnectionError } from './index';
+import { clearTypeCache } from './type-discovery';
+import { drizzle } from '../drizzle';
+
+const mockFetch = vi.fn();
+
+const jsonResponse = (body: any) => new Response(JSON.stringify(body));
+
+const fields = [{ name: 'id', dataTypeID: 23 }];
+const idResult = (id: number) => ({ command: 'SELECT', rowCount: 1, fields, rows: [[String(id)]] });
+const duplicateKey = { message: 'duplicate key value violates unique constraint "users_email_key"', code: '23505' };
+
+const requestOf = (call: number) => {
+  const [url, init] = mockFetch.mock.calls[call]!;
+  return { path: new URL(url).pathname, body: JSON.parse(init.body) };
+};
+
+describe('coalesce', () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+  });
+
+  const createClient = (coalesce: boolean | { windowMs?: number; maxBatch?: number } = true) => createPgHttpClient({
+    proxyUrl: 'https://test-proxy.com',
+    fetch: mockFetch as unknown as typeof fetch,
+    logger: { level: LogLevel.None },
+    coalesce,
+  });
+
+  it('should send concurrent queries in one batch and settle each caller on its own', async () => {
+    // Each statement gets its own entry, whatever order the calls reached the batch in
+    mockFetch.mockImplementationOnce(async (_url: string, init: RequestInit) => jsonResponse({
+      results: JSON.parse(init.body as string).queries.map((q: any) => q.query.startsWith('INSERT')
+        ? { status: 'error', error: duplicateKey }
+        : { status: 'ok', result: idResult(q.params[0]) }),
+    }));
+    const { sql, query, execute } = createClient();
+
+    const [first, second, third] = await Promise.allSettled([
+      sql`SELECT id FROM users WHERE id = ${1}`,
+      execute('INSERT INTO users (email) VALUES ($1) RETURNING id', ['ada@example.com']),
+      query('SELECT id FROM users WHERE id = :id', { id: 3 }),
+    ]);
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(requestOf(0)).toMatchObject({
+      path: '/batch',
+      body: {
+        queries: expect.arrayContaining([
+          { query: 'SELECT id FROM users WHERE id = $1', params: [1] },
+          { query: 'INSERT INTO users (email) VALUES ($1) RETURNING id', params: ['ada@example.com'] },
+          { query: 'SELECT id FROM users WHERE id = $1', params: [3] },
+        ]),
+        options: { sequential: false },
+      },
+    });
+    expect(first).toEqual({ status: 'fulfilled', value: expect.objectContaining({ rows: [{ id: 1 }] }) });
+    expect(third).toEqual({ status: 'fulfilled', value: expect.objectContaining({ rows: [{ id: 3 }] }) });
+    expect(second.status).toBe('rejected');
+    const error = (second as PromiseRejectedResult).reason;
+    expect(error).toBeInstanceOf(DatabaseError);
+    expect(error).toMatchObject({ code: '23505', queryIndex: undefined });
+  });
+
+  it('should coalesce queries of a drizzle() instance created with coalesce', async () => {
+    mockFetch.mockImplementationOnce(async (_url: string, init: RequestInit) => jsonResponse({
+      results: JSON.parse(init.body as string).queries.map((q: any) => ({ status: 'ok', result: idResult(q.params[0]) })),
+    }));
+    const db = drizzle({
+      proxyUrl: 'https://test-proxy.com',
+      schema: {},
+      fetch: mockFetch as unknown as typeof fetch,
+      logger: { level: LogLevel.None },
+      coalesce: true,
+    });
+
+    const results = await Promise.all([1, 2].map(id => db.$client.query('SELECT id FROM users WHERE id = $1', [id])));
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(requestOf(0).path).toBe('/batch');
+    expect(results.map(result => result.rows)).toEqual([[{ id: 1 }], [{ id: 2 }]]);
+  });
+
+  it('should send a query that ends up alone as usual', async () => {
+    mockFetch.mockResolvedValueOnce(jsonResponse(idResult(1)));
+    const { sql } = createClient();
+    const result = await sql`SELECT id FROM users WHERE id = ${1}`;
+    expect(result.rows).toEqual([{ id: 1 }]);
+    expect(requestOf(0).path).toBe('/query');
+  });
+
+  it('should split batches at maxBatch and send queries with their own options alone', async () => {
+    mockFetch.mockImplementation(async (url: string, init: RequestInit) => {
+      if (new URL(url).pathname === '/query') return jsonResponse(idResult(9));
+      const { queries } = JSON.parse(init.body as string);
+      return jsonResponse({ results: queries.map((q: any) => ({ status: 'ok', result: idResult(q.params[0]) })) });
+    });
+    const { query } = createClient({ maxBatch: 2 });
+
+    const results = await Promise.all([
+      query('SELECT id FROM users WHERE id = $1', [1]),
+      query('SELECT id FROM users WHERE id = $1', [2]),
+      query('SELECT id FROM users WHERE id = $1', [3]),
+      query('SELECT id FROM users WHERE id = $1', [4]),
+      query('SELECT id FROM users WHERE id = $1', [9], { timeoutMs: 1000 }),
+    ]);
+
+    expect(results.map(result => result.rows[0].id)).toEqual([1, 2, 3, 4, 9]);
+    const requests = mockFetch.mock.calls.map((_, call) => requestOf(call));
+    expect(requests.filter(request => request.path === '/batch').map(request => request.body.queries.length)).toEqual([2, 2]);
+    expect(requests.filter(request => request.path === '/query')).toHaveLength(1);
+  });
+
+  it('should load types on their own before coalescing queries with autoLoadTypes', async () => {
+    clearTypeCache();
+    mockFetch.mockImplementation(async (url: string, init: RequestInit) => {
+      if (new URL(url).pathname === '/query') return jsonResponse({ command: 'SELECT', rowCount: 0, fields: [], rows: [] });
+      const { queries } = JSON.parse(init.body as string);
+      return jsonResponse({ results: queries.map((q: any) => ({ status: 'ok', result: idResult(q.params[0]) })) });
+    });
+    const { query } = createPgHttpClient({
+      proxyUrl: 'https://test-proxy.com',
+      fetch: mockFetch as unknown as typeof fetch,
+      logger: { level: LogLevel.None },
+      coalesce: true,
+      autoLoadTypes: true,
+    });
+
+    const results = await Promise.all([
+      query('SELECT id FROM users WHERE id = $1', [1]),
+      query('SELECT id FROM users WHERE id = $1', [2]),
+    ]);
+
+    expect(results.map(result => result.rows[0].id)).toEqual([1, 2]);
+    expect(mockFetch.mock.calls.map((_, call) => requestOf(call).path)).toEqual(['/query', '/batch']);
+  });
+
+  it('should reject every caller when the batch request fails', async () => {
+    mockFetch.mockRejectedValue(new TypeError('fetch failed'));
+    const { sql } = createClient({ windowMs: 5 });
+    const settled = await Promise.allSettled([sql`SELECT 1`, sql`SELECT 2`]);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(settled.map(result => result.status)).toEqual(['rejected', 'rejected']);
+    expect((settled[0] as PromiseRejectedResult).reason).toBeInstanceOf(ProxyConnectionError);
+  });
+});
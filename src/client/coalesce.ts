@@ -0,0 +1,47 @@
+import type { CoalesceOptions } from './types';
+
+export const DEFAULT_COALESCE_OPTIONS: Required<CoalesceOptions> = {
+  windowMs: 0,
+  maxBatch: 50,
+};
+
+// undefined means every query is sent on its own
+export function resolveCoalesceOptions(
+  coalesce: boolean | CoalesceOptions | undefined
+): Required<CoalesceOptions> | undefined {
+  if (!coalesce) return undefined;
+  return { ...DEFAULT_COALESCE_OPTIONS, ...(typeof coalesce === 'object' ? coalesce : {}) };
+}
+
+export interface PendingItem<T, R> {
+  item: T;
+  resolve: (value: R) => void;
+  reject: (error: unknown) => void;
+}
+
+// Collects the items added within the window after the first one and passes them to flush(),
+// which settles each item's promise. A batch reaching maxBatch is flushed right away.
+export function createCoalescer<T, R>(
+  options: Required<CoalesceOptions>,
+  flush: (batch: PendingItem<T, R>[]) => void
+): (item: T) => Promise<R> {
+  let queue: PendingItem<T, R>[] = [];
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const run = () => {
+    clearTimeout(timer);
+    timer = undefined;
+    const batch = queue;
+    queue = [];
+    if (batch.length > 0) flush(batch);
+  };
+
+  return (item: T) => new Promise<R>((resolve, reject) => {
+    queue.push({ item, resolve, reject });
+    if (queue.length >= Math.max(1, options.maxBatch)) {
+      run();
+    } else if (timer === undefined) {
+      timer = setTimeout(run, options.windowMs);
+    }
+  });
+}
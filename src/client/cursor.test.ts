@@ -0,0 +1,170 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createPgHttpClient, LogLevel, PgError } from './index';
+
+const mockFetch = vi.fn();
+
+const jsonResponse = (body: any) => ({
+  ok: true,
+  status: 200,
+  statusText: 'OK',
+  headers: new Headers(),
+  json: async () => body,
+}) as unknown as Response;
+
+const fields = [{ name: 'id', dataTypeID: 20 }, { name: 'created_at', dataTypeID: 1184 }];
+const eventsResult = (rows: string[][]) => ({ command: 'SELECT', rowCount: rows.length, fields, rows });
+const event = (id: number) => [String(id), `2024-01-0${id} 00:00:00+00`];
+// A keyset page: the rows followed by their sort keys as text, as buildKeysetQuery selects them
+const keysetResult = (rows: string[][], orderBy: string[]) => ({
+  command: 'SELECT',
+  rowCount: rows.length,
+  fields: [...fields, ...orderBy.map((_, i) => ({ name: `keyset_key_${i}`, dataTypeID: 25 }))],
+  rows: rows.map(row => [...row, ...orderBy.map(column => row[fields.findIndex(field => field.name === column)]!)]),
+});
+
+const requestOf = (call: number) => {
+  const [url, init] = mockFetch.mock.calls[call]!;
+  return { path: new URL(url).pathname, headers: init.headers, body: JSON.parse(init.body) };
+};
+
+describe('cursor', () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+  });
+
+  const createClient = (sessionId?: string) => createPgHttpClient({
+    proxyUrl: 'https://test-proxy.com',
+    fetch: mockFetch as unknown as typeof fetch,
+    logger: { level: LogLevel.None },
+    sessionId,
+  });
+
+  describe('keyset pagination', () => {
+    it('should continue after the last sort key of each page', async () => {
+      const { sql, cursor } = createClient();
+      mockFetch
+        .mockResolvedValueOnce(jsonResponse(keysetResult([event(1), event(2), event(3)], ['created_at', 'id'])))
+        .mockResolvedValueOnce(jsonResponse(keysetResult([event(3)], ['created_at', 'id'])));
+
+      const events = cursor(sql`SELECT id, created_at FROM events WHERE team_id = ${7}`, { pageSize: 2, orderBy: ['created_at', 'id'] });
+      const first = await events.nextPage();
+      expect(first.rows.map(row => row.id)).toEqual([1n, 2n]);
+      expect(first.nextToken).toEqual(expect.any(String));
+      expect(requestOf(0).body).toEqual({
+        query: 'SELECT *, "created_at"::text AS "keyset_key_0", "id"::text AS "keyset_key_1" FROM (SELECT id, created_at FROM events WHERE team_id = $1) AS keyset_page ORDER BY "created_at" ASC, "id" ASC LIMIT 3',
+        params: [7],
+      });
+
+      const second = await events.nextPage();
+      expect(second).toEqual({ rows: [{ id: 3n, created_at: new Date('2024-01-03T00:00:00Z') }], nextToken: null });
+      expect(events.done).toBe(true);
+      expect(requestOf(1).body).toEqual({
+        query: 'SELECT *, "created_at"::text AS "keyset_key_0", "id"::text AS "keyset_key_1" FROM (SELECT id, created_at FROM events WHERE team_id = $1) AS keyset_page WHERE ("created_at", "id") > ($2, $3) ORDER BY "created_at" ASC, "id" ASC LIMIT 3',
+        params: [7, '2024-01-02 00:00:00+00', '2'],
+      });
+
+      expect(await events.nextPage()).toEqual({ rows: [], nextToken: null });
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should resume from a token in another client', async () => {
+      mockFetch.mockResolvedValueOnce(jsonResponse(keysetResult([event(4), event(5), event(6)], ['id'])));
+      const first = await createClient().cursor({ text: 'SELECT id, created_at FROM events', values: [] }, {
+        pageSize: 2, orderBy: ['id'], direction: 'desc',
+      }).nextPage();
+
+      mockFetch.mockResolvedValueOnce(jsonResponse(keysetResult([], ['id'])));
+      const { sql, cursor } = createClient();
+      const page = await cursor(sql`SELECT id, created_at FROM events`, { pageSize: 2, orderBy: ['id'], direction: 'desc', after: first.nextToken }).nextPage();
+
+      expect(page).toEqual({ rows: [], nextToken: null });
+      expect(requestOf(1).body.query).toContain('WHERE ("id") < ($1) ORDER BY "id" DESC LIMIT 3');
+      expect(requestOf(1).body.params).toEqual(['5']);
+
+      // Tokens only fit the ordering they were issued for
+      expect(() => cursor(sql`SELECT id FROM events`, { pageSize: 2, orderBy: ['id'], after: first.nextToken })).toThrow(PgError);
+      expect(() => cursor(sql`SELECT id FROM events`, { pageSize: 2, after: 'not-a-token' })).toThrow('Invalid cursor token.');
+    });
+
+    it('should continue after sort keys as stored, with microseconds', async () => {
+      const rows = [['1', '2024-01-15 08:30:05.123456+00'], ['2', '2024-01-15 08:30:05.123457+00']];
+      mockFetch
+        .mockResolvedValueOnce(jsonResponse(keysetResult(rows, ['created_at'])))
+        .mockResolvedValueOnce(jsonResponse(keysetResult([], ['created_at'])));
+      const { sql, cursor } = createClient();
+
+      const events = cursor(sql`SELECT id, created_at FROM events`, { pageSize: 1, orderBy: ['created_at'] });
+      const first = await events.nextPage();
+      // The parsed row has millisecond precision, its key does not lose any
+      expect(first.rows).toEqual([{ id: 1n, created_at: new Date('2024-01-15T08:30:05.123Z') }]);
+      await events.nextPage();
+      expect(requestOf(1).body.params).toEqual(['2024-01-15 08:30:05.123456+00']);
+    });
+
+    it('should reject NULL sort keys', async () => {
+      mockFetch.mockResolvedValueOnce(jsonResponse(keysetResult([event(1), ['2', null as unknown as string]], ['created_at'])));
+      const { sql, cursor } = createClient();
+      await expect(cursor(sql`SELECT id, created_at FROM events`, { pageSize: 1, orderBy: ['created_at'] }).nextPage())
+        .rejects.toThrow('Keyset column "created_at" is NULL in a row; keyset pagination needs sort columns without NULLs.');
+      expect(() => cursor(sql`SELECT 1`, { pageSize: 0, orderBy: ['id'] })).toThrow('pageSize');
+    });
+  });
+
+  describe('DECLARE CURSOR pagination', () => {
+    const respond = (fetchResults: string[][][]) => {
+      mockFetch.mockImplementation(async (url: string, init: RequestInit) => {
+        const path = new URL(url).pathname;
+        if (path === '/transaction/begin') return jsonResponse({ transactionId: 'tx-1' });
+        if (path !== '/query') return jsonResponse({ success: true });
+        const { query } = JSON.parse(init.body as string);
+        return jsonResponse(query.startsWith('FETCH') ? eventsResult(fetchResults.shift()!) : eventsResult([]));
+      });
+    };
+
+    it('should fetch pages from a cursor in an interactive transaction', async () => {
+      respond([[event(1), event(2)], [event(3)]]);
+      const { sql, cursor } = createClient('session-a');
+
+      const events = cursor(sql`SELECT id, created_at FROM events WHERE id > ${0}`, { pageSize: 2 });
+      const first = await events.nextPage();
+      expect(first.rows.map(row => row.id)).toEqual([1n, 2n]);
+      expect(first.nextToken).toEqual(expect.any(String));
+
+      const cursorName = requestOf(1).body.query.match(/^DECLARE (cursor_\w+) NO SCROLL CURSOR FOR /)[1];
+      expect(requestOf(1)).toMatchObject({
+        path: '/query',
+        headers: { 'X-Transaction-ID': 'tx-1', 'X-Session-ID': 'session-a' },
+        body: { query: `DECLARE ${cursorName} NO SCROLL CURSOR FOR SELECT id, created_at FROM events WHERE id > $1`, params: [0] },
+      });
+      expect(requestOf(2).body.query).toBe(`FETCH 2 FROM ${cursorName}`);
+
+      // A short page ends the cursor and commits its transaction
+      expect(await events.nextPage()).toMatchObject({ nextToken: null });
+      expect(requestOf(4)).toMatchObject({ path: '/transaction/commit', headers: { 'X-Transaction-ID': 'tx-1' } });
+    });
+
+    it('should resume on the session that holds the cursor', async () => {
+      respond([[event(1)], []]);
+      const first = await createClient('session-a').cursor({ text: 'SELECT id, created_at FROM events', values: [] }, { pageSize: 1 }).nextPage();
+
+      const { sql, cursor } = createClient('session-b');
+      const page = await cursor(sql`SELECT id, created_at FROM events`, { pageSize: 1, after: first.nextToken }).nextPage();
+      expect(page).toEqual({ rows: [], nextToken: null });
+      // No new transaction or cursor; the FETCH and the commit go to the original session
+      expect(requestOf(3)).toMatchObject({ path: '/query', headers: { 'X-Session-ID': 'session-a', 'X-Transaction-ID': 'tx-1' } });
+      expect(requestOf(3).body.query).toMatch(/^FETCH 1 FROM cursor_/);
+      expect(requestOf(4)).toMatchObject({ path: '/transaction/commit', headers: { 'X-Session-ID': 'session-a' } });
+    });
+
+    it('should roll back when iteration stops early', async () => {
+      respond([[event(1)], [event(2)]]);
+      const { sql, cursor } = createClient();
+
+      for await (const page of cursor(sql`SELECT id, created_at FROM events`, { pageSize: 1 })) {
+        expect(page.rows).toHaveLength(1);
+        break;
+      }
+      expect(requestOf(mockFetch.mock.calls.length - 1)).toMatchObject({ path: '/transaction/rollback', headers: { 'X-Transaction-ID': 'tx-1' } });
+    });
+  });
+});
@@ -0,0 +1,100 @@
+import { PgError } from './errors';
+import type { CursorOptions, ParameterizedQuery, PgField } from './types';
+
+// Where a paginated query continues: after the sort key of the last row (keyset), or at the
+// position of a cursor declared in an open interactive transaction (declare)
+export type CursorPosition =
+  | { strategy: 'keyset'; orderBy: string[]; direction: 'asc' | 'desc'; after: unknown[] }
+  | { strategy: 'declare'; sessionId: string; transactionId: string; cursorName: string };
+
+// Tokens are base64url-encoded JSON: opaque to API clients, but not signed, so a keyset token
+// carries nothing but sort key values that are sent as query parameters
+export function encodeCursorToken(position: CursorPosition): string {
+  const bytes = new TextEncoder().encode(JSON.stringify(position));
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+export function decodeCursorToken(token: string): CursorPosition {
+  let position: any;
+  try {
+    const binary = atob(token.replace(/-/g, '+').replace(/_/g, '/'));
+    position = JSON.parse(new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0))));
+  } catch {
+    throw new PgError('Invalid cursor token.');
+  }
+  const valid = position?.strategy === 'keyset'
+    ? Array.isArray(position.orderBy) && Array.isArray(position.after)
+    : position?.strategy === 'declare' && typeof position.transactionId === 'string' && typeof position.cursorName === 'string';
+  if (!valid) {
+    throw new PgError('Invalid cursor token.');
+  }
+  return position;
+}
+
+// The keyset columns and direction of the options; a token must have been issued for the same ones
+export function keysetOrder(options: CursorOptions): { orderBy: string[]; direction: 'asc' | 'desc' } {
+  const orderBy = options.orderBy ?? [];
+  if (orderBy.length === 0 || orderBy.some(column => typeof column !== 'string' || column === '')) {
+    throw new PgError('Keyset pagination needs orderBy with one or more column names.');
+  }
+  return { orderBy, direction: options.direction ?? 'asc' };
+}
+
+const quoteIdentifier = (name: string) => `"${name.replace(/"/g, '""')}"`;
+
+// Columns appended to each page with the sort key as text. Tokens keep that text rather than
+// the parsed values, so keys compare exactly as stored (a Date would cut timestamps to
+// milliseconds); PostgreSQL casts the text parameters back to the columns' types.
+const keyColumn = (index: number) => `keyset_key_${index}`;
+
+// One page of the query: its rows sorted by the keyset columns, after the given key if any.
+// One row more than the page size is fetched to tell whether another page follows.
+export function buildKeysetQuery(
+  inner: ParameterizedQuery,
+  orderBy: string[],
+  direction: 'asc' | 'desc',
+  pageSize: number,
+  after: unknown[] | null
+): ParameterizedQuery {
+  const columns = orderBy.map(quoteIdentifier);
+  const keys = columns.map((column, i) => `${column}::text AS ${quoteIdentifier(keyColumn(i))}`);
+  let query = `SELECT *, ${keys.join(', ')} FROM (${inner.query}) AS keyset_page`;
+  const params = [...inner.params];
+  if (after) {
+    const placeholders = after.map((_, i) => `$${inner.params.length + i + 1}`);
+    query += ` WHERE (${columns.join(', ')}) ${direction === 'asc' ? '>' : '<'} (${placeholders.join(', ')})`;
+    params.push(...after);
+  }
+  const order = direction === 'asc' ? 'ASC' : 'DESC';
+  query += ` ORDER BY ${columns.map(column => `${column} ${order}`).join(', ')} LIMIT ${pageSize + 1}`;
+  return { query, params };
+}
+
+// Removes the sort key columns added by buildKeysetQuery from a page, whose rows are objects or,
+// in arrayMode, arrays, and returns the key of each row. A NULL key is rejected: the row
+// comparison of the next page would be NULL and silently skip the rows after it.
+export function takeKeysetColumns(
+  result: { rows: any[]; fields: PgField[] },
+  orderBy: string[]
+): { rows: any[]; fields: PgField[]; keys: string[][] } {
+  const first = result.fields.length - orderBy.length;
+  if (first < 0 || orderBy.some((_, i) => result.fields[first + i]?.name !== keyColumn(i))) {
+    throw new PgError('Invalid keyset page: the sort key columns are missing from the result.');
+  }
+  const keys = result.rows.map(row => orderBy.map((column, i) => {
+    const key = Array.isArray(row) ? row[first + i] : row[keyColumn(i)];
+    if (key === null || key === undefined) {
+      throw new PgError(`Keyset column "${column}" is NULL in a row; keyset pagination needs sort columns without NULLs.`);
+    }
+    return String(key);
+  }));
+  const rows = result.rows.map((row) => {
+    if (Array.isArray(row)) return row.slice(0, first);
+    const rest = { ...row };
+    orderBy.forEach((_, i) => delete rest[keyColumn(i)]);
+    return rest;
+  });
+  return { rows, fields: result.fields.slice(0, first), keys };
+}
@@ -0,0 +1,119 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  createPgHttpClient,
+  LogLevel,
+  PgError,
+  ProxyConnectionError,
+  ProxyAuthError,
+  QueryTimeoutError,
+  TransactionError,
+  DatabaseError,
+  getSqlState
+} from './index';
+import { parsePostgresError } from './errors';
+
+const mockFetch = vi.fn();
+
+const jsonResponse = (body: any, status = 200, headers: Record<string, string> = {}) => ({
+  ok: status >= 200 && status < 300,
+  status,
+  statusText: status === 200 ? 'OK' : 'Error',
+  headers: new Headers(headers),
+  json: async () => body,
+}) as unknown as Response;
+
+describe('Error classification', () => {
+  it('should pick the error class from the status and SQLSTATE', () => {
+    expect(parsePostgresError({ error: 'Unauthorized' }, { status: 401 })).toBeInstanceOf(ProxyAuthError);
+    expect(parsePostgresError({ message: 'canceling statement due to statement timeout', code: '57014' }, { status: 400 }))
+      .toBeInstanceOf(QueryTimeoutError);
+    expect(parsePostgresError({ error: 'Gateway Timeout' }, { status: 504 })).toBeInstanceOf(QueryTimeoutError);
+    expect(parsePostgresError({ message: 'not found', code: '25P01' }, { status: 404 })).toBeInstanceOf(TransactionError);
+    expect(parsePostgresError({ message: 'duplicate key', code: '23505' }, { status: 400 })).toBeInstanceOf(DatabaseError);
+    expect(parsePostgresError({ error: 'Bad Gateway' }, { status: 502 })).toBeInstanceOf(ProxyConnectionError);
+    expect(parsePostgresError({ error: 'Query is required' }, { status: 400 }).name).toBe('PgError');
+  });
+
+  it('should keep every error a PgError', () => {
+    const error = parsePostgresError({ message: 'duplicate key', code: '23505' }, { status: 400 });
+    expect(error).toBeInstanceOf(PgError);
+    expect(error).toBeInstanceOf(Error);
+    expect(error.name).toBe('DatabaseError');
+    expect(error.stack).toContain('DatabaseError');
+  });
+
+  it('should describe SQLSTATEs', () => {
+    const error = parsePostgresError({ message: 'duplicate key', code: '23505' });
+    expect(error.isUniqueViolation()).toBe(true);
+    expect(error.sqlState).toEqual({
+      code: '23505',
+      classCode: '23',
+      class: 'integrity_constraint_violation',
+      condition: 'unique_violation',
+    });
+    expect(getSqlState('40P01').class).toBe('transaction_rollback');
+    expect(getSqlState('23000').condition).toBe('integrity_constraint_violation');
+    expect(getSqlState('ZZ999')).toMatchObject({ class: 'unknown', condition: 'unknown' });
+    expect(parsePostgresError({ error: 'Unauthorized' }).sqlState).toBeUndefined();
+  });
+});
+
+describe('Errors from the client', () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+  });
+
+  const client = createPgHttpClient({
+    proxyUrl: 'https://test-proxy.com',
+    fetch: mockFetch as unknown as typeof fetch,
+    logger: { level: LogLevel.None },
+  });
+
+  it('should attach the HTTP status and request id', async () => {
+    mockFetch.mockResolvedValueOnce(jsonResponse(
+      { message: 'duplicate key value violates unique constraint "users_email_key"', code: '23505', constraint: 'users_email_key' },
+      400,
+      { 'X-Request-ID': 'req-42' }
+    ));
+
+    const error = await client.query('INSERT INTO users (email) VALUES ($1)', ['a@b.c']).catch(e => e);
+    expect(error).toBeInstanceOf(DatabaseError);
+    expect(error).toMatchObject({ status: 400, requestId: 'req-42', constraint: 'users_email_key' });
+    expect(error.isUniqueViolation()).toBe(true);
+  });
+
+  it('should report which query of a batch transaction failed', async () => {
+    mockFetch.mockResolvedValueOnce(jsonResponse({ message: 'division by zero', code: '22012', queryIndex: 1 }, 400));
+
+    const error = await client.transaction([
+      { text: 'SELECT 1', values: [] },
+      { text: 'SELECT 1/0', values: [] },
+    ]).catch(e => e);
+    expect(error).toBeInstanceOf(DatabaseError);
+    expect(error.queryIndex).toBe(1);
+    expect(error.sqlState.class).toBe('data_exception');
+  });
+
+  it('should raise ProxyAuthError and ProxyConnectionError', async () => {
+    mockFetch.mockResolvedValueOnce(jsonResponse({ error: 'Unauthorized' }, 401));
+    await expect(client.execute('SELECT 1')).rejects.toMatchObject({ name: 'ProxyAuthError', status: 401, message: 'Unauthorized' });
+
+    const networkError = new TypeError('fetch failed');
+    mockFetch.mockRejectedValueOnce(networkError);
+    const error = await client.execute('SELECT 1').catch(e => e);
+    expect(error).toBeInstanceOf(ProxyConnectionError);
+    expect(error.sourceError).toBe(networkError);
+    expect(error.status).toBeUndefined();
+  });
+
+  it('should raise TransactionError for transaction control failures', async () => {
+    mockFetch.mockResolvedValueOnce(jsonResponse({}));
+    await expect(client.transaction(async () => 'done')).rejects.toBeInstanceOf(TransactionError);
+
+    // The proxy rolled the transaction back after its idle timeout
+    mockFetch
+      .mockResolvedValueOnce(jsonResponse({ transactionId: 'tx-9' }))
+      .mockResolvedValueOnce(jsonResponse({ message: 'Transaction tx-9 not found or has expired', code: '25P01' }, 404));
+    await expect(client.transaction(async () => 'done')).rejects.toBeInstanceOf(TransactionError);
+  });
+});
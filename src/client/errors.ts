@@ -1,6 +1,9 @@
+import { getSqlState, isSqlStateCode } from './sqlstate';
+import type { SqlState } from './sqlstate';
+
 // Custom PostgreSQL Error Class following Neon's pattern
 export class PgError extends Error {
-  override name = 'PgError' as const;
+  override name: string = 'PgError';
 
   // PostgreSQL specific error fields
   severity?: string;
@@ -20,6 +23,13 @@ export class PgError extends Error {
   line?: string;
   routine?: string;
 
+  // Request context
+  status?: number; // HTTP status of the proxy response, if one was received
+  requestId?: string; // X-Request-ID of the proxy response, for matching proxy logs
+  queryIndex?: number; // Index of the failing query within a batch transaction
+  attempts?: number; // Runs of the failed transaction, including retryOnConflict re-runs
+  notExecuted?: boolean; // The proxy answered without sending the statement to the database
+
   // Original error if wrapped
   sourceError?: Error;
 
@@ -27,9 +37,68 @@ export class PgError extends Error {
     super(message);
 
     if ('captureStackTrace' in Error && typeof Error.captureStackTrace === 'function') {
-      Error.captureStackTrace(this, PgError);
+      Error.captureStackTrace(this, new.target);
     }
   }
+
+  // Class and condition of the SQLSTATE in `code`, if there is one
+  get sqlState(): SqlState | undefined {
+    return isSqlStateCode(this.code) ? getSqlState(this.code) : undefined;
+  }
+
+  isUniqueViolation(): boolean {
+    return this.code === '23505';
+  }
+
+  isForeignKeyViolation(): boolean {
+    return this.code === '23503';
+  }
+
+  isNotNullViolation(): boolean {
+    return this.code === '23502';
+  }
+
+  isCheckViolation(): boolean {
+    return this.code === '23514';
+  }
+
+  isSerializationFailure(): boolean {
+    return this.code === '40001';
+  }
+
+  isDeadlock(): boolean {
+    return this.code === '40P01';
+  }
+}
+
+// The proxy could not be reached, or answered with a server error instead of a result
+export class ProxyConnectionError extends PgError {
+  override name = 'ProxyConnectionError';
+}
+
+// The proxy rejected the credentials (HTTP 401 or 403)
+export class ProxyAuthError extends PgError {
+  override name = 'ProxyAuthError';
+}
+
+// The query was canceled for taking too long (statement_timeout, a gateway timeout or a client timeout)
+export class QueryTimeoutError extends PgError {
+  override name = 'QueryTimeoutError';
+}
+
+// The caller aborted the request through its AbortSignal
+export class QueryCanceledError extends PgError {
+  override name = 'QueryCanceledError';
+}
+
+// An interactive transaction could not be begun, committed or rolled back, or is no longer usable
+export class TransactionError extends PgError {
+  override name = 'TransactionError';
+}
+
+// PostgreSQL raised an error while executing the query; `code` holds its SQLSTATE
+export class DatabaseError extends PgError {
+  override name = 'DatabaseError';
 }
 
 // Standard PostgreSQL error fields for parsing from server responses
@@ -53,9 +122,29 @@ export const PG_ERROR_FIELDS = [
 ] as const;
 
 
+// Context of a failed proxy request, used to pick the error class
+export interface ErrorContext {
+  status?: number;
+  requestId?: string;
+  transaction?: boolean; // The request was a begin/commit/rollback of an interactive transaction
+}
+
+function selectErrorClass(err: any, context: ErrorContext): typeof PgError {
+  const { status } = context;
+  if (status === 401 || status === 403) return ProxyAuthError;
+  if (err.code === '57014' || status === 408 || status === 504) return QueryTimeoutError;
+  // The proxy answers 404 with no_active_sql_transaction for unknown or expired transactions
+  if (status === 404 && err.code === '25P01') return TransactionError;
+  if (isSqlStateCode(err.code)) return DatabaseError;
+  if (context.transaction) return TransactionError;
+  if (status !== undefined && status >= 500) return ProxyConnectionError;
+  return PgError;
+}
+
 // Helper function to handle PostgreSQL error parsing
-export function parsePostgresError(err: any): PgError {
-  const pgError = new PgError(err.message || 'Unknown PostgreSQL error');
+export function parsePostgresError(err: any, context: ErrorContext = {}): PgError {
+  const ErrorClass = selectErrorClass(err, context);
+  const pgError = new ErrorClass(err.message || err.error || 'Unknown PostgreSQL error');
 
   // Copy all PostgreSQL error fields if they exist
   for (const field of PG_ERROR_FIELDS) {
@@ -64,6 +153,15 @@ export function parsePostgresError(err: any): PgError {
     }
   }
 
+  pgError.status = context.status;
+  pgError.requestId = context.requestId;
+  if (typeof err.queryIndex === 'number') {
+    pgError.queryIndex = err.queryIndex;
+  }
+  if (err.notExecuted === true) {
+    pgError.notExecuted = true;
+  }
+
   // Store original error if available
   if (err instanceof Error) {
     pgError.sourceError = err;
@@ -0,0 +1,116 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createPgHttpClient, LogLevel, PgError } from './index';
+
+const mockFetch = vi.fn();
+
+const jsonResponse = (body: any) => ({
+  ok: true,
+  status: 200,
+  statusText: 'OK',
+  headers: new Headers(),
+  json: async () => body,
+}) as unknown as Response;
+
+const okResult = { command: 'SELECT', rowCount: 0, fields: [], rows: [] };
+
+describe('SQL fragments', () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+    mockFetch.mockResolvedValue(jsonResponse(okResult));
+  });
+
+  const { sql, transaction } = createPgHttpClient({
+    proxyUrl: 'https://test-proxy.com',
+    fetch: mockFetch as unknown as typeof fetch,
+    logger: { level: LogLevel.None },
+  });
+
+  it('should flatten nested queries and renumber their parameters', () => {
+    const active = sql`status = ${'active'} AND age > ${18}`;
+    const query = sql`SELECT * FROM users WHERE id > ${10} AND ${active} AND name <> ${'$1'}`;
+    expect(query.queryData).toEqual({
+      query: 'SELECT * FROM users WHERE id > $1 AND status = $2 AND age > $3 AND name <> $4',
+      params: [10, 'active', 18, '$1'],
+    });
+
+    // Deeper nesting, and plain-text queries with their own placeholders
+    const inner = sql('x = $1 AND y = \'$2\'', [5]);
+    expect(sql`SELECT ${sql`${1} + ${sql`${2} * ${inner}`}`}`.queryData).toEqual({
+      query: 'SELECT $1 + $2 * x = $3 AND y = \'$2\'',
+      params: [1, 2, 5],
+    });
+  });
+
+  it('should build dynamic WHERE clauses with join and empty', () => {
+    const where = (filters: { name?: string; minAge?: number }) => {
+      const conditions = [];
+      if (filters.name) conditions.push(sql`name = ${filters.name}`);
+      if (filters.minAge !== undefined) conditions.push(sql`age >= ${filters.minAge}`);
+      return conditions.length ? sql`WHERE ${sql.join(conditions, ' AND ')}` : sql.empty;
+    };
+
+    expect(sql`SELECT * FROM users ${where({ name: 'Ada', minAge: 30 })}`.queryData).toEqual({
+      query: 'SELECT * FROM users WHERE name = $1 AND age >= $2',
+      params: ['Ada', 30],
+    });
+    expect(sql`SELECT * FROM users ${where({})}`.queryData).toEqual({ query: 'SELECT * FROM users ', params: [] });
+
+    // Values become parameters; a fragment can serve as the separator
+    expect(sql`SELECT ${sql.join([1, 2, 3])}`.queryData.query).toBe('SELECT $1, $2, $3');
+    expect(sql`${sql.join([sql`a = ${1}`, sql`b = ${2}`], sql` OR `)}`.queryData)
+      .toEqual({ query: 'a = $1 OR b = $2', params: [1, 2] });
+  });
+
+  it('should quote identifiers', () => {
+    expect(sql`SELECT * FROM ${sql.identifier('public', 'users')}`.queryData.query).toBe('SELECT * FROM "public"."users"');
+    expect(sql`SELECT ${sql.identifier('weird"name')}`.queryData.query).toBe('SELECT "weird""name"');
+    expect(() => sql.identifier('')).toThrow(PgError);
+  });
+
+  it('should build multi-row VALUES lists', () => {
+    const rows = [{ name: 'Ada', email: 'ada@example.com' }, { email: 'alan@example.com', name: 'Alan' }];
+    expect(sql`INSERT INTO users (name, email) ${sql.values(rows, ['name', 'email'])}`.queryData).toEqual({
+      query: 'INSERT INTO users (name, email) VALUES ($1, $2), ($3, $4)',
+      params: ['Ada', 'ada@example.com', 'Alan', 'alan@example.com'],
+    });
+    expect(sql`${sql.values([[1, 'a'], [2, 'b']])}`.queryData.query).toBe('VALUES ($1, $2), ($3, $4)');
+    // Missing columns are NULL
+    expect(sql`${sql.values([{ a: 1, b: 2 }, { a: 3 }])}`.queryData.params).toEqual([1, 2, 3, null]);
+
+    expect(() => sql.values([])).toThrow('sql.values() needs at least one row.');
+    expect(() => sql.values([[1, 2], [3]])).toThrow(PgError);
+  });
+
+  it('should build IN lists', () => {
+    expect(sql`SELECT * FROM users WHERE id IN ${sql.in([1, 2, 3])}`.queryData).toEqual({
+      query: 'SELECT * FROM users WHERE id IN ($1, $2, $3)',
+      params: [1, 2, 3],
+    });
+    expect(sql`SELECT * FROM users WHERE id NOT IN ${sql.in([4])}`.queryData).toEqual({
+      query: 'SELECT * FROM users WHERE id NOT IN ($1)',
+      params: [4],
+    });
+  });
+
+  it('should reject empty IN lists', () => {
+    // (NULL) would be right for IN, but NOT IN (NULL) matches no rows instead of all of them
+    expect(() => sql`SELECT * FROM users WHERE id IN ${sql.in([])}`).toThrow(PgError);
+    expect(() => sql`SELECT * FROM users WHERE id NOT IN ${sql.in([])}`).toThrow('sql.in() needs at least one value');
+  });
+
+  it('should send composed queries as one statement', async () => {
+    const ids = sql.in([1, 2]);
+    await sql`DELETE FROM ${sql.identifier('sessions')} WHERE user_id IN ${ids} AND expires < ${'now'}`;
+    expect(JSON.parse(mockFetch.mock.calls[0]![1].body)).toEqual({
+      query: 'DELETE FROM "sessions" WHERE user_id IN ($1, $2) AND expires < $3',
+      params: [1, 2, 'now'],
+    });
+
+    mockFetch.mockResolvedValueOnce(jsonResponse({ results: [okResult] }));
+    await transaction([sql`UPDATE users SET active = false WHERE id IN ${ids}`]);
+    expect(JSON.parse(mockFetch.mock.calls[1]![1].body).queries[0]).toEqual({
+      query: 'UPDATE users SET active = false WHERE id IN ($1, $2)',
+      params: [1, 2],
+    });
+  });
+});
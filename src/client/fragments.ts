@@ -0,0 +1,78 @@
+import { PgError } from './errors';
+
+/**
+ * Reusable pieces of SQL for composing queries with the sql tag. A fragment keeps its text and
+ * values apart like a template; nested into a query, its values become that query's parameters.
+ */
+export class SqlFragment {
+  constructor(
+    public readonly strings: readonly string[],
+    public readonly values: readonly unknown[] = []
+  ) {}
+}
+
+export const EMPTY_FRAGMENT = new SqlFragment(['']);
+
+// Items separated by raw SQL text, between prefix and suffix
+function separated(items: readonly unknown[], separator: string, prefix = '', suffix = ''): SqlFragment {
+  if (items.length === 0) return new SqlFragment([prefix + suffix]);
+  const strings = [prefix, ...Array<string>(items.length - 1).fill(separator), suffix];
+  return new SqlFragment(strings, items);
+}
+
+// Joins fragments or values; a string separator is raw SQL text, so it must not come from user input
+export function join(items: readonly unknown[], separator: string | object = ', '): SqlFragment {
+  if (typeof separator === 'string') return separated(items, separator);
+  const values = items.flatMap((item, i) => (i === 0 ? [item] : [separator, item]));
+  return new SqlFragment(Array<string>(values.length + 1).fill(''), values);
+}
+
+// Double-quoted identifier such as "schema"."table"; embedded quotes are doubled
+export function identifier(...names: string[]): SqlFragment {
+  if (names.length === 0 || names.some(name => typeof name !== 'string' || name === '')) {
+    throw new PgError('sql.identifier() needs one or more non-empty names.');
+  }
+  return new SqlFragment([names.map(name => `"${name.replace(/"/g, '""')}"`).join('.')]);
+}
+
+// VALUES list for multi-row inserts; rows are arrays, or objects read in the order of columns
+// (by default the keys of the first row)
+export function values(
+  rows: readonly (readonly unknown[] | Record<string, unknown>)[],
+  columns?: readonly string[]
+): SqlFragment {
+  const first = rows[0];
+  if (first === undefined) {
+    throw new PgError('sql.values() needs at least one row.');
+  }
+  const keys = columns ?? (Array.isArray(first) ? [] : Object.keys(first));
+  const width = Array.isArray(first) ? first.length : keys.length;
+  const tuples = rows.map((row) => {
+    const cells = Array.isArray(row) ? row : keys.map(key => (row as Record<string, unknown>)[key] ?? null);
+    if (cells.length !== width) {
+      throw new PgError('All rows passed to sql.values() must have the same number of columns.');
+    }
+    return separated(cells, ', ', '(', ')');
+  });
+  return separated(tuples, ', ', 'VALUES ');
+}
+
+// Parenthesized list for IN or NOT IN. An empty list has no SQL spelling that is right for both
+// (x NOT IN (NULL) matches no rows instead of all), so it is rejected.
+export function inList(items: readonly unknown[]): SqlFragment {
+  if (items.length === 0) {
+    throw new PgError('sql.in() needs at least one value; check for an empty list before building the condition.');
+  }
+  return separated(items, ', ', '(', ')');
+}
+
+// Helpers attached to the sql tag
+export const sqlHelpers = {
+  join,
+  identifier,
+  values,
+  in: inList,
+  empty: EMPTY_FRAGMENT,
+};
+
+export type SqlHelpers = typeof sqlHelpers;
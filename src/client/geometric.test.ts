@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { TypeParser } from './parsing';
+import { PgTypeId } from './pg-types';
+import { TypeSerializer, typed } from './serialization';
+
+describe('Geometric types', () => {
+  const parser = new TypeParser();
+  const serializer = new TypeSerializer();
+  const parse = (typeId: number, text: string) => parser.getTypeParser(typeId)(text);
+
+  it('should parse points, lines and segments', () => {
+    expect(parse(PgTypeId.POINT, '(1.5,-2)')).toEqual({ x: 1.5, y: -2 });
+    expect(parse(PgTypeId.POINT, '(Infinity,1e+20)')).toEqual({ x: Infinity, y: 1e20 });
+    expect(parse(PgTypeId.LINE, '{1,-1,0}')).toEqual({ a: 1, b: -1, c: 0 });
+    expect(parse(PgTypeId.LSEG, '[(0,0),(3,4)]')).toEqual({ start: { x: 0, y: 0 }, end: { x: 3, y: 4 } });
+  });
+
+  it('should parse boxes, paths, polygons and circles', () => {
+    expect(parse(PgTypeId.BOX, '(3,4),(1,2)')).toEqual({ upperRight: { x: 3, y: 4 }, lowerLeft: { x: 1, y: 2 } });
+    expect(parse(PgTypeId.PATH, '[(0,0),(1,1)]')).toEqual({ closed: false, points: [{ x: 0, y: 0 }, { x: 1, y: 1 }] });
+    expect(parse(PgTypeId.PATH, '((0,0),(1,1))').closed).toBe(true);
+    expect(parse(PgTypeId.POLYGON, '((0,0),(1,0),(0,1))')).toEqual([{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 0, y: 1 }]);
+    expect(parse(PgTypeId.CIRCLE, '<(1,2),3>')).toEqual({ x: 1, y: 2, radius: 3 });
+  });
+
+  it('should parse arrays, including the ; delimiter of box[]', () => {
+    expect(parse(PgTypeId.POINT_ARRAY, '{"(1,2)","(3,4)"}')).toEqual([{ x: 1, y: 2 }, { x: 3, y: 4 }]);
+    expect(parse(PgTypeId.BOX_ARRAY, '{(3,4),(1,2);(1,1),(0,0)}')).toEqual([
+      { upperRight: { x: 3, y: 4 }, lowerLeft: { x: 1, y: 2 } },
+      { upperRight: { x: 1, y: 1 }, lowerLeft: { x: 0, y: 0 } },
+    ]);
+  });
+
+  it('should round-trip hinted parameters', () => {
+    const literals: [number, string][] = [
+      [PgTypeId.POINT, '(1.5,-2)'],
+      [PgTypeId.LINE, '{1,-1,0}'],
+      [PgTypeId.LSEG, '[(0,0),(3,4)]'],
+      [PgTypeId.BOX, '(3,4),(1,2)'],
+      [PgTypeId.PATH, '[(0,0),(1,1)]'],
+      [PgTypeId.PATH, '((0,0),(1,1))'],
+      [PgTypeId.POLYGON, '((0,0),(1,0),(0,1))'],
+      [PgTypeId.CIRCLE, '<(1,2),3>'],
+    ];
+    for (const [typeId, literal] of literals) {
+      expect(serializer.serialize(typed(parse(typeId, literal), typeId))).toBe(literal);
+    }
+  });
+
+  it('should serialize arrays and pass literal strings through', () => {
+    expect(serializer.serialize(typed([{ x: 1, y: 2 }], PgTypeId.POINT_ARRAY))).toBe('{"(1,2)"}');
+    expect(serializer.serialize(typed('(1,2)', PgTypeId.POINT))).toBe('(1,2)');
+  });
+});
+
+describe('Network types', () => {
+  const parser = new TypeParser();
+  const serializer = new TypeSerializer();
+
+  it('should parse inet and cidr into address and prefix', () => {
+    expect(parser.getTypeParser(PgTypeId.INET)('192.168.0.1')).toEqual({ address: '192.168.0.1', prefix: 32 });
+    expect(parser.getTypeParser(PgTypeId.INET)('::1')).toEqual({ address: '::1', prefix: 128 });
+    expect(parser.getTypeParser(PgTypeId.CIDR)('10.0.0.0/8')).toEqual({ address: '10.0.0.0', prefix: 8 });
+    expect(parser.getTypeParser(PgTypeId.CIDR_ARRAY)('{10.0.0.0/8,2001:db8::/32}')).toEqual([
+      { address: '10.0.0.0', prefix: 8 },
+      { address: '2001:db8::', prefix: 32 },
+    ]);
+  });
+
+  it('should keep MAC addresses as strings', () => {
+    expect(parser.getTypeParser(PgTypeId.MACADDR)('08:00:2b:01:02:03')).toBe('08:00:2b:01:02:03');
+    expect(parser.getTypeParser(PgTypeId.MACADDR8_ARRAY)('{08:00:2b:01:02:03:04:05}')).toEqual(['08:00:2b:01:02:03:04:05']);
+  });
+
+  it('should serialize hinted addresses', () => {
+    expect(serializer.serialize(typed({ address: '10.0.0.0', prefix: 8 }, PgTypeId.CIDR))).toBe('10.0.0.0/8');
+    expect(serializer.serialize(typed([{ address: '::1', prefix: 128 }], PgTypeId.INET_ARRAY))).toBe('{"::1/128"}');
+    expect(serializer.serialize(typed('10.1.2.3', PgTypeId.INET))).toBe('10.1.2.3');
+  });
+});
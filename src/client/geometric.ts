@@ -0,0 +1,123 @@
+import { PgTypeId } from './pg-types';
+
+/**
+ * Geometric types: parsers for PostgreSQL's text output and formatters for parameters
+ */
+
+export interface PgPoint {
+  x: number;
+  y: number;
+}
+
+// Infinite line ax + by + c = 0
+export interface PgLine {
+  a: number;
+  b: number;
+  c: number;
+}
+
+export interface PgLineSegment {
+  start: PgPoint;
+  end: PgPoint;
+}
+
+// PostgreSQL normalizes boxes so the first corner is the upper right one
+export interface PgBox {
+  upperRight: PgPoint;
+  lowerLeft: PgPoint;
+}
+
+export interface PgPath {
+  closed: boolean;
+  points: PgPoint[];
+}
+
+export type PgPolygon = PgPoint[];
+
+export interface PgCircle {
+  x: number;
+  y: number;
+  radius: number;
+}
+
+// All numbers of a geometric literal in order; float output may include Infinity and NaN
+function numbers(text: string): number[] {
+  return text
+    .replace(/[()[\]<>{}]/g, ' ')
+    .split(/[\s,]+/)
+    .filter(Boolean)
+    .map(Number);
+}
+
+function points(values: number[]): PgPoint[] {
+  const result: PgPoint[] = [];
+  for (let i = 0; i + 1 < values.length; i += 2) {
+    result.push({ x: values[i]!, y: values[i + 1]! });
+  }
+  return result;
+}
+
+// (1,2)
+export function parsePoint(text: string): PgPoint {
+  const [x = NaN, y = NaN] = numbers(text);
+  return { x, y };
+}
+
+// {1,2,3}
+export function parseLine(text: string): PgLine {
+  const [a = NaN, b = NaN, c = NaN] = numbers(text);
+  return { a, b, c };
+}
+
+// [(1,2),(3,4)]
+export function parseLineSegment(text: string): PgLineSegment {
+  const [start, end] = points(numbers(text));
+  return { start: start ?? { x: NaN, y: NaN }, end: end ?? { x: NaN, y: NaN } };
+}
+
+// (3,4),(1,2)
+export function parseBox(text: string): PgBox {
+  const [upperRight, lowerLeft] = points(numbers(text));
+  return { upperRight: upperRight ?? { x: NaN, y: NaN }, lowerLeft: lowerLeft ?? { x: NaN, y: NaN } };
+}
+
+// ((1,2),(3,4)) is closed, [(1,2),(3,4)] is open
+export function parsePath(text: string): PgPath {
+  return { closed: text.trim()[0] === '(', points: points(numbers(text)) };
+}
+
+// ((1,2),(3,4),(5,6))
+export function parsePolygon(text: string): PgPolygon {
+  return points(numbers(text));
+}
+
+// <(1,2),3>
+export function parseCircle(text: string): PgCircle {
+  const [x = NaN, y = NaN, radius = NaN] = numbers(text);
+  return { x, y, radius };
+}
+
+const formatPoint = (point: PgPoint) => `(${point.x},${point.y})`;
+const formatPoints = (list: PgPoint[]) => list.map(formatPoint).join(',');
+
+// Default parsers, registered by TypeParser
+export const GEOMETRIC_PARSERS: Record<number, (value: string) => any> = {
+  [PgTypeId.POINT]: parsePoint,
+  [PgTypeId.LINE]: parseLine,
+  [PgTypeId.LSEG]: parseLineSegment,
+  [PgTypeId.BOX]: parseBox,
+  [PgTypeId.PATH]: parsePath,
+  [PgTypeId.POLYGON]: parsePolygon,
+  [PgTypeId.CIRCLE]: parseCircle,
+};
+
+// Parameter formatters for values hinted with these types, used by TypeSerializer
+export const GEOMETRIC_FORMATTERS: Record<number, (value: any) => string> = {
+  [PgTypeId.POINT]: formatPoint,
+  [PgTypeId.LINE]: (line: PgLine) => `{${line.a},${line.b},${line.c}}`,
+  [PgTypeId.LSEG]: (segment: PgLineSegment) => `[${formatPoint(segment.start)},${formatPoint(segment.end)}]`,
+  [PgTypeId.BOX]: (box: PgBox) => `${formatPoint(box.upperRight)},${formatPoint(box.lowerLeft)}`,
+  [PgTypeId.PATH]: (path: PgPath) => path.closed ? `(${formatPoints(path.points)})` : `[${formatPoints(path.points)}]`,
+  [PgTypeId.POLYGON]: (polygon: PgPolygon) => `(${formatPoints(polygon)})`,
+  [PgTypeId.CIRCLE]: (circle: PgCircle) => `<(${circle.x},${circle.y}),${circle.radius}>`,
+};
@@ -9,33 +9,151 @@ import type {
   PgQueryResult,
   ParameterizedQuery,
   TransactionQuery,
-  SQLTemplateTag
+  TransactionOptions,
+  TransactionResults,
+  BatchOptions,
+  BatchResult,
+  StreamOptions,
+  CursorOptions,
+  CursorPage,
+  PgCursor,
+  PgNotification,
+  NotificationHandler,
+  ListenOptions,
+  PgTransactionClient,
+  SQLTemplateTag,
+  QueryOptions,
+  QueryParameters,
+  RetryCallOptions,
+  CallOptions,
+  TimeoutOptions,
+  PrepareOptions,
+  PreparedStatementStats
   // LogLevel removed from type-only import
 } from './types';
-import { PgError, parsePostgresError, PG_ERROR_FIELDS } from './errors';
+import {
+  PgError,
+  ProxyConnectionError,
+  QueryTimeoutError,
+  QueryCanceledError,
+  TransactionError,
+  parsePostgresError,
+  PG_ERROR_FIELDS
+} from './errors';
 import { TypeParser, processQueryResult } from './parsing';
 import { QueryPromise } from './query-promise'; // Import QueryPromise from its own file
+import { TypeSerializer } from './serialization';
+import { discoverTypes, registerDiscoveredTypes } from './type-discovery';
+import { createTokenSource } from './auth';
+import { createRequestSigner } from './signing';
+import { bindParameters } from './named-params';
+import { sqlHelpers } from './fragments';
+import { canPrepare, statementName } from './prepared';
+import { createCoalescer, resolveCoalesceOptions } from './coalesce';
+import { readNdjson, readServerSentEvents } from './streams';
+import type { ServerSentEvent } from './streams';
+import { buildKeysetQuery, decodeCursorToken, encodeCursorToken, keysetOrder, takeKeysetColumns } from './cursor';
+import {
+  canRetry,
+  getRetryDelay,
+  isConflictError,
+  isReadOnlyQuery,
+  resolveConflictRetryOptions,
+  resolveReconnectOptions,
+  resolveRetryOptions,
+  withRetry
+} from './retry';
+import type { RetryPlan } from './retry';
+import type { PgTypeDefinition } from './type-discovery';
 import {
   UnsafeRawSql,
-  encodeBuffersAsBytea,
   generateUUID,
   toParameterizedQuery
 } from './utils';
 
 // Re-export core types and classes for external use
-export { PgError } from './errors';
+export {
+  PgError,
+  ProxyConnectionError,
+  ProxyAuthError,
+  QueryTimeoutError,
+  QueryCanceledError,
+  TransactionError,
+  DatabaseError
+} from './errors';
+export { getSqlState, SQLSTATE_CLASSES, SQLSTATE_CONDITIONS } from './sqlstate';
+export { DEFAULT_RETRY_OPTIONS, DEFAULT_CONFLICT_RETRY_OPTIONS, isReadOnlyQuery } from './retry';
+export type { SqlState } from './sqlstate';
 export { UnsafeRawSql } from './utils';
+export { compileNamedParameters } from './named-params';
+export { SqlFragment } from './fragments';
 export { QueryPromise } from './query-promise';
+export type { RowOf } from './query-promise';
 export { TypeParser, PgTypeId } from './parsing';
+export type { TypeParserOptions } from './parsing';
+export { encodeBytea, decodeBytea } from './binary';
+export { PgInterval, parseInterval, parseDateTime } from './temporal';
+export { PgRange, parseRange, parseMultirange } from './range';
+export {
+  parsePoint,
+  parseLine,
+  parseLineSegment,
+  parseBox,
+  parsePath,
+  parsePolygon,
+  parseCircle
+} from './geometric';
+export type { PgPoint, PgLine, PgLineSegment, PgBox, PgPath, PgPolygon, PgCircle } from './geometric';
+export { parseInet } from './network';
+export type { PgInet } from './network';
+export { TypeSerializer, TypedValue, typed, formatDate, formatTimestamp } from './serialization';
+export type { RangeLike } from './serialization';
+export {
+  PG_TYPE_CATALOG,
+  getTypeInfo,
+  getTypeInfoByName,
+  isArrayType,
+  getElementTypeId,
+  getArrayTypeId
+} from './pg-types';
+export type { PgTypeInfo, PgTypeCategory } from './pg-types';
+export { parseHstore, clearTypeCache, EXTENSION_TYPE_PARSERS, TYPE_DISCOVERY_QUERY } from './type-discovery';
+export type { PgTypeDefinition } from './type-discovery';
 export { LogLevel } from './types'; // Export LogLevel enum as value
 export type {
   PgQueryResult,
   PgField,
   ParameterizedQuery,
   TransactionQuery,
+  TransactionOptions,
+  TransactionResults,
+  BatchOptions,
+  BatchResult,
+  StreamOptions,
+  CursorOptions,
+  CursorPage,
+  PgCursor,
+  PgNotification,
+  NotificationHandler,
+  ListenOptions,
+  PrepareOptions,
+  PreparedStatementStats,
+  CoalesceOptions,
+  IsolationLevel,
+  PgTransactionClient,
   ClientOptions,
+  AuthToken,
+  AuthTokenProvider,
   LoggerOptions, // Export LoggerOptions type
-  SQLTemplateTag
+  SQLTemplateTag,
+  NamedParameters,
+  QueryParameters,
+  QueryOptions,
+  BackoffOptions,
+  RetryOptions,
+  RetryCallOptions,
+  TimeoutOptions,
+  CallOptions
 } from './types';
 
 
@@ -46,8 +164,20 @@ export function createPgHttpClient({
   arrayMode = false,
   fullResults = false,
   typeParser: customTypeParser,
+  typeSerializer: customTypeSerializer,
   sessionId,
-  logger: loggerOptions // Destructure logger options
+  logger: loggerOptions, // Destructure logger options
+  autoLoadTypes = false,
+  bytea,
+  numeric,
+  bigint,
+  dates,
+  timeZone,
+  retry,
+  timeoutMs,
+  signingSecret,
+  preparedStatements = false,
+  coalesce
 }: ClientOptions) {
 
   // --- Logger Setup ---
@@ -83,13 +213,24 @@ export function createPgHttpClient({
   // Use provided fetch or global fetch
   const fetchFn = customFetch || globalThis.fetch;
 
+  // Static token or cached tokens from a provider
+  const tokens = createTokenSource(authToken);
+
+  // HMAC signature headers for every request when a signing secret is shared with the proxy
+  const signRequest = signingSecret ? createRequestSigner(signingSecret) : null;
+
   // Format the proxy URL to ensure it's valid
   const formattedProxyUrl = proxyUrl.endsWith('/') ? proxyUrl.slice(0, -1) : proxyUrl;
 
   // Initialize type parser
   const typeParser = customTypeParser instanceof TypeParser
     ? customTypeParser
-    : new TypeParser(customTypeParser);
+    : new TypeParser(customTypeParser, { bytea, numeric, bigint, dates, timeZone });
+
+  // Initialize type serializer for outgoing parameters
+  const typeSerializer = customTypeSerializer instanceof TypeSerializer
+    ? customTypeSerializer
+    : new TypeSerializer(customTypeSerializer);
 
   // Create or use provided session ID - this matches Neon's implementation
   const clientSessionId = sessionId || generateUUID();
@@ -99,10 +240,164 @@ export function createPgHttpClient({
     throw new PgError('fetch is not available in the current environment. Please provide a fetch implementation.');
   }
 
+  // Pending type discovery when autoLoadTypes is enabled (set on first use)
+  let typesLoaded: Promise<void> | null = null;
+
+  // With autoLoadTypes, wait for type discovery before the first query; a failed
+  // discovery is logged and retried on the next query instead of failing this one
+  const ensureTypesLoaded = async (): Promise<void> => {
+    if (!autoLoadTypes) return;
+    if (!typesLoaded) {
+      typesLoaded = loadTypes().then(
+        () => undefined,
+        (error) => {
+          typesLoaded = null;
+          log(LogLevel.Warn, 'Automatic type discovery failed; continuing without database-specific parsers', { error, sessionId: clientSessionId });
+        }
+      );
+    }
+    await typesLoaded;
+  };
+
+  // Sends a request with the current auth token. A 401 with a token from a provider is retried
+  // once with a fresh token. fetch() only rejects when the proxy could not be reached (network,
+  // DNS, TLS or CORS failure). The call's fetchOptions take precedence over init, and their
+  // headers over the client's.
+  const fetchProxy = async (path: string, init: RequestInit, fetchOptions?: CallOptions['fetchOptions']): Promise<Response> => {
+    const url = `${formattedProxyUrl}${path}`;
+    const { headers: extraHeaders, ...extraInit } = fetchOptions ?? {};
+    const send = async (token: string | undefined) => {
+      // Signed on every send, as the proxy rejects a nonce it has seen before
+      let signature: Record<string, string> = {};
+      if (signRequest) {
+        const { pathname, search } = new URL(url);
+        signature = await signRequest(init.method ?? 'GET', pathname + search, typeof init.body === 'string' ? init.body : '');
+      }
+      return fetchFn(url, {
+        ...init,
+        ...extraInit,
+        headers: {
+          // IMPORTANT: Always include Authorization header first if authToken is provided
+          // to ensure compatibility with all server implementations
+          ...(token ? { 'Authorization': `Bearer ${token}` } : {}),
+          ...(init.headers as Record<string, string>),
+          ...(extraHeaders as Record<string, string> | undefined),
+          ...signature,
+        },
+      });
+    };
+
+    const token = await tokens.get();
+    try {
+      const response = await send(token);
+      if (response.status === 401 && tokens.invalidate(token)) {
+        log(LogLevel.Info, 'Proxy rejected the auth token; retrying with a fresh one', { path, sessionId: clientSessionId });
+        return await send(await tokens.get());
+      }
+      return response;
+    } catch (error) {
+      // Aborted by the call's timeout or signal (see startRequest), or the token provider failed
+      if (init.signal?.aborted) throw init.signal.reason;
+      if (error instanceof PgError) throw error;
+      const connError = new ProxyConnectionError(`Could not reach the proxy: ${error instanceof Error ? error.message : String(error)}`);
+      connError.sourceError = error instanceof Error ? error : undefined;
+      log(LogLevel.Error, 'Proxy request failed', { error: connError, path, sessionId: clientSessionId });
+      throw connError;
+    }
+  };
+
+  // Build a typed error from a non-2xx proxy response
+  const errorFromResponse = async (response: Response, transaction = false): Promise<PgError> => {
+    let errorData: any;
+    try { errorData = await response.json(); }
+    catch { errorData = { error: `Status ${response.status}: ${response.statusText}` }; }
+    return parsePostgresError(errorData, {
+      status: response.status,
+      requestId: response.headers?.get('x-request-id') ?? undefined,
+      transaction,
+    });
+  };
+
+  // Bounds one call by its timeout and the caller's AbortSignal. The timeout is also sent as
+  // X-Statement-Timeout so the proxy stops the query; aborted() returns the error to throw.
+  const startRequest = (options: TimeoutOptions | undefined): {
+    signal?: AbortSignal;
+    headers: Record<string, string>;
+    aborted: () => PgError | undefined;
+    done: () => void;
+  } => {
+    const callTimeoutMs = options?.timeoutMs ?? timeoutMs;
+    const callerSignal = options?.signal;
+    const headers: Record<string, string> = callTimeoutMs ? { 'X-Statement-Timeout': String(callTimeoutMs) } : {};
+    if (!callTimeoutMs && !callerSignal) {
+      return { headers, aborted: () => undefined, done: () => {} };
+    }
+
+    const controller = new AbortController();
+    const abort = (error: PgError) => {
+      log(LogLevel.Warn, error.message, { sessionId: clientSessionId });
+      controller.abort(error);
+    };
+    const onCallerAbort = () => {
+      const canceled = new QueryCanceledError('Query was canceled');
+      canceled.sourceError = callerSignal?.reason instanceof Error ? callerSignal.reason : undefined;
+      abort(canceled);
+    };
+    if (callerSignal?.aborted) {
+      onCallerAbort();
+    } else {
+      callerSignal?.addEventListener('abort', onCallerAbort, { once: true });
+    }
+    const timer = callTimeoutMs
+      ? setTimeout(() => abort(new QueryTimeoutError(`Query timed out after ${callTimeoutMs}ms`)), callTimeoutMs)
+      : undefined;
+
+    return {
+      signal: controller.signal,
+      headers,
+      aborted: () => controller.signal.aborted ? controller.signal.reason : undefined,
+      done: () => {
+        clearTimeout(timer);
+        callerSignal?.removeEventListener('abort', onCallerAbort);
+      },
+    };
+  };
+
+  // The client's retry policy with the call's overrides; the call may run twice if it is
+  // marked idempotent or, unless idempotent is false, if it only reads
+  const retryPlan = (callOptions: RetryCallOptions | undefined, readOnly: boolean): RetryPlan | undefined => {
+    const options = resolveRetryOptions(retry, callOptions?.retry);
+    return options && { options, safe: callOptions?.idempotent ?? readOnly };
+  };
+
+  // signal is the call's (see startRequest): its timeout or abort also ends the wait between attempts
+  const retrying = <T>(label: string, plan: RetryPlan | undefined, signal: AbortSignal | undefined, attempt: () => Promise<T>): Promise<T> =>
+    withRetry(attempt, plan?.options, (error): error is PgError => !!plan && canRetry(error, plan), (info) => {
+      log(LogLevel.Warn, `Retrying ${label} after a transient failure`, { ...info, sessionId: clientSessionId });
+    }, signal);
+
+  // Prepared statement cache lookups reported by the proxy (X-Prepared-Statement)
+  const preparedStats: PreparedStatementStats = { hits: 0, misses: 0 };
+
+  // Name under which the proxy keeps the statement prepared; undefined sends it unnamed
+  const preparedName = (queryText: string, options?: PrepareOptions): string | undefined =>
+    (options?.prepare ?? preparedStatements) && canPrepare(queryText) ? statementName(queryText) : undefined;
+
+  const countPrepared = (status: string | null | undefined) => {
+    if (status === 'hit') preparedStats.hits++;
+    else if (status === 'miss') preparedStats.misses++;
+  };
+
   // Direct query execution function - the core of the client
-  const execute = async (queryText: string, params: any[] = []): Promise<PgQueryResult> => {
+  const execute = async (text: string, values: QueryParameters = [], options?: CallOptions & PrepareOptions): Promise<PgQueryResult> =>
+    coalescing(options) ? coalesced(text, values, () => executeAlone(text, values, options)) : executeAlone(text, values, options);
+
+  const executeAlone = async (text: string, values: QueryParameters, options?: CallOptions & PrepareOptions): Promise<PgQueryResult> => {
+    const { query: queryText, params } = bindParameters(text, values);
+    await ensureTypesLoaded();
     log(LogLevel.Debug, 'Executing query', { query: queryText, paramsCount: params.length, sessionId: clientSessionId });
     const startTime = Date.now();
+    const request = startRequest(options);
 
     const fetchOptions: RequestInit = {
       method: 'POST',
@@ -113,29 +408,29 @@ export function createPgHttpClient({
         'Neon-Array-Mode': String(arrayMode), // Use default arrayMode for single queries unless overridden
         // Add session ID header for consistent session tracking (just like Neon does)
         'X-Session-ID': clientSessionId,
-        // IMPORTANT: Always include Authorization header first if authToken is provided
-        // to ensure compatibility with all server implementations
-        ...(authToken ? { 'Authorization': `Bearer ${authToken}` } : {}),
+        ...request.headers,
       },
       body: JSON.stringify({
         query: queryText, // Use 'query' field to match Neon
-        params: Array.isArray(params) ? params.map(param => encodeBuffersAsBytea(param)) : [],
+        params: typeSerializer.serializeParams(params),
+        name: preparedName(queryText, options),
         // method: 'all', // Neon doesn't seem to use 'method' for single queries
       }),
+      signal: request.signal,
     };
 
     try {
-      const response = await fetchFn(`${formattedProxyUrl}/query`, fetchOptions);
-
-      if (!response.ok) {
-        let errorData: any = { error: response.statusText };
-        try { errorData = await response.json(); }
-        catch (parseError) { errorData = { error: `Status ${response.status}: ${response.statusText}` }; }
-        const pgError = parsePostgresError(errorData); // Use helper
-        log(LogLevel.Error, `Query failed with status ${response.status}`, { error: pgError, query: queryText, sessionId: clientSessionId });
-        throw pgError;
-      }
+      const response = await retrying('query', retryPlan(options, isReadOnlyQuery(queryText)), request.signal, async () => {
+        const response = await fetchProxy('/query', fetchOptions, options?.fetchOptions);
+        if (!response.ok) {
+          const pgError = await errorFromResponse(response);
+          log(LogLevel.Error, `Query failed with status ${response.status}`, { error: pgError, query: queryText, sessionId: clientSessionId });
+          throw pgError;
+        }
+        return response;
+      });
 
+      countPrepared(response.headers?.get('x-prepared-statement'));
       const result = await response.json() as any;
       const duration = Date.now() - startTime;
       log(LogLevel.Info, `Query executed successfully`, { durationMs: duration, query: queryText, sessionId: clientSessionId });
@@ -154,40 +449,79 @@ export function createPgHttpClient({
         // Error already logged if it came from response handling
         throw error;
       }
+      const abortError = request.aborted();
+      if (abortError) throw abortError;
       // Log connection or other unexpected errors
       const connError = new PgError(`Failed to execute query: ${error instanceof Error ? error.message : String(error)}`);
       connError.sourceError = error instanceof Error ? error : undefined;
       log(LogLevel.Error, `Query execution failed`, { error: connError, query: queryText, sessionId: clientSessionId });
       throw connError;
+    } finally {
+      request.done();
     }
   };
 
 
-  // SQL tag template for handling raw SQL queries
-  const sql = (strings: TemplateStringsArray, ...values: unknown[]): QueryPromise<PgQueryResult> => {
-    const parameterizedQuery = toParameterizedQuery(strings, values);
+  // SQL tag template for handling raw SQL queries; sql(text, params) takes plain query text instead
+  function sql<Row = any>(strings: TemplateStringsArray, ...values: unknown[]): QueryPromise<PgQueryResult<Row>>;
+  function sql<Row = any>(query: string, params?: QueryParameters): QueryPromise<PgQueryResult<Row>>;
+  function sql(strings: TemplateStringsArray | string, ...values: unknown[]): QueryPromise<PgQueryResult> {
+    const parameterizedQuery = typeof strings === 'string'
+      ? bindParameters(strings, values[0] as QueryParameters | undefined)
+      : toParameterizedQuery(strings, values, typeSerializer);
     // Pass arrayMode and fullResults options to the QueryPromise if needed
     return new QueryPromise(
-      (q: string, p: any[]) => execute(q, p), // Add types to lambda parameters
+      (q: string, p: any[], o?: CallOptions) => execute(q, p, o), // Add types to lambda parameters
       parameterizedQuery,
       { arrayMode, fullResults } // Pass options if QueryPromise needs them
     );
+  }
+
+
+  // Adds the Neon batch option headers (isolation level, read-only, deferrable) for a transaction
+  const applyTransactionOptionHeaders = (headers: Record<string, string>, options?: TransactionOptions) => {
+    if (options?.isolationLevel) headers['Neon-Batch-Isolation-Level'] = options.isolationLevel;
+    if (options?.readOnly !== undefined) headers['Neon-Batch-Read-Only'] = String(options.readOnly);
+    if (options?.deferrable !== undefined) headers['Neon-Batch-Deferrable'] = String(options.deferrable);
+    return headers;
   };
 
 
-  // Transaction handling
-  const transaction = async (
-    queries: (TransactionQuery | QueryPromise<PgQueryResult>)[], // Allow both raw objects and QueryPromises
-    options?: {
-      isolationLevel?: 'ReadUncommitted' | 'ReadCommitted' | 'RepeatableRead' | 'Serializable';
-      readOnly?: boolean;
-      deferrable?: boolean;
-      arrayMode?: boolean;
-      fullResults?: boolean;
+  // Batch transaction handling: all queries are sent in a single request
+  // Queries of a batch in the proxy's { query, params } form; method names the caller in errors
+  const formatBatchQueries = (
+    queries: (TransactionQuery | QueryPromise<PgQueryResult>)[],
+    method: string
+  ): ParameterizedQuery[] => queries.map((q) => {
+    let queryText: string;
+    let queryParams: any[];
+
+    if (q instanceof QueryPromise) {
+      // Extract from QueryPromise
+      if (!q.queryData) throw new PgError(`Invalid QueryPromise passed to ${method}.`);
+      queryText = q.queryData.query;
+      queryParams = q.queryData.params;
+    } else if (typeof q === 'object' && q !== null && typeof q.text === 'string') {
+      // Handle TransactionQuery object
+      ({ query: queryText, params: queryParams } = bindParameters(q.text, q.values ?? undefined));
+    } else {
+      throw new PgError(`Invalid query type passed to ${method}. Use sql\`\` or { text: string, values: any[] }.`);
     }
+
+    return {
+      query: queryText,
+      params: typeSerializer.serializeParams(queryParams),
+    };
+  });
+
+  const runBatchTransaction = async (
+    queries: (TransactionQuery | QueryPromise<PgQueryResult>)[], // Allow both raw objects and QueryPromises
+    options?: TransactionOptions
   ): Promise<any[]> => { // Return type depends on fullResults option
+    await ensureTypesLoaded();
     log(LogLevel.Debug, 'Executing transaction', { queryCount: queries.length, options, sessionId: clientSessionId });
     const startTime = Date.now();
+    const request = startRequest(options);
     try {
       if (!Array.isArray(queries)) {
         const err = new PgError('Input to transaction must be an array of queries.');
@@ -196,62 +530,39 @@ export function createPgHttpClient({
       }
 
       // Format queries for the server
-      const formattedQueries = queries.map((q) => {
-        let queryText: string;
-        let queryParams: any[];
-
-        if (q instanceof QueryPromise) {
-          // Extract from QueryPromise
-          if (!q.queryData) throw new PgError('Invalid QueryPromise passed to transaction.');
-          queryText = q.queryData.query;
-          queryParams = q.queryData.params;
-        } else if (typeof q === 'object' && q !== null && typeof q.text === 'string') {
-          // Handle TransactionQuery object
-          queryText = q.text;
-          queryParams = Array.isArray(q.values) ? q.values : [];
-        } else {
-          throw new PgError('Invalid query type passed to transaction. Use sql`` or { text: string, values: any[] }.');
-        }
-
-        return {
-          query: queryText,
-          params: queryParams.map(value => encodeBuffersAsBytea(value)),
-        };
-      });
+      const formattedQueries = formatBatchQueries(queries, 'transaction');
 
       // Determine the array mode and full results settings for this transaction
       const txnArrayMode = options?.arrayMode ?? arrayMode; // Inherit from client options if not specified
       const txnFullResults = options?.fullResults ?? fullResults; // Inherit from client options
 
       // Prepare headers with transaction options
-      const headers: Record<string, string> = {
+      const headers = applyTransactionOptionHeaders({
         'Content-Type': 'application/json',
         'Neon-Raw-Text-Output': 'true',
         'Neon-Array-Mode': String(txnArrayMode), // Use transaction-specific array mode
         'X-Session-ID': clientSessionId,
-        ...(authToken ? { 'Authorization': `Bearer ${authToken}` } : {})
-      };
-
-      if (options?.isolationLevel) headers['Neon-Batch-Isolation-Level'] = options.isolationLevel;
-      if (options?.readOnly !== undefined) headers['Neon-Batch-Read-Only'] = String(options.readOnly);
-      if (options?.deferrable !== undefined) headers['Neon-Batch-Deferrable'] = String(options.deferrable);
+        ...request.headers
+      }, options);
 
       // Send the transaction request
-      const response = await fetchFn(`${formattedProxyUrl}/transaction`, {
-        method: 'POST',
-        headers,
-        body: JSON.stringify({ queries: formattedQueries }),
+      const readOnly = options?.readOnly === true || formattedQueries.every(q => isReadOnlyQuery(q.query));
+      const response = await retrying('transaction', retryPlan(options, readOnly), request.signal, async () => {
+        const response = await fetchProxy('/transaction', {
+          method: 'POST',
+          headers,
+          body: JSON.stringify({ queries: formattedQueries }),
+          signal: request.signal,
+        }, options?.fetchOptions);
+        if (!response.ok) {
+          // queryIndex tells which query of the batch failed
+          const pgError = await errorFromResponse(response);
+          log(LogLevel.Error, `Transaction failed with status ${response.status}`, { error: pgError, queryCount: formattedQueries.length, sessionId: clientSessionId });
+          throw pgError;
+        }
+        return response;
       });
 
-      if (!response.ok) {
-        let errorData: any = {};
-        try { errorData = await response.json(); }
-        catch { errorData = { error: `Status ${response.status}: ${response.statusText}` }; }
-        const pgError = parsePostgresError(errorData); // Use helper
-        log(LogLevel.Error, `Transaction failed with status ${response.status}`, { error: pgError, queryCount: formattedQueries.length, sessionId: clientSessionId });
-        throw pgError;
-      }
-
       // Parse results from response
       let results: any[] = [];
       try {
@@ -281,26 +592,109 @@ export function createPgHttpClient({
         // Error should have been logged already if it came from response handling or input validation
         throw error;
       }
+      const abortError = request.aborted();
+      if (abortError) throw abortError;
       // Log connection or other unexpected errors during transaction setup/execution
       const txError = new PgError(`Failed to execute transaction: ${error instanceof Error ? error.message : String(error)}`);
       txError.sourceError = error instanceof Error ? error : undefined;
       log(LogLevel.Error, `Transaction execution failed`, { error: txError, sessionId: clientSessionId });
       throw txError;
+    } finally {
+      request.done();
     }
   };
 
-  // Direct query function (often used by libraries like Auth.js)
-  // This needs to return the full PgQueryResult structure for compatibility
-  const query = async (
-    queryText: string,
-    params?: any[],
-    options?: { // Allow overriding arrayMode/fullResults per query call
-      arrayMode?: boolean;
-      fullResults?: boolean; // Note: Even if false, we return the full object for consistency here
+  // Rows of a SELECT, read from a cursor on the proxy batchSize rows at a time and parsed as they
+  // arrive; the request is sent when iteration starts. Breaking out of the loop ends the request,
+  // and the proxy then closes the cursor.
+  async function* stream<Row = any>(
+    query: QueryPromise<PgQueryResult<Row>> | TransactionQuery,
+    options?: StreamOptions
+  ): AsyncGenerator<Row, void, undefined> {
+    await ensureTypesLoaded();
+    const [formattedQuery] = formatBatchQueries([query], 'stream');
+    const streamArrayMode = options?.arrayMode ?? arrayMode;
+    log(LogLevel.Debug, 'Starting stream', { query: formattedQuery!.query, options, sessionId: clientSessionId });
+    const startTime = Date.now();
+    const request = startRequest(options);
+    try {
+      const headers: Record<string, string> = {
+        'Content-Type': 'application/json',
+        'Neon-Raw-Text-Output': 'true',
+        'Neon-Array-Mode': String(streamArrayMode),
+        'X-Session-ID': clientSessionId,
+        ...request.headers
+      };
+
+      // Only the request is retried; once rows have been yielded a failure ends the stream
+      const response = await retrying('stream', retryPlan(options, isReadOnlyQuery(formattedQuery!.query)), request.signal, async () => {
+        const response = await fetchProxy('/stream', {
+          method: 'POST',
+          headers,
+          body: JSON.stringify({ ...formattedQuery, batchSize: options?.batchSize }),
+          signal: request.signal,
+        }, options?.fetchOptions);
+        if (!response.ok) {
+          const pgError = await errorFromResponse(response);
+          log(LogLevel.Error, `Stream failed with status ${response.status}`, { error: pgError, sessionId: clientSessionId });
+          throw pgError;
+        }
+        return response;
+      });
+      if (!response.body) {
+        throw new PgError('Invalid stream response: the response has no body.');
+      }
+
+      const requestId = response.headers?.get('x-request-id') ?? undefined;
+      let fields: PgQueryResult['fields'] | undefined;
+      for await (const line of readNdjson(response.body)) {
+        if (line.fields) {
+          fields = line.fields;
+        } else if (line.rows) {
+          // The same parsing as buffered results, one batch at a time
+          yield* processQueryResult({ fields, rows: line.rows }, typeParser, streamArrayMode).rows;
+        } else if (line.error) {
+          throw parsePostgresError(line.error, { requestId });
+        } else if (line.end) {
+          log(LogLevel.Info, 'Stream completed', { durationMs: Date.now() - startTime, rowCount: line.end.rowCount, sessionId: clientSessionId });
+          return;
+        }
+      }
+      throw new PgError('Stream ended before the query completed.');
+    } catch (error) {
+      if (error instanceof PgError) throw error;
+      const abortError = request.aborted();
+      if (abortError) throw abortError;
+      const streamError = new PgError(`Failed to stream query: ${error instanceof Error ? error.message : String(error)}`);
+      streamError.sourceError = error instanceof Error ? error : undefined;
+      log(LogLevel.Error, 'Stream failed', { error: streamError, sessionId: clientSessionId });
+      throw streamError;
+    } finally {
+      request.done();
     }
+  }
+
+  // Shared implementation of query(); transactionId routes the query to an open interactive transaction
+  const runQuery = (
+    text: string,
+    values?: QueryParameters,
+    options?: QueryOptions,
+    transactionId?: string
+  ): Promise<PgQueryResult> =>
+    !transactionId && coalescing(options)
+      ? coalesced(text, values, () => sendQuery(text, values, options))
+      : sendQuery(text, values, options, transactionId);
+
+  const sendQuery = async (
+    text: string,
+    values?: QueryParameters,
+    options?: QueryOptions, // Note: Even if fullResults is false, we return the full object for consistency here
+    transactionId?: string
   ): Promise<PgQueryResult> => {
-    log(LogLevel.Debug, 'Executing direct query', { query: queryText, paramsCount: params?.length, options, sessionId: clientSessionId });
+    const { query: queryText, params } = bindParameters(text, values);
+    log(LogLevel.Debug, 'Executing direct query', { query: queryText, paramsCount: params.length, options, transactionId, sessionId: clientSessionId });
     const startTime = Date.now();
+    const request = startRequest(options);
     // Use the core execute function, potentially overriding arrayMode for this call
     const callArrayMode = options?.arrayMode ?? arrayMode;
     // We'll call execute which always returns the full structure
@@ -313,26 +707,35 @@ export function createPgHttpClient({
             'Neon-Raw-Text-Output': 'true',
             'Neon-Array-Mode': String(callArrayMode), // Use specific mode for this call
             'X-Session-ID': clientSessionId,
-            ...(authToken ? { 'Authorization': `Bearer ${authToken}` } : {}),
+            ...(transactionId ? { 'X-Transaction-ID': transactionId } : {}),
+            ...request.headers,
         },
         body: JSON.stringify({
             query: queryText,
-            params: Array.isArray(params) ? params.map(param => encodeBuffersAsBytea(param)) : [],
+            params: typeSerializer.serializeParams(params),
+            name: preparedName(queryText, options),
         }),
+        signal: request.signal,
     };
 
-    try {
-        const response = await fetchFn(`${formattedProxyUrl}/query`, fetchOptions);
+    // A failed statement aborts an interactive transaction, so only failures that never
+    // reached the database are retried there
+    const plan = transactionId
+      ? retryPlan({ ...options, idempotent: false }, false)
+      : retryPlan(options, isReadOnlyQuery(queryText));
 
-        if (!response.ok) {
-            let errorData: any = { error: response.statusText };
-            try { errorData = await response.json(); }
-            catch { errorData = { error: `Status ${response.status}: ${response.statusText}` }; }
-            const pgError = parsePostgresError(errorData);
-            log(LogLevel.Error, `Direct query failed with status ${response.status}`, { error: pgError, query: queryText, sessionId: clientSessionId });
-            throw pgError;
-        }
+    try {
+        const response = await retrying('query', plan, request.signal, async () => {
+            const response = await fetchProxy('/query', fetchOptions, options?.fetchOptions);
+            if (!response.ok) {
+                const pgError = await errorFromResponse(response);
+                log(LogLevel.Error, `Direct query failed with status ${response.status}`, { error: pgError, query: queryText, sessionId: clientSessionId });
+                throw pgError;
+            }
+            return response;
+        });
 
+        countPrepared(response.headers?.get('x-prepared-statement'));
         const result = await response.json() as any;
         const duration = Date.now() - startTime;
         log(LogLevel.Info, `Direct query executed successfully`, { durationMs: duration, query: queryText, sessionId: clientSessionId });
@@ -344,25 +747,651 @@ export function createPgHttpClient({
             // Error already logged if it came from response handling
             throw error;
         }
+        const abortError = request.aborted();
+        if (abortError) throw abortError;
         const connError = new PgError(`Direct query failed: ${error instanceof Error ? error.message : String(error)}`);
         connError.sourceError = error instanceof Error ? error : undefined;
         log(LogLevel.Error, `Direct query execution failed`, { error: connError, query: queryText, sessionId: clientSessionId });
         throw connError;
+    } finally {
+        request.done();
     }
   };
 
 
+  // Direct query function (often used by libraries like Auth.js)
+  // This needs to return the full PgQueryResult structure for compatibility
+  const query = async (
+    queryText: string,
+    params?: QueryParameters,
+    options?: QueryOptions
+  ): Promise<PgQueryResult> => {
+    await ensureTypesLoaded();
+    return runQuery(queryText, params, options);
+  };
+
+
+  // Discover database-specific types (enums, domains, composites, extension types) through
+  // the proxy and register parsers for them. Results are cached per proxy URL.
+  const loadTypes = async (options?: { refresh?: boolean }): Promise<PgTypeDefinition[]> => {
+    log(LogLevel.Debug, 'Loading database types', { refresh: options?.refresh, sessionId: clientSessionId });
+    const types = await discoverTypes(
+      formattedProxyUrl,
+      // Sent on its own: a coalesced query waits for ensureTypesLoaded(), which would start this again
+      (discoveryQuery) => sendQuery(discoveryQuery, [], { arrayMode: false }),
+      options?.refresh
+    );
+    registerDiscoveredTypes(typeParser, types);
+    log(LogLevel.Info, 'Loaded database types', { count: types.length, sessionId: clientSessionId });
+    return types;
+  };
+
   // Unsafe query builder
   const unsafe = (rawSql: string) => new UnsafeRawSql(rawSql);
 
+
+  // Sends a begin/commit/rollback request for an interactive transaction
+  const sendTransactionControl = async (
+    action: 'begin' | 'commit' | 'rollback',
+    headers: Record<string, string>,
+    body: Record<string, unknown> = {},
+    plan?: RetryPlan,
+    callOptions?: CallOptions
+  ): Promise<any> => {
+    const request = startRequest(callOptions);
+    try {
+      const response = await retrying(`transaction ${action}`, plan, request.signal, async () => {
+        const response = await fetchProxy(`/transaction/${action}`, {
+          method: 'POST',
+          headers: { ...headers, ...request.headers },
+          body: JSON.stringify(body),
+          signal: request.signal,
+        }, callOptions?.fetchOptions);
+        if (!response.ok) {
+          const pgError = await errorFromResponse(response, true);
+          log(LogLevel.Error, `Transaction ${action} failed with status ${response.status}`, { error: pgError, sessionId: clientSessionId });
+          throw pgError;
+        }
+        return response;
+      });
+
+      return await response.json();
+    } catch (error) {
+      if (error instanceof PgError) {
+        throw error;
+      }
+      const abortError = request.aborted();
+      if (abortError) throw abortError;
+      const txError = new TransactionError(`Failed to ${action} transaction: ${error instanceof Error ? error.message : String(error)}`);
+      txError.sourceError = error instanceof Error ? error : undefined;
+      log(LogLevel.Error, `Transaction ${action} failed`, { error: txError, sessionId: clientSessionId });
+      throw txError;
+    } finally {
+      request.done();
+    }
+  };
+
+
+  // Interactive transaction handling: BEGIN on the proxy, run the callback against a
+  // transaction-bound handle, then COMMIT (or ROLLBACK if the callback throws)
+  const runInteractiveTransaction = async <T>(
+    callback: (tx: PgTransactionClient) => Promise<T>,
+    options?: TransactionOptions,
+    attempt = 1
+  ): Promise<T> => {
+    await ensureTypesLoaded();
+    log(LogLevel.Debug, 'Beginning interactive transaction', { options, sessionId: clientSessionId });
+    const startTime = Date.now();
+    const txnArrayMode = options?.arrayMode ?? arrayMode;
+    const txnFullResults = options?.fullResults ?? fullResults;
+
+    const baseHeaders: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'X-Session-ID': clientSessionId,
+    };
+
+    // Beginning and rolling back twice is harmless; a commit is only retried if it never reached the database
+    const begun = await sendTransactionControl(
+      'begin',
+      applyTransactionOptionHeaders({ ...baseHeaders }, options),
+      { idleTimeoutMs: options?.idleTimeoutMs },
+      retryPlan(options, true),
+      options
+    );
+    const transactionId: string | undefined = begun?.transactionId;
+    if (!transactionId) {
+      const err = new TransactionError('Proxy did not return a transaction ID. Does it support interactive transactions?');
+      log(LogLevel.Error, 'Transaction begin failed: Missing transaction ID', { error: err, sessionId: clientSessionId });
+      throw err;
+    }
+    const controlHeaders = { ...baseHeaders, 'X-Transaction-ID': transactionId };
+
+    // Queries issued after the callback settled would otherwise hit an unknown transaction on the proxy
+    let completed = false;
+    // The transaction's timeoutMs and signal apply to each of its requests
+    const txQuery = (queryText: string, params?: QueryParameters, queryOptions?: QueryOptions) => {
+      if (completed) {
+        return Promise.reject(new TransactionError(`Transaction ${transactionId} has already completed.`));
+      }
+      return runQuery(queryText, params, {
+        arrayMode: txnArrayMode,
+        retry: options?.retry,
+        timeoutMs: options?.timeoutMs,
+        signal: options?.signal,
+        fetchOptions: options?.fetchOptions,
+        ...queryOptions
+      }, transactionId);
+    };
+
+    const tx: PgTransactionClient = {
+      transactionId,
+      attempt,
+      execute: (queryText: string, params: QueryParameters = []) => txQuery(queryText, params),
+      query: txQuery,
+      sql: Object.assign((strings: TemplateStringsArray | string, ...values: unknown[]) => new QueryPromise(
+        (q: string, p: any[], o?: CallOptions) => txQuery(q, p, o),
+        typeof strings === 'string'
+          ? bindParameters(strings, values[0] as QueryParameters | undefined)
+          : toParameterizedQuery(strings, values, typeSerializer),
+        { arrayMode: txnArrayMode, fullResults: txnFullResults }
+      ), sqlHelpers),
+      unsafe,
+      typeParser,
+      typeSerializer,
+    };
+
+    let result: T;
+    try {
+      result = await callback(tx);
+    } catch (error) {
+      completed = true;
+      try {
+        await sendTransactionControl('rollback', controlHeaders, {}, retryPlan(options, true));
+        log(LogLevel.Warn, 'Interactive transaction rolled back', { transactionId, error, sessionId: clientSessionId });
+      } catch (rollbackError) {
+        // The proxy's idle timeout will still clean the transaction up; surface the original error
+        log(LogLevel.Error, 'Failed to roll back interactive transaction', { transactionId, error: rollbackError, sessionId: clientSessionId });
+      }
+      throw error;
+    }
+
+    completed = true;
+    await sendTransactionControl('commit', controlHeaders, {}, retryPlan({ ...options, idempotent: false }, false), options);
+    const duration = Date.now() - startTime;
+    log(LogLevel.Info, 'Interactive transaction committed successfully', { durationMs: duration, transactionId, sessionId: clientSessionId });
+    return result;
+  };
+
+
+  // With retryOnConflict, re-run a whole transaction (batch or callback) after a serialization
+  // failure or deadlock; the number of runs is reported on the results or the final error
+  const retryingConflicts = async <T>(
+    options: TransactionOptions | undefined,
+    run: (attempt: number) => Promise<T>
+  ): Promise<{ result: T; attempts: number }> => {
+    let attempts = 0;
+    try {
+      const result = await withRetry(
+        () => run(++attempts),
+        resolveConflictRetryOptions(options?.retryOnConflict),
+        isConflictError,
+        (info) => {
+          log(LogLevel.Warn, 'Retrying transaction after a conflict', { ...info, code: info.error.code, sessionId: clientSessionId });
+        }
+      );
+      return { result, attempts };
+    } catch (error) {
+      if (error instanceof PgError) error.attempts = attempts;
+      throw error;
+    }
+  };
+
+
+  // Transaction entry point: an array of queries runs as a single batch request,
+  // a callback runs as an interactive transaction bound to this session
+  function transaction<T>(
+    callback: (tx: PgTransactionClient) => Promise<T>,
+    options?: TransactionOptions
+  ): Promise<T>;
+  function transaction(
+    queries: (TransactionQuery | QueryPromise<PgQueryResult>)[],
+    options?: TransactionOptions
+  ): Promise<TransactionResults>;
+  function transaction(
+    queriesOrCallback: (TransactionQuery | QueryPromise<PgQueryResult>)[] | ((tx: PgTransactionClient) => Promise<any>),
+    options?: TransactionOptions
+  ): Promise<any> {
+    if (typeof queriesOrCallback === 'function') {
+      return retryingConflicts(options, (attempt) => runInteractiveTransaction(queriesOrCallback, options, attempt))
+        .then(({ result }) => result);
+    }
+    return retryingConflicts(options, () => runBatchTransaction(queriesOrCallback, options))
+      .then(({ result, attempts }) => Object.defineProperty(result, 'attempts', { value: attempts }));
+  }
+
+  // Independent statements sent in one request; the proxy runs each outside a transaction and a
+  // failing statement does not affect the others. Rejects only when the request itself fails.
+  const batch = async (
+    queries: (TransactionQuery | QueryPromise<PgQueryResult>)[],
+    options: BatchOptions
+  ): Promise<BatchResult[]> => {
+    await ensureTypesLoaded();
+    if (!Array.isArray(queries)) {
+      throw new PgError('Input to batch must be an array of queries.');
+    }
+    if (options?.mode !== 'independent') {
+      throw new PgError(`Unsupported batch mode: ${String(options?.mode)}. Use { mode: 'independent' }, or transaction() for atomic batches.`);
+    }
+    const formattedQueries = formatBatchQueries(queries, 'batch');
+    return runBatch(formattedQueries, options);
+  };
+
+  // Sends formatted statements to /batch; shared by batch() and coalesced queries
+  const runBatch = async (formattedQueries: ParameterizedQuery[], options: BatchOptions): Promise<BatchResult[]> => {
+    log(LogLevel.Debug, 'Executing batch', { queryCount: formattedQueries.length, options, sessionId: clientSessionId });
+    const startTime = Date.now();
+    const request = startRequest(options);
+    try {
+      const batchArrayMode = options.arrayMode ?? arrayMode;
+
+      const headers: Record<string, string> = {
+        'Content-Type': 'application/json',
+        'Neon-Raw-Text-Output': 'true',
+        'Neon-Array-Mode': String(batchArrayMode),
+        'X-Session-ID': clientSessionId,
+        ...request.headers
+      };
+
+      // Statements commit on their own, so the batch is only re-sent when none of them writes
+      const readOnly = formattedQueries.every(q => isReadOnlyQuery(q.query));
+      const response = await retrying('batch', retryPlan(options, readOnly), request.signal, async () => {
+        const response = await fetchProxy('/batch', {
+          method: 'POST',
+          headers,
+          body: JSON.stringify({ queries: formattedQueries, options: { sequential: options.sequential === true } }),
+          signal: request.signal,
+        }, options.fetchOptions);
+        if (!response.ok) {
+          const pgError = await errorFromResponse(response);
+          log(LogLevel.Error, `Batch failed with status ${response.status}`, { error: pgError, queryCount: formattedQueries.length, sessionId: clientSessionId });
+          throw pgError;
+        }
+        return response;
+      });
+
+      let entries: any[];
+      try {
+        entries = ((await response.json()) as any).results;
+      } catch (error: any) {
+        throw new PgError(`Error parsing batch response: ${error.message}`);
+      }
+      if (!Array.isArray(entries) || entries.length !== formattedQueries.length) {
+        throw new PgError('Invalid batch response: expected one result per query.');
+      }
+
+      const requestId = response.headers?.get('x-request-id') ?? undefined;
+      const results = entries.map((entry, index): BatchResult => {
+        if (entry?.status === 'ok') {
+          return { status: 'ok', result: processQueryResult(entry.result, typeParser, batchArrayMode) };
+        }
+        const error = parsePostgresError(entry?.error ?? {}, { requestId });
+        error.queryIndex = index;
+        return { status: 'error', error };
+      });
+
+      log(LogLevel.Info, 'Batch executed', {
+        durationMs: Date.now() - startTime,
+        queryCount: formattedQueries.length,
+        failedCount: results.filter(result => result.status === 'error').length,
+        sessionId: clientSessionId
+      });
+      return results;
+    } catch (error) {
+      if (error instanceof PgError) throw error;
+      const abortError = request.aborted();
+      if (abortError) throw abortError;
+      const batchError = new PgError(`Failed to execute batch: ${error instanceof Error ? error.message : String(error)}`);
+      batchError.sourceError = error instanceof Error ? error : undefined;
+      log(LogLevel.Error, 'Batch execution failed', { error: batchError, sessionId: clientSessionId });
+      throw batchError;
+    } finally {
+      request.done();
+    }
+  };
+
+  // With the coalesce option, queries issued within the window are sent to /batch together and
+  // each caller gets its own result or error; a query that ends up alone is sent as usual.
+  const coalesceOptions = resolveCoalesceOptions(coalesce);
+  const coalesceQuery = coalesceOptions && createCoalescer<{ query: ParameterizedQuery; sendAlone: () => Promise<PgQueryResult> }, PgQueryResult>(
+    coalesceOptions,
+    (pending) => {
+      if (pending.length === 1) {
+        const [only] = pending;
+        only!.item.sendAlone().then(only!.resolve, only!.reject);
+        return;
+      }
+      log(LogLevel.Debug, 'Coalescing queries into one batch', { queryCount: pending.length, sessionId: clientSessionId });
+      runBatch(pending.map(({ item }) => item.query), { mode: 'independent' }).then(
+        (results) => results.forEach((result, index) => {
+          if (result.status === 'ok') {
+            pending[index]!.resolve(result.result);
+          } else {
+            // The index within the batch means nothing to the caller
+            result.error.queryIndex = undefined;
+            pending[index]!.reject(result.error);
+          }
+        }),
+        (error) => pending.forEach(({ reject }) => reject(error))
+      );
+    }
+  );
+
+  // Per-call options other than these need a request of their own
+  const coalescing = (options?: QueryOptions): boolean =>
+    !!coalesceQuery && Object.entries(options ?? {}).every(([key, value]) =>
+      value === undefined || key === 'fullResults' || key === 'prepare' || (key === 'arrayMode' && value === arrayMode));
+
+  // Binds and serializes the parameters up front, so a bad value only fails its own query
+  const coalesced = async (
+    text: string,
+    values: QueryParameters | undefined,
+    sendAlone: () => Promise<PgQueryResult>
+  ): Promise<PgQueryResult> => {
+    const { query: queryText, params } = bindParameters(text, values);
+    await ensureTypesLoaded();
+    return coalesceQuery!({
+      query: { query: queryText, params: typeSerializer.serializeParams(params) },
+      sendAlone,
+    });
+  };
+
+  // Paginated query. Keyset pagination (orderBy) runs one query per page, filtered to the rows
+  // after the previous page's last sort key; otherwise the query is declared as a cursor in an
+  // interactive transaction and each page is a FETCH from it. Each page comes with a token that
+  // continues after it, also from another client or process (options.after).
+  function cursor<Row = any>(
+    query: QueryPromise<PgQueryResult<Row>> | TransactionQuery,
+    options: CursorOptions
+  ): PgCursor<Row> {
+    const [inner] = formatBatchQueries([query], 'cursor');
+    const pageSize = options?.pageSize;
+    if (!Number.isInteger(pageSize) || pageSize < 1) {
+      throw new PgError('cursor() needs a pageSize of at least 1.');
+    }
+    let position = options.after ? decodeCursorToken(options.after) : null;
+    const keyset = options.orderBy !== undefined ? keysetOrder(options) : null;
+    if (position && (keyset
+      ? position.strategy !== 'keyset' || position.direction !== keyset.direction || position.orderBy.join('\0') !== keyset.orderBy.join('\0')
+      : position.strategy !== 'declare')) {
+      throw new PgError('The cursor token was issued for a cursor with other orderBy or direction options.');
+    }
+
+    // DECLARE CURSOR pages must reach the session that holds the transaction, which a resumed
+    // token may have opened from another client
+    const sessionHeaders = { 'X-Session-ID': position?.strategy === 'declare' ? position.sessionId : clientSessionId };
+    const callOptions: CallOptions = {
+      retry: options.retry,
+      idempotent: options.idempotent,
+      timeoutMs: options.timeoutMs,
+      signal: options.signal,
+      fetchOptions: { ...options.fetchOptions, headers: { ...options.fetchOptions?.headers, ...sessionHeaders } },
+    };
+    const queryOptions: QueryOptions = { ...callOptions, arrayMode: options.arrayMode };
+    const controlHeaders = (transactionId: string) => ({ 'Content-Type': 'application/json', ...sessionHeaders, 'X-Transaction-ID': transactionId });
+
+    let done = false;
+    const finished = (): CursorPage<Row> => ({ rows: [], nextToken: null });
+
+    const keysetPage = async (order: NonNullable<typeof keyset>): Promise<CursorPage<Row>> => {
+      const after = position?.strategy === 'keyset' ? position.after : null;
+      const paged = buildKeysetQuery(inner!, order.orderBy, order.direction, pageSize, after);
+      const { rows: pageRows, keys } = takeKeysetColumns(await runQuery(paged.query, paged.params, queryOptions), order.orderBy);
+      const rows = pageRows.slice(0, pageSize);
+      if (pageRows.length <= pageSize) {
+        done = true;
+        return { rows, nextToken: null };
+      }
+      position = { strategy: 'keyset', ...order, after: keys[rows.length - 1]! };
+      return { rows, nextToken: encodeCursorToken(position) };
+    };
+
+    const declaredPage = async (): Promise<CursorPage<Row>> => {
+      if (position?.strategy !== 'declare') {
+        const begun = await sendTransactionControl(
+          'begin',
+          { 'Content-Type': 'application/json', ...sessionHeaders },
+          { idleTimeoutMs: options.idleTimeoutMs },
+          retryPlan(callOptions, true),
+          callOptions
+        );
+        if (!begun?.transactionId) {
+          throw new TransactionError('Proxy did not return a transaction ID. Does it support interactive transactions?');
+        }
+        position = { strategy: 'declare', sessionId: sessionHeaders['X-Session-ID'], transactionId: begun.transactionId, cursorName: `cursor_${generateUUID().replace(/-/g, '')}` };
+        // Cursor names are unique, so neither DECLARE nor FETCH is worth keeping prepared
+        await runQuery(`DECLARE ${position.cursorName} NO SCROLL CURSOR FOR ${inner!.query}`, inner!.params, { ...callOptions, prepare: false }, position.transactionId);
+      }
+      const { transactionId, cursorName } = position;
+      // A short page is the last one; after a full page, the next one may turn out empty
+      const result = await runQuery(`FETCH ${pageSize} FROM ${cursorName}`, [], { ...queryOptions, prepare: false }, transactionId);
+      if (result.rows.length < pageSize) {
+        done = true;
+        await sendTransactionControl('commit', controlHeaders(transactionId), {}, retryPlan({ ...callOptions, idempotent: false }, false), callOptions);
+        return { rows: result.rows, nextToken: null };
+      }
+      return { rows: result.rows, nextToken: encodeCursorToken(position) };
+    };
+
+    const close = async (): Promise<void> => {
+      if (done) return;
+      done = true;
+      if (position?.strategy === 'declare') {
+        await sendTransactionControl('rollback', controlHeaders(position.transactionId), {}, retryPlan(callOptions, true), callOptions);
+      }
+    };
+
+    // Pages are fetched one at a time, in the order they were asked for
+    let pending: Promise<unknown> = Promise.resolve();
+    const nextPage = (): Promise<CursorPage<Row>> => {
+      const page = pending.then(async () => {
+        if (done) return finished();
+        try {
+          return await (keyset ? keysetPage(keyset) : declaredPage());
+        } catch (error) {
+          // A failed FETCH aborts the transaction; roll it back instead of waiting for the idle timeout.
+          // A failed keyset page can simply be asked for again.
+          if (!keyset && !done) await close().catch(closeError => log(LogLevel.Warn, 'Failed to close cursor', { error: closeError, sessionId: clientSessionId }));
+          throw error;
+        }
+      });
+      pending = page.catch(() => undefined);
+      return page;
+    };
+
+    return {
+      get done() { return done; },
+      nextPage,
+      close: () => {
+        const closed = pending.then(close);
+        pending = closed.catch(() => undefined);
+        return closed;
+      },
+      async *[Symbol.asyncIterator]() {
+        try {
+          while (!done) yield await nextPage();
+        } finally {
+          // Breaking out of the loop ends the cursor's transaction
+          if (!done) await close();
+        }
+      },
+    };
+  }
+
+  // Subscribe to NOTIFY on one or more channels. The proxy holds a LISTEN connection for the
+  // channels and streams their notifications as Server-Sent Events; a dropped stream is reopened
+  // with backoff and, while the proxy still has them, the notifications sent in between are
+  // replayed (Last-Event-ID). Resolves once the subscription is active, with a function that ends it.
+  const listen = async (
+    channels: string | string[],
+    handler: NotificationHandler,
+    options?: ListenOptions
+  ): Promise<() => void> => {
+    const channelList = Array.isArray(channels) ? channels : [channels];
+    if (channelList.length === 0 || channelList.some(channel => typeof channel !== 'string' || channel === '')) {
+      throw new PgError('listen() needs at least one channel name.');
+    }
+    if (options?.signal?.aborted) {
+      throw new QueryCanceledError('Subscription was canceled');
+    }
+    const reconnect = resolveReconnectOptions(options?.reconnect);
+    const search = channelList.map(channel => `channel=${encodeURIComponent(channel)}`).join('&');
+    const logData = { channels: channelList, sessionId: clientSessionId };
+
+    // Aborting ends the current stream and stops reconnecting
+    const controller = new AbortController();
+    const onCallerAbort = () => controller.abort();
+    options?.signal?.addEventListener('abort', onCallerAbort, { once: true });
+    const unsubscribe = () => {
+      options?.signal?.removeEventListener('abort', onCallerAbort);
+      if (!controller.signal.aborted) log(LogLevel.Debug, 'Unsubscribing from notifications', logData);
+      controller.abort();
+    };
+
+    const reportError = (error: unknown) => {
+      if (options?.onError) options.onError(error);
+      else log(LogLevel.Error, 'Notification subscription failed', { error, ...logData });
+    };
+
+    // ID of the last event seen, sent on reconnect so the proxy can replay what was missed
+    let lastEventId: string | undefined;
+
+    // Open the stream and read up to its ready event; resumed is false when missed notifications
+    // could not be replayed
+    const connect = async (): Promise<{ events: AsyncGenerator<ServerSentEvent>; resumed: boolean }> => {
+      const response = await fetchProxy(`/listen?${search}`, {
+        method: 'GET',
+        headers: {
+          'Accept': 'text/event-stream',
+          'X-Session-ID': clientSessionId,
+          ...(lastEventId ? { 'Last-Event-ID': lastEventId } : {}),
+        },
+        signal: controller.signal,
+      }, options?.fetchOptions);
+      if (!response.ok) {
+        throw await errorFromResponse(response);
+      }
+      if (!response.body) {
+        throw new PgError('Invalid listen response: the response has no body.');
+      }
+      const events = readServerSentEvents(response.body);
+      const ready = await events.next();
+      if (ready.done || ready.value.event !== 'ready') {
+        await events.return(undefined);
+        throw new PgError('Invalid listen response: expected a ready event.');
+      }
+      if (ready.value.id) lastEventId = ready.value.id;
+      return { events, resumed: JSON.parse(ready.value.data).resumed !== false };
+    };
+
+    // Notifications are handled one at a time, in the order they were sent
+    const consume = async (events: AsyncGenerator<ServerSentEvent>): Promise<void> => {
+      for await (const event of events) {
+        if (event.id) lastEventId = event.id;
+        if (event.event !== 'message') continue;
+        const notification = JSON.parse(event.data) as PgNotification;
+        try {
+          await handler(notification.payload, notification);
+        } catch (error) {
+          reportError(error);
+        }
+      }
+    };
+
+    const delay = (ms: number) => new Promise<void>(resolve => {
+      const timer = setTimeout(done, ms);
+      function done() {
+        clearTimeout(timer);
+        controller.signal.removeEventListener('abort', done);
+        resolve();
+      }
+      controller.signal.addEventListener('abort', done, { once: true });
+    });
+
+    // Reopen the stream after it dropped; undefined once the subscription ended
+    const reopen = async (): Promise<AsyncGenerator<ServerSentEvent> | undefined> => {
+      if (!reconnect) {
+        reportError(new ProxyConnectionError('The notification stream was closed.'));
+        return undefined;
+      }
+      for (let attempt = 1; attempt <= reconnect.maxAttempts; attempt++) {
+        const delayMs = getRetryDelay(attempt, reconnect);
+        log(LogLevel.Warn, 'Notification stream closed; reconnecting', { attempt, delayMs, ...logData });
+        await delay(delayMs);
+        if (controller.signal.aborted) return undefined;
+        try {
+          const { events, resumed } = await connect();
+          if (!resumed) {
+            log(LogLevel.Warn, 'Notifications sent while disconnected could not be replayed', logData);
+            options?.onResync?.();
+          }
+          return events;
+        } catch (error) {
+          if (controller.signal.aborted) return undefined;
+          reportError(error);
+        }
+      }
+      reportError(new ProxyConnectionError(`Gave up reconnecting the notification stream after ${reconnect.maxAttempts} attempts.`));
+      return undefined;
+    };
+
+    // The first connection's failures go to the caller
+    let events: AsyncGenerator<ServerSentEvent> | undefined;
+    try {
+      ({ events } = await connect());
+    } catch (error) {
+      unsubscribe();
+      throw error;
+    }
+    log(LogLevel.Info, 'Listening for notifications', logData);
+
+    void (async () => {
+      while (events) {
+        try {
+          await consume(events);
+        } catch (error) {
+          if (!controller.signal.aborted) log(LogLevel.Warn, 'Notification stream failed', { error, ...logData });
+        }
+        events = controller.signal.aborted ? undefined : await reopen();
+      }
+      unsubscribe();
+    })();
+
+    return unsubscribe;
+  };
+
+  // Send a notification to a channel's listeners with pg_notify(); the payload is passed as a
+  // parameter, and values other than strings are sent as JSON
+  const notify = async (channel: string, payload?: unknown, options?: CallOptions): Promise<void> => {
+    const text = payload === undefined || typeof payload === 'string' ? payload ?? '' : JSON.stringify(payload);
+    await runQuery('SELECT pg_notify($1, $2)', [channel, text], { ...options, idempotent: options?.idempotent ?? false });
+  };
+
   // Return the client interface matching Neon's http client
   return {
     execute,      // Expose execute method
     query,        // Direct query method
-    sql,          // SQL template tag
+    sql: Object.assign(sql, sqlHelpers), // SQL template tag with fragment helpers
     unsafe,       // For unsafe raw SQL
     transaction,  // For transactions
+    batch,        // Independent statements in one request
+    stream,       // Rows of large results as an async iterator
+    cursor,       // Paginated queries with continuation tokens
+    listen,       // LISTEN subscriptions streamed from the proxy
+    notify,       // NOTIFY through pg_notify()
+    loadTypes,    // Runtime discovery of database-specific types
+    preparedStatementStats: (): PreparedStatementStats => ({ ...preparedStats }), // Proxy cache hits and misses
     // Expose typeParser if users need to interact with it directly
     typeParser,
+    typeSerializer,
   };
 }
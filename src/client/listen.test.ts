@@ -0,0 +1,152 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createPgHttpClient, DatabaseError, LogLevel } from './index';
+
+const mockFetch = vi.fn();
+
+// An SSE response that stays open until close(), or until the request's signal aborts it as fetch does
+const sseConnection = () => {
+  const encoder = new TextEncoder();
+  let controller!: ReadableStreamDefaultController<Uint8Array>;
+  const body = new ReadableStream<Uint8Array>({ start(c) { controller = c; } });
+  return {
+    respond: (init: RequestInit) => {
+      init.signal?.addEventListener('abort', () => {
+        try { controller.error(init.signal!.reason); } catch { /* already closed */ }
+      });
+      return new Response(body, { headers: { 'Content-Type': 'text/event-stream' } });
+    },
+    send: (text: string) => controller.enqueue(encoder.encode(text)),
+    close: () => controller.close(),
+  };
+};
+
+const ready = (id: string, resumed = true) => `id: ${id}\nevent: ready\ndata: ${JSON.stringify({ channels: ['jobs'], resumed })}\n\n`;
+const notification = (id: string, payload: string, channel = 'jobs') =>
+  `id: ${id}\ndata: ${JSON.stringify({ channel, payload, processId: 42 })}\n\n`;
+
+const requestOf = (call: number) => {
+  const [url, init] = mockFetch.mock.calls[call]!;
+  return { url: new URL(url), headers: init.headers, signal: init.signal as AbortSignal };
+};
+
+describe('listen', () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+  });
+
+  const createClient = () => createPgHttpClient({
+    proxyUrl: 'https://test-proxy.com',
+    fetch: mockFetch as unknown as typeof fetch,
+    logger: { level: LogLevel.None },
+    sessionId: 'session-a',
+  });
+
+  it('should deliver notifications in order until unsubscribed', async () => {
+    const connection = sseConnection();
+    mockFetch.mockImplementationOnce(async (_url: string, init: RequestInit) => connection.respond(init));
+    connection.send(ready('e1:0') + ': ping\n\n');
+
+    const received: unknown[] = [];
+    const unsubscribe = await createClient().listen(['jobs', 'audit'], async (payload, message) => {
+      received.push([payload, message]);
+    });
+    const { url, headers, signal } = requestOf(0);
+    expect(url.pathname + url.search).toBe('/listen?channel=jobs&channel=audit');
+    expect(headers).toMatchObject({ 'Accept': 'text/event-stream', 'X-Session-ID': 'session-a' });
+    expect(headers['Last-Event-ID']).toBeUndefined();
+
+    connection.send(notification('e1:1', 'first') + notification('e1:2', '', 'audit'));
+    await vi.waitFor(() => expect(received).toHaveLength(2));
+    expect(received).toEqual([
+      ['first', { channel: 'jobs', payload: 'first', processId: 42 }],
+      ['', { channel: 'audit', payload: '', processId: 42 }],
+    ]);
+
+    unsubscribe();
+    expect(signal.aborted).toBe(true);
+    await new Promise(resolve => setTimeout(resolve, 10));
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reconnect after the last event seen', async () => {
+    const first = sseConnection();
+    const second = sseConnection();
+    mockFetch
+      .mockImplementationOnce(async (_url: string, init: RequestInit) => first.respond(init))
+      .mockImplementationOnce(async (_url: string, init: RequestInit) => second.respond(init));
+    first.send(ready('e1:0'));
+    second.send(ready('e1:1') + notification('e1:2', 'while away'));
+
+    const onResync = vi.fn();
+    const received: string[] = [];
+    const unsubscribe = await createClient().listen('jobs', payload => { received.push(payload); }, {
+      reconnect: { baseDelayMs: 1, jitter: false },
+      onResync,
+    });
+    first.send(notification('e1:1', 'before'));
+    first.close();
+
+    await vi.waitFor(() => expect(received).toEqual(['before', 'while away']));
+    expect(requestOf(1).headers['Last-Event-ID']).toBe('e1:1');
+    expect(onResync).not.toHaveBeenCalled();
+    unsubscribe();
+  });
+
+  it('should report handler errors and resyncs that could not be replayed', async () => {
+    const first = sseConnection();
+    const second = sseConnection();
+    mockFetch
+      .mockImplementationOnce(async (_url: string, init: RequestInit) => first.respond(init))
+      .mockImplementationOnce(async (_url: string, init: RequestInit) => second.respond(init));
+    first.send(ready('e1:0') + notification('e1:1', 'bad') + notification('e1:2', 'good'));
+    second.send(ready('e2:0', false));
+
+    const onError = vi.fn();
+    const onResync = vi.fn();
+    const received: string[] = [];
+    const unsubscribe = await createClient().listen('jobs', payload => {
+      if (payload === 'bad') throw new Error('handler failed');
+      received.push(payload);
+    }, { reconnect: { baseDelayMs: 1, jitter: false }, onError, onResync });
+
+    await vi.waitFor(() => expect(received).toEqual(['good']));
+    expect(onError).toHaveBeenCalledWith(new Error('handler failed'));
+
+    first.close();
+    await vi.waitFor(() => expect(onResync).toHaveBeenCalledTimes(1));
+    expect(requestOf(1).headers['Last-Event-ID']).toBe('e1:2');
+    unsubscribe();
+  });
+
+  it('should reject when the subscription cannot be opened', async () => {
+    mockFetch.mockResolvedValueOnce(new Response(JSON.stringify({ error: 'permission denied', code: '42501' }), { status: 400 }));
+    await expect(createClient().listen('jobs', () => {})).rejects.toThrow(DatabaseError);
+    await expect(createClient().listen([], () => {})).rejects.toThrow('listen() needs at least one channel name.');
+  });
+});
+
+describe('notify', () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+  });
+
+  it('should send the payload as a parameter of pg_notify', async () => {
+    mockFetch.mockImplementation(async () => new Response(JSON.stringify({ command: 'SELECT', rowCount: 1, fields: [], rows: [] })));
+    const { notify } = createPgHttpClient({
+      proxyUrl: 'https://test-proxy.com',
+      fetch: mockFetch as unknown as typeof fetch,
+      logger: { level: LogLevel.None },
+    });
+
+    await notify('jobs', "it's done; DROP TABLE jobs");
+    await notify('jobs', { id: 1 });
+    await notify('jobs');
+
+    const bodies = mockFetch.mock.calls.map(([, init]) => JSON.parse(init.body));
+    expect(bodies).toEqual([
+      { query: 'SELECT pg_notify($1, $2)', params: ['jobs', "it's done; DROP TABLE jobs"] },
+      { query: 'SELECT pg_notify($1, $2)', params: ['jobs', '{"id":1}'] },
+      { query: 'SELECT pg_notify($1, $2)', params: ['jobs', ''] },
+    ]);
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createPgHttpClient, LogLevel, PgError } from './index';
+import { compileNamedParameters } from './named-params';
+
+const mockFetch = vi.fn();
+
+const jsonResponse = (body: any) => ({
+  ok: true,
+  status: 200,
+  statusText: 'OK',
+  headers: new Headers(),
+  json: async () => body,
+}) as unknown as Response;
+
+const okResult = { command: 'SELECT', rowCount: 0, fields: [], rows: [] };
+
+const bodyOf = (call: number) => JSON.parse(mockFetch.mock.calls[call]![1].body as string);
+
+describe('compileNamedParameters', () => {
+  it('should rewrite :name and @name placeholders', () => {
+    expect(compileNamedParameters('SELECT * FROM t WHERE a = :a AND b = @b', { a: 1, b: 'x' })).toEqual({
+      query: 'SELECT * FROM t WHERE a = $1 AND b = $2',
+      params: [1, 'x'],
+    });
+  });
+
+  it('should reuse the position of repeated names', () => {
+    expect(compileNamedParameters('SELECT :from, :to WHERE d BETWEEN :from AND :to OR d = @from', { from: 1, to: 2 }))
+      .toEqual({ query: 'SELECT $1, $2 WHERE d BETWEEN $1 AND $2 OR d = $1', params: [1, 2] });
+  });
+
+  it('should skip literals, quoted identifiers and comments', () => {
+    const text = [
+      'SELECT \':a\', E\'\\\':a\', "col:a", \'it\'\'s :a\'',
+      '-- :a in a comment',
+      '/* :a /* nested :a */ still :a */',
+      'FROM t WHERE x = :a',
+    ].join('\n');
+    const { query, params } = compileNamedParameters(text, { a: 1 });
+    expect(query).toBe(text.replace('x = :a', 'x = $1'));
+    expect(params).toEqual([1]);
+  });
+
+  it('should skip casts, dollar-quoted bodies and operators', () => {
+    expect(compileNamedParameters('SELECT :a::int, $$ :a $$, $fn$ @a $fn$, tags <@ :tags, arr[lo:hi]', { a: 1, tags: [] }))
+      .toEqual({ query: 'SELECT $1::int, $$ :a $$, $fn$ @a $fn$, tags <@ $2, arr[lo:hi]', params: [1, []] });
+  });
+
+  it('should reject missing names and positional placeholders', () => {
+    expect(() => compileNamedParameters('SELECT :a, :b', { a: 1 })).toThrow('No value given for named parameter :b.');
+    expect(() => compileNamedParameters('SELECT :a, $1', { a: 1 })).toThrow(PgError);
+  });
+});
+
+describe('Named parameters', () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+    mockFetch.mockResolvedValue(jsonResponse(okResult));
+  });
+
+  const client = createPgHttpClient({
+    proxyUrl: 'https://test-proxy.com',
+    fetch: mockFetch as unknown as typeof fetch,
+    logger: { level: LogLevel.None },
+  });
+
+  it('should be accepted by query, execute and sql', async () => {
+    await client.query('SELECT * FROM t WHERE a = :a AND b = :b', { a: 1, b: 'x' });
+    await client.execute('SELECT * FROM t WHERE a = @a', { a: true });
+    await client.sql('SELECT * FROM t WHERE a = :a', { a: 2 });
+
+    expect([0, 1, 2].map(bodyOf)).toEqual([
+      { query: 'SELECT * FROM t WHERE a = $1 AND b = $2', params: [1, 'x'] },
+      { query: 'SELECT * FROM t WHERE a = $1', params: [true] },
+      { query: 'SELECT * FROM t WHERE a = $1', params: [2] },
+    ]);
+  });
+
+  it('should be accepted inside transactions', async () => {
+    await client.transaction([{ text: 'UPDATE t SET a = :a', values: { a: 1 } }]);
+    expect(bodyOf(0).queries).toEqual([{ query: 'UPDATE t SET a = $1', params: [1] }]);
+
+    mockFetch.mockResolvedValueOnce(jsonResponse({ transactionId: 'tx-1' }));
+    await client.transaction(async (tx) => {
+      await tx.query('UPDATE t SET a = :a WHERE id = :id', { a: 2, id: 7 });
+    });
+    expect(bodyOf(2)).toEqual({ query: 'UPDATE t SET a = $1 WHERE id = $2', params: [2, 7] });
+  });
+
+  it('should reject without a request when a value is missing', async () => {
+    await expect(client.query('SELECT :a', {})).rejects.toThrow('No value given for named parameter :a.');
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+});
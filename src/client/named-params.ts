@@ -0,0 +1,154 @@
+import { PgError } from './errors';
+import type { NamedParameters, ParameterizedQuery, QueryParameters } from './types';
+
+/**
+ * Placeholders in query text: named parameters (:name and @name) rewritten into positional $n
+ * placeholders, and $n placeholders renumbered for nesting. The scanner skips string literals
+ * (including E'' and dollar-quoted strings), quoted identifiers, comments and :: casts, so only
+ * placeholders in the statement itself are replaced.
+ */
+
+const isNameStart = (c: string | undefined) => c !== undefined && /[A-Za-z_]/.test(c);
+const isNameChar = (c: string | undefined) => c !== undefined && /[A-Za-z0-9_]/.test(c);
+// Characters that can precede a placeholder as part of an identifier, literal or subscript
+const isWordChar = (c: string | undefined) => c !== undefined && /[A-Za-z0-9_$\u0080-\uffff\]"')]/.test(c);
+// PostgreSQL operator characters; @ after one of them belongs to an operator such as <@ or @@
+const isOperatorChar = (c: string | undefined) => c !== undefined && '+-*/<>=~!@#%^&|`?'.includes(c);
+
+// Index just past the quoted section that starts at start
+function skipQuoted(text: string, start: number, quote: string, backslashEscapes: boolean): number {
+  let i = start + 1;
+  while (i < text.length) {
+    const c = text[i];
+    if (backslashEscapes && c === '\\') {
+      i += 2;
+    } else if (c === quote) {
+      // A doubled quote is an escaped quote
+      if (text[i + 1] !== quote) return i + 1;
+      i += 2;
+    } else {
+      i++;
+    }
+  }
+  return i;
+}
+
+function skipBlockComment(text: string, start: number): number {
+  // Block comments nest in PostgreSQL
+  let depth = 0;
+  let i = start;
+  while (i < text.length) {
+    if (text[i] === '/' && text[i + 1] === '*') {
+      depth++;
+      i += 2;
+    } else if (text[i] === '*' && text[i + 1] === '/') {
+      depth--;
+      i += 2;
+      if (depth === 0) return i;
+    } else {
+      i++;
+    }
+  }
+  return i;
+}
+
+// A placeholder found by replacePlaceholders: $n, or :name / @name
+type Placeholder =
+  | { kind: 'positional'; position: number }
+  | { kind: 'named'; name: string; sigil: ':' | '@' };
+
+// Replaces the placeholders outside literals, identifiers and comments with the text returned
+// by replace; returning undefined keeps a placeholder as it is
+function replacePlaceholders(text: string, replace: (placeholder: Placeholder) => string | undefined): string {
+  let query = '';
+  let copied = 0; // Start of the text not yet copied to query
+  let i = 0;
+
+  const substitute = (end: number, placeholder: Placeholder) => {
+    const replacement = replace(placeholder);
+    if (replacement !== undefined) {
+      query += text.slice(copied, i) + replacement;
+      copied = end;
+    }
+    i = end;
+  };
+
+  while (i < text.length) {
+    const c = text[i]!;
+    const next = text[i + 1];
+    const prev = text[i - 1];
+
+    if (c === '\'') {
+      i = skipQuoted(text, i, '\'', (prev === 'E' || prev === 'e') && !isWordChar(text[i - 2]));
+    } else if (c === '"') {
+      i = skipQuoted(text, i, '"', false);
+    } else if (c === '-' && next === '-') {
+      const end = text.indexOf('\n', i);
+      i = end === -1 ? text.length : end + 1;
+    } else if (c === '/' && next === '*') {
+      i = skipBlockComment(text, i);
+    } else if (c === '$' && !isWordChar(prev)) {
+      const tag = /^\$(?:[A-Za-z_\u0080-\uffff][\w\u0080-\uffff]*)?\$/.exec(text.slice(i))?.[0];
+      const digits = /^\$(\d+)/.exec(text.slice(i));
+      if (tag) {
+        const end = text.indexOf(tag, i + tag.length);
+        i = end === -1 ? text.length : end + tag.length;
+      } else if (digits) {
+        substitute(i + digits[0].length, { kind: 'positional', position: Number(digits[1]) });
+      } else {
+        i++;
+      }
+    } else if (c === ':' && next === ':') {
+      i += 2;
+    } else if ((c === ':' || c === '@') && isNameStart(next) && !isWordChar(prev) && !(c === '@' && isOperatorChar(prev))) {
+      let end = i + 1;
+      while (isNameChar(text[end])) end++;
+      substitute(end, { kind: 'named', name: text.slice(i + 1, end), sigil: c });
+    } else {
+      i++;
+    }
+  }
+
+  return query + text.slice(copied);
+}
+
+// Rewrites :name and @name placeholders to $n; a name used more than once keeps its position
+export function compileNamedParameters(text: string, values: NamedParameters): ParameterizedQuery {
+  const positions = new Map<string, number>();
+  const params: unknown[] = [];
+
+  const query = replacePlaceholders(text, (placeholder) => {
+    if (placeholder.kind === 'positional') {
+      throw new PgError('Cannot mix positional ($n) and named parameters in one query.');
+    }
+    const { name, sigil } = placeholder;
+    if (!Object.prototype.hasOwnProperty.call(values, name)) {
+      throw new PgError(`No value given for named parameter ${sigil}${name}.`);
+    }
+    let position = positions.get(name);
+    if (position === undefined) {
+      params.push(values[name]);
+      position = params.length;
+      positions.set(name, position);
+    }
+    return `$${position}`;
+  });
+
+  return { query, params };
+}
+
+// Shifts $n placeholders by offset, for queries nested into another query's parameters
+export function renumberParameters(text: string, offset: number): string {
+  if (offset === 0) return text;
+  return replacePlaceholders(text, (placeholder) =>
+    placeholder.kind === 'positional' ? `$${placeholder.position + offset}` : undefined
+  );
+}
+
+// Positional parameters pass through unchanged; an object is matched against named placeholders
+export function bindParameters(text: string, params: QueryParameters | undefined): ParameterizedQuery {
+  if (params === undefined || Array.isArray(params)) {
+    return { query: text, params: params ?? [] };
+  }
+  return compileNamedParameters(text, params);
+}
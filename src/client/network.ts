@@ -0,0 +1,42 @@
+import { PgTypeId } from './pg-types';
+
+/**
+ * Network address types: inet and cidr become { address, prefix }, MAC addresses stay
+ * strings (PostgreSQL already normalizes them to lower-case colon notation)
+ */
+
+export interface PgInet {
+  address: string;
+  prefix: number; // 32 or 128 for a single host
+}
+
+/**
+ * Parse inet/cidr output such as 192.168.0.1, 10.0.0.0/8 or 2001:db8::/32. inet omits the
+ * prefix for single hosts, so it defaults to the full address length.
+ */
+export function parseInet(text: string): PgInet {
+  const slash = text.indexOf('/');
+  const address = slash === -1 ? text : text.slice(0, slash);
+  const prefix = slash === -1
+    ? (address.includes(':') ? 128 : 32)
+    : parseInt(text.slice(slash + 1), 10);
+  return { address, prefix };
+}
+
+function formatInet(value: PgInet): string {
+  return `${value.address}/${value.prefix}`;
+}
+
+// Default parsers, registered by TypeParser
+export const NETWORK_PARSERS: Record<number, (value: string) => any> = {
+  [PgTypeId.INET]: parseInet,
+  [PgTypeId.CIDR]: parseInet,
+  [PgTypeId.MACADDR]: value => value,
+  [PgTypeId.MACADDR8]: value => value,
+};
+
+// Parameter formatters for values hinted with these types, used by TypeSerializer
+export const NETWORK_FORMATTERS: Record<number, (value: any) => string> = {
+  [PgTypeId.INET]: formatInet,
+  [PgTypeId.CIDR]: formatInet,
+};
@@ -1,132 +1,48 @@
-// PostgreSQL Data Types IDs
-// Based on https://github.com/brianc/node-pg-types/blob/master/lib/builtins.js
-export enum PgTypeId {
-  BOOL = 16,
-  BYTEA = 17,
-  CHAR = 18,
-  INT8 = 20,
-  INT2 = 21,
-  INT4 = 23,
-  REGPROC = 24,
-  TEXT = 25,
-  OID = 26,
-  TID = 27,
-  XID = 28,
-  CID = 29,
-  JSON = 114,
-  XML = 142,
-  PG_NODE_TREE = 194,
-  JSONB = 3802,
-  FLOAT4 = 700,
-  FLOAT8 = 701,
-  ABSTIME = 702,
-  RELTIME = 703,
-  TINTERVAL = 704,
-  CIRCLE = 718,
-  MONEY = 790,
-  MACADDR = 829,
-  INET = 869,
-  CIDR = 650,
-  MACADDR8 = 774,
-  ACLITEM = 1033,
-  BPCHAR = 1042,
-  VARCHAR = 1043,
-  DATE = 1082,
-  TIME = 1083,
-  TIMESTAMP = 1114,
-  TIMESTAMPTZ = 1184,
-  INTERVAL = 1186,
-  TIMETZ = 1266,
-  BIT = 1560,
-  VARBIT = 1562,
-  NUMERIC = 1700,
-  REFCURSOR = 1790,
-  REGPROCEDURE = 2202,
-  REGOPER = 2203,
-  REGOPERATOR = 2204,
-  REGCLASS = 2205,
-  REGTYPE = 2206,
-  UUID = 2950,
-  TXID_SNAPSHOT = 2970,
-  PG_LSN = 3220,
-  PG_NDISTINCT = 3361,
-  PG_DEPENDENCIES = 3402,
-  TSVECTOR = 3614,
-  TSQUERY = 3615,
-  GTSVECTOR = 3642,
-  REGCONFIG = 3734,
-  REGDICTIONARY = 3769,
-  JSONPATH = 4072,
-  REGNAMESPACE = 4089,
-  REGROLE = 4096,
-
-  // Array types (OIDs are element type OID + 1 dimension)
-  // Defining common array types explicitly
-  BOOL_ARRAY = 1000,      // Boolean Array -> 16 + 1000 - 16 = 1000
-  BYTEA_ARRAY = 1001,     // Bytea Array -> 17 + 1000 - 16 = 1001
-  CHAR_ARRAY = 1002,      // Char Array -> 18 + 1000 - 16 = 1002
-  INT8_ARRAY = 1016,      // BigInt Array -> 20 + 1000 - 4 = 1016
-  INT2_ARRAY = 1005,      // SmallInt Array -> 21 + 1000 - 16 = 1005
-  INT4_ARRAY = 1007,      // Integer Array -> 23 + 1000 - 16 = 1007
-  TEXT_ARRAY = 1009,      // Text Array -> 25 + 1000 - 16 = 1009
-  JSON_ARRAY = 199,       // JSON Array -> 114 + 1000 - 915 = 199
-  JSONB_ARRAY = 3807,     // JSONB Array -> 3802 + 5 = 3807
-  FLOAT4_ARRAY = 1021,    // Float4 Array -> 700 + 1000 - 679 = 1021
-  FLOAT8_ARRAY = 1022,    // Float8 Array -> 701 + 1000 - 679 = 1022
-  NUMERIC_ARRAY = 1231,   // Numeric Array -> 1700 + 1000 - 1469 = 1231
-  DATE_ARRAY = 1182,      // Date Array -> 1082 + 100 = 1182
-  TIMESTAMP_ARRAY = 1115, // Timestamp Array -> 1114 + 1 = 1115
-  TIMESTAMPTZ_ARRAY = 1185, // Timestamptz Array -> 1184 + 1 = 1185
-  UUID_ARRAY = 2951,      // UUID Array -> 2950 + 1 = 2951
-  VARCHAR_ARRAY = 1015,   // VarChar Array -> 1043 + 1000 - 1028 = 1015
+import {
+  PgTypeId,
+  PG_TYPE_CATALOG,
+  isArrayType,
+  getElementTypeId,
+  getArrayDelimiter,
+  getTypeInfoByName,
+  isRangeType,
+  isMultirangeType,
+  getRangeSubtypeId
+} from './pg-types';
+import { decodeBytea, toBufferIfAvailable } from './binary';
+import { parseDateTime, parseInterval, assertValidTimeZone } from './temporal';
+import { parseRange, parseMultirange } from './range';
+import { GEOMETRIC_PARSERS } from './geometric';
+import { NETWORK_PARSERS } from './network';
+
+// Re-export the catalog helpers that used to live in this module
+export { PgTypeId, isArrayType, getElementTypeId } from './pg-types';
+
+
+// Options for the default parsers of a TypeParser
+export interface TypeParserOptions {
+  // Return bytea values as Uint8Array (default) or as Node's Buffer where it exists
+  bytea?: 'Uint8Array' | 'Buffer';
+  // NUMERIC as a JS number (default, may lose precision) or as the exact string
+  numeric?: 'number' | 'string';
+  // INT8 as BigInt (default), as a number (may lose precision) or as a string (JSON-safe)
+  bigint?: 'bigint' | 'number' | 'string';
+  // DATE, TIMESTAMP and TIMESTAMPTZ as Date (default), as the raw string, or through a custom
+  // function, which also receives TIME and TIMETZ values
+  dates?: 'Date' | 'string' | ((value: string, typeId: number) => any);
+  // Zone of TIMESTAMP (without time zone) values: 'UTC' (default), an offset such as '+02:00' or an IANA name
+  timeZone?: string;
 }
 
-// Helper function to check if a type is an array type
-export function isArrayType(typeId: number): boolean {
-  // Array types in PostgreSQL are typically in ranges that follow patterns
-  return (
-    (typeId >= 1000 && typeId <= 1099) || // Common 1-dimensional array types
-    (typeId >= 1115 && typeId <= 1185) || // Date/time array types
-    typeId === 199 ||                     // JSON array
-    typeId === 3807 ||                    // JSONB array
-    typeId === 1231 ||                    // Numeric array
-    typeId === 2951                       // UUID array
-    // Add other ranges as needed
-  );
-}
-
-// Get the element type ID for an array type ID
-export function getElementTypeId(arrayTypeId: number): number {
-  // Some common mappings for array types to their element types
-  const arrayToElementMap: Record<number, number> = {
-    1000: PgTypeId.BOOL,          // Boolean array -> Boolean
-    1001: PgTypeId.BYTEA,         // Bytea array -> Bytea
-    1002: PgTypeId.CHAR,          // Char array -> Char
-    1005: PgTypeId.INT2,          // SmallInt array -> SmallInt
-    1007: PgTypeId.INT4,          // Integer array -> Integer
-    1009: PgTypeId.TEXT,          // Text array -> Text
-    1016: PgTypeId.INT8,          // BigInt array -> BigInt
-    1021: PgTypeId.FLOAT4,        // Float4 array -> Float4
-    1022: PgTypeId.FLOAT8,        // Float8 array -> Float8
-    1231: PgTypeId.NUMERIC,       // Numeric array -> Numeric
-    1015: PgTypeId.VARCHAR,       // VarChar array -> VarChar
-    1182: PgTypeId.DATE,          // Date array -> Date
-    1115: PgTypeId.TIMESTAMP,     // Timestamp array -> Timestamp
-    1185: PgTypeId.TIMESTAMPTZ,   // TimestampTZ array -> TimestampTZ
-    199: PgTypeId.JSON,           // JSON array -> JSON
-    3807: PgTypeId.JSONB,         // JSONB array -> JSONB
-    2951: PgTypeId.UUID,          // UUID array -> UUID
-  };
-
-  return arrayToElementMap[arrayTypeId] || 0;
-}
-
-
 // Type parser for PostgreSQL types
 export class TypeParser {
   private parsers: Record<number, (value: string) => any> = {};
+  // Parsers registered by type name, bound to an OID once the name is known
+  private nameParsers: Record<string, (value: string) => any> = {};
+  // OIDs of database-specific types discovered at runtime, keyed by name and schema-qualified name
+  private typeIds: Record<string, number> = {};
 
-  constructor(customTypes?: Record<number, (value: string) => any>) {
+  constructor(customTypes?: Record<number, (value: string) => any>, private options: TypeParserOptions = {}) {
     // Initialize with default parsers
     this.initializeDefaultParsers();
 
@@ -148,81 +64,127 @@ export class TypeParser {
     // Integer types
     this.setTypeParser(PgTypeId.INT2, val => parseInt(val, 10));
     this.setTypeParser(PgTypeId.INT4, val => parseInt(val, 10));
-    this.setTypeParser(PgTypeId.INT8, val => BigInt(val));
+    this.setTypeParser(PgTypeId.INT8, this.createBigIntParser());
     this.setTypeParser(PgTypeId.OID, val => parseInt(val, 10));
 
     // Floating point types
     this.setTypeParser(PgTypeId.FLOAT4, val => parseFloat(val));
     this.setTypeParser(PgTypeId.FLOAT8, val => parseFloat(val));
-    this.setTypeParser(PgTypeId.NUMERIC, val => parseFloat(val));
+    this.setTypeParser(PgTypeId.NUMERIC, this.options.numeric === 'string' ? val => val : val => parseFloat(val));
 
     // JSON types
     this.setTypeParser(PgTypeId.JSON, val => JSON.parse(val));
     this.setTypeParser(PgTypeId.JSONB, val => JSON.parse(val));
 
     // Date/Time types
-    this.setTypeParser(PgTypeId.DATE, val => new Date(val));
-    this.setTypeParser(PgTypeId.TIMESTAMP, val => new Date(val));
-    this.setTypeParser(PgTypeId.TIMESTAMPTZ, val => new Date(val));
+    this.setupDateTimeParsers();
 
     // UUID
     this.setTypeParser(PgTypeId.UUID, val => val);
 
+    // Binary data, hex or legacy escape format
+    this.setTypeParser(PgTypeId.BYTEA, this.options.bytea === 'Buffer'
+      ? val => toBufferIfAvailable(decodeBytea(val))
+      : val => decodeBytea(val));
+
+    // Geometric and network types
+    for (const parsers of [GEOMETRIC_PARSERS, NETWORK_PARSERS]) {
+      Object.entries(parsers).forEach(([typeId, parseFn]) => this.setTypeParser(Number(typeId), parseFn));
+    }
+
+    // Range and multirange types
+    this.setupRangeTypeParsers();
+
     // Set up array type parsers
     this.setupArrayTypeParsers();
   }
 
+  private createBigIntParser(): (value: string) => any {
+    switch (this.options.bigint) {
+      case 'number':
+        return val => Number(val);
+      case 'string':
+        return val => val;
+      default:
+        return val => BigInt(val);
+    }
+  }
+
+  private setupDateTimeParsers() {
+    const { dates = 'Date', timeZone = 'UTC' } = this.options;
+    assertValidTimeZone(timeZone);
+
+    for (const typeId of [PgTypeId.DATE, PgTypeId.TIMESTAMP, PgTypeId.TIMESTAMPTZ]) {
+      if (typeof dates === 'function') {
+        this.setTypeParser(typeId, val => dates(val, typeId));
+      } else if (dates === 'string') {
+        this.setTypeParser(typeId, val => val);
+      } else {
+        this.setTypeParser(typeId, val => parseDateTime(val, timeZone));
+      }
+    }
+
+    // A time of day has no JS equivalent, so TIME and TIMETZ stay strings (e.g. 08:30:00+02)
+    // unless a custom function parses them
+    for (const typeId of [PgTypeId.TIME, PgTypeId.TIMETZ]) {
+      this.setTypeParser(typeId, typeof dates === 'function' ? val => dates(val, typeId) : val => val);
+    }
+
+    this.setTypeParser(PgTypeId.INTERVAL, dates === 'string' ? val => val : val => parseInterval(val));
+  }
+
+  private setupRangeTypeParsers() {
+    // Bounds are parsed with the subtype's parser, looked up per call like array elements
+    for (const info of PG_TYPE_CATALOG) {
+      if (isRangeType(info.oid)) {
+        const subtypeId = getRangeSubtypeId(info.oid);
+        this.setTypeParser(info.oid, val => parseRange(val, this.getTypeParser(subtypeId)));
+      } else if (isMultirangeType(info.oid)) {
+        const subtypeId = getRangeSubtypeId(info.oid);
+        this.setTypeParser(info.oid, val => parseMultirange(val, this.getTypeParser(subtypeId)));
+      }
+    }
+  }
+
   private setupArrayTypeParsers() {
-    // Define array type parsers for all base types
-    // Boolean array
-    this.setTypeParser(PgTypeId.BOOL_ARRAY, val =>
-      parsePostgresArray(val, this.getTypeParser(PgTypeId.BOOL)));
-
-    // Integer arrays
-    this.setTypeParser(PgTypeId.INT2_ARRAY, val =>
-      parsePostgresArray(val, this.getTypeParser(PgTypeId.INT2)));
-    this.setTypeParser(PgTypeId.INT4_ARRAY, val =>
-      parsePostgresArray(val, this.getTypeParser(PgTypeId.INT4)));
-    this.setTypeParser(PgTypeId.INT8_ARRAY, val =>
-      parsePostgresArray(val, this.getTypeParser(PgTypeId.INT8)));
-
-    // Floating point arrays
-    this.setTypeParser(PgTypeId.FLOAT4_ARRAY, val =>
-      parsePostgresArray(val, this.getTypeParser(PgTypeId.FLOAT4)));
-    this.setTypeParser(PgTypeId.FLOAT8_ARRAY, val =>
-      parsePostgresArray(val, this.getTypeParser(PgTypeId.FLOAT8)));
-    this.setTypeParser(PgTypeId.NUMERIC_ARRAY, val =>
-      parsePostgresArray(val, this.getTypeParser(PgTypeId.NUMERIC)));
-
-    // Text arrays
-    this.setTypeParser(PgTypeId.TEXT_ARRAY, val =>
-      parsePostgresArray(val, this.getTypeParser(PgTypeId.TEXT)));
-    this.setTypeParser(PgTypeId.VARCHAR_ARRAY, val =>
-      parsePostgresArray(val, this.getTypeParser(PgTypeId.VARCHAR)));
-
-    // JSON arrays
-    this.setTypeParser(PgTypeId.JSON_ARRAY, val =>
-      parsePostgresArray(val, this.getTypeParser(PgTypeId.JSON)));
-    this.setTypeParser(PgTypeId.JSONB_ARRAY, val =>
-      parsePostgresArray(val, this.getTypeParser(PgTypeId.JSONB)));
-
-    // Date/Time arrays
-    this.setTypeParser(PgTypeId.DATE_ARRAY, val =>
-      parsePostgresArray(val, this.getTypeParser(PgTypeId.DATE)));
-    this.setTypeParser(PgTypeId.TIMESTAMP_ARRAY, val =>
-      parsePostgresArray(val, this.getTypeParser(PgTypeId.TIMESTAMP)));
-    this.setTypeParser(PgTypeId.TIMESTAMPTZ_ARRAY, val =>
-      parsePostgresArray(val, this.getTypeParser(PgTypeId.TIMESTAMPTZ)));
-
-    // UUID array
-    this.setTypeParser(PgTypeId.UUID_ARRAY, val =>
-      parsePostgresArray(val, this.getTypeParser(PgTypeId.UUID)));
+    // Register an array parser for every built-in type that has an array type.
+    // The element parser is looked up on each call so later overrides are honoured.
+    for (const info of PG_TYPE_CATALOG) {
+      if (info.arrayOid === 0) continue;
+      const elementTypeId = info.oid;
+      this.setTypeParser(info.arrayOid, val =>
+        parsePostgresArray(val, this.getTypeParser(elementTypeId), info.delimiter));
+    }
   }
 
   public setTypeParser(typeId: number, parseFn: (value: string) => any): void {
     this.parsers[typeId] = parseFn;
   }
 
+  // Register a parser by type name (e.g. 'hstore' or 'public.mood'). Built-in names are bound
+  // immediately; other names are bound when their OID is discovered (see client.loadTypes()).
+  public setTypeParserByName(typeName: string, parseFn: (value: string) => any): void {
+    this.nameParsers[typeName] = parseFn;
+    const typeId = this.getTypeIdByName(typeName);
+    if (typeId) {
+      this.setTypeParser(typeId, parseFn);
+    }
+  }
+
+  // Record the OID of a database-specific type and apply any parser registered for its name
+  public registerTypeName(typeName: string, typeId: number): void {
+    this.typeIds[typeName] = typeId;
+    const parseFn = this.nameParsers[typeName];
+    if (parseFn) {
+      this.setTypeParser(typeId, parseFn);
+    }
+  }
+
+  // Resolve a type name to its OID using discovered types, then the built-in catalog
+  public getTypeIdByName(typeName: string): number | undefined {
+    return this.typeIds[typeName] ?? getTypeInfoByName(typeName)?.oid;
+  }
+
   public getTypeParser(typeId: number): (value: string) => any {
     // If we're asked for a parser for an array type that doesn't have one explicitly defined,
     // create an array parser dynamically using the element type parser
@@ -230,7 +192,8 @@ export class TypeParser {
       const elementTypeId = getElementTypeId(typeId);
       if (elementTypeId) {
         const elementParser = this.getTypeParser(elementTypeId);
-        return (value: string) => parsePostgresArray(value, elementParser);
+        const delimiter = getArrayDelimiter(typeId);
+        return (value: string) => parsePostgresArray(value, elementParser, delimiter);
       }
     }
 
@@ -239,109 +202,193 @@ export class TypeParser {
 }
 
 
-/**
- * Parse a PostgreSQL array string into a JavaScript array
- * This handles various array types and dimensions using the appropriate element parser
- */
-export function parsePostgresArray(arrayString: string, elementParser: (value: string) => any): any[] {
-  if (!arrayString || arrayString === '{}') return [];
-  if (arrayString[0] !== '{' || arrayString[arrayString.length - 1] !== '}') {
-    throw new Error(`Invalid PostgreSQL array format: ${arrayString}`);
-  }
-
-  // Extract the content inside the outer braces
-  const content = arrayString.substring(1, arrayString.length - 1);
+// Whitespace as recognized by PostgreSQL's array input (scanner_isspace)
+function isArrayWhitespace(code: number): boolean {
+  return code === 0x20 || (code >= 0x09 && code <= 0x0d);
+}
 
-  // Quick return for empty arrays
-  if (!content) return [];
+// Dimension decoration such as [1:3] or [0:1][1:2], followed by '='
+const ARRAY_DIMENSIONS = /^(?:\[\s*[+-]?\d+\s*:\s*[+-]?\d+\s*\]\s*)+$/;
 
-  const result: any[] = [];
-  let inQuotes = false;
-  let inEscape = false;
-  let currentItem = '';
-  let nestLevel = 0;
-
-  // Process each character to handle quotes, escapes, and nested arrays
-  for (let i = 0; i < content.length; i++) {
-    const char = content[i];
-
-    // Handle escape sequences
-    if (inEscape) {
-      currentItem += char;
-      inEscape = false;
-      continue;
-    }
+/**
+ * Parse a PostgreSQL array literal following the array_in() rules:
+ * - an optional dimension decoration ([0:2]={1,2,3}) is accepted and the bounds are dropped
+ * - elements are separated by the type's delimiter (',' for every built-in type except box)
+ * - whitespace around elements is ignored, whitespace inside quotes or escaped is kept
+ * - a backslash escapes the next character, inside or outside double quotes
+ * - an unquoted NULL (any case) is SQL NULL, while "NULL" and "" are strings
+ * Elements are passed to `elementParser`; nested braces produce nested JS arrays.
+ */
+export function parsePostgresArray(
+  arrayString: string,
+  elementParser: (value: string) => any,
+  delimiter: string = ','
+): any[] {
+  const text = arrayString;
+  const length = text.length;
+  const delimiterCode = delimiter.charCodeAt(0);
+  let i = 0;
+
+  const fail = (reason: string): never => {
+    throw new Error(`Invalid PostgreSQL array format: ${arrayString} (${reason} at position ${i})`);
+  };
 
-    // Start of escape sequence
-    if (char === '\\') {
-      inEscape = true;
-      continue;
-    }
+  const skipWhitespace = () => {
+    while (i < length && isArrayWhitespace(text.charCodeAt(i))) i++;
+  };
 
-    // Toggle quote mode when we see a quote
-    if (char === '"') {
-      inQuotes = !inQuotes;
-      continue;
+  // Read one element starting at a non-whitespace character that is not '{'
+  const readElement = (): any => {
+    // Fast path: unquoted element without escapes, e.g. 42 or foo bar
+    const start = i;
+    let end = i;
+    for (; end < length; end++) {
+      const code = text.charCodeAt(end);
+      if (code === delimiterCode || code === 0x7d /* } */) break;
+      if (code === 0x22 /* " */ || code === 0x5c /* \ */ || code === 0x7b /* { */) {
+        end = -1;
+        break;
+      }
     }
-
-    // Track nesting level for nested arrays
-    if (char === '{') {
-      nestLevel++;
-      currentItem += char;
-      continue;
+    if (end !== -1 && end < length) {
+      let last = end;
+      while (last > start && isArrayWhitespace(text.charCodeAt(last - 1))) last--;
+      i = end;
+      if (last === start) fail('empty element');
+      const value = text.slice(start, last);
+      return value.length === 4 && value.toUpperCase() === 'NULL' ? null : elementParser(value);
     }
 
-    if (char === '}') {
-      nestLevel--;
-      currentItem += char;
-      continue;
+    // Slow path: quoted sections and escapes
+    let value = '';
+    let literal = false; // Quoted or escaped characters make the element a non-NULL value
+    let inQuotes = false;
+    let trailingWhitespace = -1; // Where unquoted trailing whitespace starts in value
+    for (; i < length; i++) {
+      const char = text[i]!;
+      if (char === '\\') {
+        if (++i >= length) break;
+        value += text[i];
+        literal = true;
+        trailingWhitespace = -1;
+      } else if (char === '"') {
+        inQuotes = !inQuotes;
+        literal = true;
+        trailingWhitespace = -1;
+      } else if (inQuotes) {
+        value += char;
+      } else if (char === delimiter || char === '}') {
+        break;
+      } else if (char === '{') {
+        fail('unexpected "{"');
+      } else {
+        if (!isArrayWhitespace(char.charCodeAt(0))) {
+          trailingWhitespace = -1;
+        } else if (trailingWhitespace === -1) {
+          trailingWhitespace = value.length;
+        }
+        value += char;
+      }
     }
+    if (inQuotes || i >= length) fail('unterminated element');
+    if (trailingWhitespace !== -1) value = value.slice(0, trailingWhitespace);
+    if (!literal && value === '') fail('empty element');
+    return !literal && value.toUpperCase() === 'NULL' ? null : elementParser(value);
+  };
 
-    // If we're inside quotes or a nested array, add the character to current item
-    if (inQuotes || nestLevel > 0) {
-      currentItem += char;
-      continue;
+  // Read one brace-enclosed level starting at '{'
+  const readLevel = (): any[] => {
+    i++; // '{'
+    const items: any[] = [];
+    skipWhitespace();
+    if (text[i] === '}') {
+      i++;
+      return items;
     }
 
-    // Handle item separator (comma)
-    if (char === ',') {
-      // Process the completed item
-      result.push(parseArrayItem(currentItem, elementParser));
-      currentItem = '';
-      continue;
+    let nested: boolean | undefined;
+    for (;;) {
+      skipWhitespace();
+      const isNested = text[i] === '{';
+      // Sub-arrays and elements cannot be mixed within one dimension
+      if (nested !== undefined && nested !== isNested) fail('mixed dimensions');
+      nested = isNested;
+      items.push(isNested ? readLevel() : readElement());
+
+      skipWhitespace();
+      if (i >= length) fail('unterminated array');
+      const char = text[i];
+      i++;
+      if (char === '}') return items;
+      if (char !== delimiter) fail(`expected "${delimiter}" or "}"`);
     }
+  };
 
-    // Normal character, add to current item
-    currentItem += char;
-  }
-
-  // Add the last item if there is one
-  if (currentItem) {
-    result.push(parseArrayItem(currentItem, elementParser));
+  skipWhitespace();
+  if (text[i] === '[') {
+    const equals = text.indexOf('=', i);
+    if (equals === -1 || !ARRAY_DIMENSIONS.test(text.slice(i, equals))) fail('malformed dimensions');
+    i = equals + 1;
+    skipWhitespace();
   }
+  if (text[i] !== '{') fail('expected "{"');
 
+  const result = readLevel();
+  skipWhitespace();
+  if (i < length) fail('junk after closing brace');
   return result;
 }
 
 /**
- * Parse a single item from a PostgreSQL array
+ * Parse the text form of a composite (row) value, e.g. (1,"a b",,"x""y"),
+ * into its raw field strings; an empty unquoted field is NULL
  */
-export function parseArrayItem(item: string, elementParser: (value: string) => any): any {
-  // Trim whitespace
-  item = item.trim();
-
-  // Handle NULL values
-  if (item === 'NULL' || item === '') {
-    return null;
+export function parsePostgresRecord(recordString: string): (string | null)[] {
+  if (recordString[0] !== '(' || recordString[recordString.length - 1] !== ')') {
+    throw new Error(`Invalid PostgreSQL record format: ${recordString}`);
   }
 
-  // Handle nested arrays recursively
-  if (item[0] === '{' && item[item.length - 1] === '}') {
-    return parsePostgresArray(item, elementParser);
+  const fields: (string | null)[] = [];
+  let current = '';
+  let quoted = false; // Whether the current field contained a quoted section
+  let inQuotes = false;
+
+  for (let i = 1; i < recordString.length - 1; i++) {
+    const char = recordString[i];
+
+    if (inQuotes) {
+      if (char === '\\') {
+        current += recordString[++i] ?? '';
+      } else if (char === '"') {
+        // A doubled quote inside quotes is a literal quote
+        if (recordString[i + 1] === '"') {
+          current += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        current += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(current === '' && !quoted ? null : current);
+      current = '';
+      quoted = false;
+    } else if (char === '\\') {
+      current += recordString[++i] ?? '';
+    } else {
+      current += char;
+    }
   }
 
-  // Parse normal values using the element parser
-  return elementParser(item);
+  fields.push(current === '' && !quoted ? null : current);
+  return fields;
 }
 
 // Process raw query results to apply type parsing
@@ -355,23 +402,9 @@ export function processQueryResult(
   const fields = result.fields || [];
   const rowsData = result.rows || [];
 
-  // Create parsers for each column based on its data type
-  const parsers = fields.map((field: { dataTypeID: number }) => {
-    const typeId = field.dataTypeID;
-
-    // If it's an array type, create a special parser that handles the array format
-    // and applies the element type parser to each item
-    if (isArrayType(typeId)) {
-      const elementTypeId = getElementTypeId(typeId);
-      const elementParser = typeParser.getTypeParser(elementTypeId);
-
-      // Return a function that parses the PostgreSQL array format
-      return (value: string) => parsePostgresArray(value, elementParser);
-    }
-
-    // For non-array types, use the normal type parser
-    return typeParser.getTypeParser(typeId);
-  });
+  // Create parsers for each column based on its data type; array types resolve
+  // to array parsers that apply the element type parser to each item
+  const parsers = fields.map((field: { dataTypeID: number }) => typeParser.getTypeParser(field.dataTypeID));
 
   // Extract column names
   const colNames = fields.map((field: { name: string }) => field.name);
@@ -0,0 +1,342 @@
+/**
+ * Built-in PostgreSQL types, generated by scripts/gen-pg-types.js from pg_type and pg_range.
+ * Do not edit by hand: run `npm run gen:pg-types` against a PostgreSQL server instead.
+ */
+
+import type { PgTypeCategory, PgTypeInfo } from './pg-types';
+
+// PostgreSQL Data Types IDs
+export enum PgTypeId {
+  BOOL = 16,
+  BYTEA = 17,
+  CHAR = 18,
+  NAME = 19,
+  INT8 = 20,
+  INT2 = 21,
+  INT2VECTOR = 22,
+  INT4 = 23,
+  REGPROC = 24,
+  TEXT = 25,
+  OID = 26,
+  TID = 27,
+  XID = 28,
+  CID = 29,
+  OIDVECTOR = 30,
+  PG_DDL_COMMAND = 32,
+  PG_TYPE = 71,
+  PG_ATTRIBUTE = 75,
+  PG_PROC = 81,
+  PG_CLASS = 83,
+  JSON = 114,
+  XML = 142,
+  PG_NODE_TREE = 194,
+  TABLE_AM_HANDLER = 269,
+  INDEX_AM_HANDLER = 325,
+  POINT = 600,
+  LSEG = 601,
+  PATH = 602,
+  BOX = 603,
+  POLYGON = 604,
+  LINE = 628,
+  CIDR = 650,
+  FLOAT4 = 700,
+  FLOAT8 = 701,
+  ABSTIME = 702,  // Removed in PostgreSQL 12
+  RELTIME = 703,  // Removed in PostgreSQL 12
+  TINTERVAL = 704,  // Removed in PostgreSQL 12
+  UNKNOWN = 705,
+  CIRCLE = 718,
+  MACADDR8 = 774,
+  MONEY = 790,
+  MACADDR = 829,
+  INET = 869,
+  ACLITEM = 1033,
+  BPCHAR = 1042,
+  VARCHAR = 1043,
+  DATE = 1082,
+  TIME = 1083,
+  TIMESTAMP = 1114,
+  TIMESTAMPTZ = 1184,
+  INTERVAL = 1186,
+  TIMETZ = 1266,
+  BIT = 1560,
+  VARBIT = 1562,
+  NUMERIC = 1700,
+  REFCURSOR = 1790,
+  REGPROCEDURE = 2202,
+  REGOPER = 2203,
+  REGOPERATOR = 2204,
+  REGCLASS = 2205,
+  REGTYPE = 2206,
+  RECORD = 2249,
+  CSTRING = 2275,
+  ANY = 2276,
+  ANYARRAY = 2277,
+  VOID = 2278,
+  TRIGGER = 2279,
+  LANGUAGE_HANDLER = 2280,
+  INTERNAL = 2281,
+  ANYELEMENT = 2283,
+  ANYNONARRAY = 2776,
+  UUID = 2950,
+  TXID_SNAPSHOT = 2970,
+  FDW_HANDLER = 3115,
+  PG_LSN = 3220,
+  TSM_HANDLER = 3310,
+  PG_NDISTINCT = 3361,
+  PG_DEPENDENCIES = 3402,
+  ANYENUM = 3500,
+  TSVECTOR = 3614,
+  TSQUERY = 3615,
+  GTSVECTOR = 3642,
+  REGCONFIG = 3734,
+  REGDICTIONARY = 3769,
+  JSONB = 3802,
+  ANYRANGE = 3831,
+  EVENT_TRIGGER = 3838,
+  INT4RANGE = 3904,
+  NUMRANGE = 3906,
+  TSRANGE = 3908,
+  TSTZRANGE = 3910,
+  DATERANGE = 3912,
+  INT8RANGE = 3926,
+  JSONPATH = 4072,
+  REGNAMESPACE = 4089,
+  REGROLE = 4096,
+  REGCOLLATION = 4191,
+  INT4MULTIRANGE = 4451,
+  NUMMULTIRANGE = 4532,
+  TSMULTIRANGE = 4533,
+  TSTZMULTIRANGE = 4534,
+  DATEMULTIRANGE = 4535,
+  INT8MULTIRANGE = 4536,
+  ANYMULTIRANGE = 4537,
+  ANYCOMPATIBLEMULTIRANGE = 4538,
+  PG_BRIN_BLOOM_SUMMARY = 4600,
+  PG_BRIN_MINMAX_MULTI_SUMMARY = 4601,
+  PG_MCV_LIST = 5017,
+  PG_SNAPSHOT = 5038,
+  XID8 = 5069,
+  ANYCOMPATIBLE = 5077,
+  ANYCOMPATIBLEARRAY = 5078,
+  ANYCOMPATIBLENONARRAY = 5079,
+  ANYCOMPATIBLERANGE = 5080,
+
+  // Array types
+  XML_ARRAY = 143,
+  JSON_ARRAY = 199,
+  PG_TYPE_ARRAY = 210,
+  PG_ATTRIBUTE_ARRAY = 270,
+  XID8_ARRAY = 271,
+  PG_PROC_ARRAY = 272,
+  PG_CLASS_ARRAY = 273,
+  LINE_ARRAY = 629,
+  CIDR_ARRAY = 651,
+  CIRCLE_ARRAY = 719,
+  MACADDR8_ARRAY = 775,
+  MONEY_ARRAY = 791,
+  BOOL_ARRAY = 1000,
+  BYTEA_ARRAY = 1001,
+  CHAR_ARRAY = 1002,
+  NAME_ARRAY = 1003,
+  INT2_ARRAY = 1005,
+  INT2VECTOR_ARRAY = 1006,
+  INT4_ARRAY = 1007,
+  REGPROC_ARRAY = 1008,
+  TEXT_ARRAY = 1009,
+  TID_ARRAY = 1010,
+  XID_ARRAY = 1011,
+  CID_ARRAY = 1012,
+  OIDVECTOR_ARRAY = 1013,
+  BPCHAR_ARRAY = 1014,
+  VARCHAR_ARRAY = 1015,
+  INT8_ARRAY = 1016,
+  POINT_ARRAY = 1017,
+  LSEG_ARRAY = 1018,
+  PATH_ARRAY = 1019,
+  BOX_ARRAY = 1020,
+  FLOAT4_ARRAY = 1021,
+  FLOAT8_ARRAY = 1022,
+  ABSTIME_ARRAY = 1023,  // Removed in PostgreSQL 12
+  RELTIME_ARRAY = 1024,  // Removed in PostgreSQL 12
+  TINTERVAL_ARRAY = 1025,  // Removed in PostgreSQL 12
+  POLYGON_ARRAY = 1027,
+  OID_ARRAY = 1028,
+  ACLITEM_ARRAY = 1034,
+  MACADDR_ARRAY = 1040,
+  INET_ARRAY = 1041,
+  TIMESTAMP_ARRAY = 1115,
+  DATE_ARRAY = 1182,
+  TIME_ARRAY = 1183,
+  TIMESTAMPTZ_ARRAY = 1185,
+  INTERVAL_ARRAY = 1187,
+  NUMERIC_ARRAY = 1231,
+  CSTRING_ARRAY = 1263,
+  TIMETZ_ARRAY = 1270,
+  BIT_ARRAY = 1561,
+  VARBIT_ARRAY = 1563,
+  REFCURSOR_ARRAY = 2201,
+  REGPROCEDURE_ARRAY = 2207,
+  REGOPER_ARRAY = 2208,
+  REGOPERATOR_ARRAY = 2209,
+  REGCLASS_ARRAY = 2210,
+  REGTYPE_ARRAY = 2211,
+  RECORD_ARRAY = 2287,
+  TXID_SNAPSHOT_ARRAY = 2949,
+  UUID_ARRAY = 2951,
+  PG_LSN_ARRAY = 3221,
+  TSVECTOR_ARRAY = 3643,
+  GTSVECTOR_ARRAY = 3644,
+  TSQUERY_ARRAY = 3645,
+  REGCONFIG_ARRAY = 3735,
+  REGDICTIONARY_ARRAY = 3770,
+  JSONB_ARRAY = 3807,
+  INT4RANGE_ARRAY = 3905,
+  NUMRANGE_ARRAY = 3907,
+  TSRANGE_ARRAY = 3909,
+  TSTZRANGE_ARRAY = 3911,
+  DATERANGE_ARRAY = 3913,
+  INT8RANGE_ARRAY = 3927,
+  JSONPATH_ARRAY = 4073,
+  REGNAMESPACE_ARRAY = 4090,
+  REGROLE_ARRAY = 4097,
+  REGCOLLATION_ARRAY = 4192,
+  PG_SNAPSHOT_ARRAY = 5039,
+  INT4MULTIRANGE_ARRAY = 6150,
+  NUMMULTIRANGE_ARRAY = 6151,
+  TSMULTIRANGE_ARRAY = 6152,
+  TSTZMULTIRANGE_ARRAY = 6153,
+  DATEMULTIRANGE_ARRAY = 6155,
+  INT8MULTIRANGE_ARRAY = 6157,
+}
+
+function type(oid: number, name: string, arrayOid: number, category: PgTypeCategory, delimiter = ','): PgTypeInfo {
+  return { oid, name, arrayOid, category, delimiter };
+}
+
+export const PG_TYPE_CATALOG: readonly PgTypeInfo[] = [
+  type(PgTypeId.BOOL, 'bool', PgTypeId.BOOL_ARRAY, 'B'),
+  type(PgTypeId.BYTEA, 'bytea', PgTypeId.BYTEA_ARRAY, 'U'),
+  type(PgTypeId.CHAR, 'char', PgTypeId.CHAR_ARRAY, 'Z'),
+  type(PgTypeId.NAME, 'name', PgTypeId.NAME_ARRAY, 'S'),
+  type(PgTypeId.INT8, 'int8', PgTypeId.INT8_ARRAY, 'N'),
+  type(PgTypeId.INT2, 'int2', PgTypeId.INT2_ARRAY, 'N'),
+  type(PgTypeId.INT2VECTOR, 'int2vector', PgTypeId.INT2VECTOR_ARRAY, 'A'),
+  type(PgTypeId.INT4, 'int4', PgTypeId.INT4_ARRAY, 'N'),
+  type(PgTypeId.REGPROC, 'regproc', PgTypeId.REGPROC_ARRAY, 'N'),
+  type(PgTypeId.TEXT, 'text', PgTypeId.TEXT_ARRAY, 'S'),
+  type(PgTypeId.OID, 'oid', PgTypeId.OID_ARRAY, 'N'),
+  type(PgTypeId.TID, 'tid', PgTypeId.TID_ARRAY, 'U'),
+  type(PgTypeId.XID, 'xid', PgTypeId.XID_ARRAY, 'U'),
+  type(PgTypeId.CID, 'cid', PgTypeId.CID_ARRAY, 'U'),
+  type(PgTypeId.OIDVECTOR, 'oidvector', PgTypeId.OIDVECTOR_ARRAY, 'A'),
+  type(PgTypeId.PG_DDL_COMMAND, 'pg_ddl_command', 0, 'P'),
+  type(PgTypeId.PG_TYPE, 'pg_type', PgTypeId.PG_TYPE_ARRAY, 'C'),
+  type(PgTypeId.PG_ATTRIBUTE, 'pg_attribute', PgTypeId.PG_ATTRIBUTE_ARRAY, 'C'),
+  type(PgTypeId.PG_PROC, 'pg_proc', PgTypeId.PG_PROC_ARRAY, 'C'),
+  type(PgTypeId.PG_CLASS, 'pg_class', PgTypeId.PG_CLASS_ARRAY, 'C'),
+  type(PgTypeId.JSON, 'json', PgTypeId.JSON_ARRAY, 'U'),
+  type(PgTypeId.XML, 'xml', PgTypeId.XML_ARRAY, 'U'),
+  type(PgTypeId.PG_NODE_TREE, 'pg_node_tree', 0, 'Z'),
+  type(PgTypeId.TABLE_AM_HANDLER, 'table_am_handler', 0, 'P'),
+  type(PgTypeId.INDEX_AM_HANDLER, 'index_am_handler', 0, 'P'),
+  type(PgTypeId.POINT, 'point', PgTypeId.POINT_ARRAY, 'G'),
+  type(PgTypeId.LSEG, 'lseg', PgTypeId.LSEG_ARRAY, 'G'),
+  type(PgTypeId.PATH, 'path', PgTypeId.PATH_ARRAY, 'G'),
+  type(PgTypeId.BOX, 'box', PgTypeId.BOX_ARRAY, 'G', ';'),
+  type(PgTypeId.POLYGON, 'polygon', PgTypeId.POLYGON_ARRAY, 'G'),
+  type(PgTypeId.LINE, 'line', PgTypeId.LINE_ARRAY, 'G'),
+  type(PgTypeId.CIDR, 'cidr', PgTypeId.CIDR_ARRAY, 'I'),
+  type(PgTypeId.FLOAT4, 'float4', PgTypeId.FLOAT4_ARRAY, 'N'),
+  type(PgTypeId.FLOAT8, 'float8', PgTypeId.FLOAT8_ARRAY, 'N'),
+  type(PgTypeId.ABSTIME, 'abstime', PgTypeId.ABSTIME_ARRAY, 'D'),
+  type(PgTypeId.RELTIME, 'reltime', PgTypeId.RELTIME_ARRAY, 'T'),
+  type(PgTypeId.TINTERVAL, 'tinterval', PgTypeId.TINTERVAL_ARRAY, 'T'),
+  type(PgTypeId.UNKNOWN, 'unknown', 0, 'X'),
+  type(PgTypeId.CIRCLE, 'circle', PgTypeId.CIRCLE_ARRAY, 'G'),
+  type(PgTypeId.MACADDR8, 'macaddr8', PgTypeId.MACADDR8_ARRAY, 'U'),
+  type(PgTypeId.MONEY, 'money', PgTypeId.MONEY_ARRAY, 'N'),
+  type(PgTypeId.MACADDR, 'macaddr', PgTypeId.MACADDR_ARRAY, 'U'),
+  type(PgTypeId.INET, 'inet', PgTypeId.INET_ARRAY, 'I'),
+  type(PgTypeId.ACLITEM, 'aclitem', PgTypeId.ACLITEM_ARRAY, 'U'),
+  type(PgTypeId.BPCHAR, 'bpchar', PgTypeId.BPCHAR_ARRAY, 'S'),
+  type(PgTypeId.VARCHAR, 'varchar', PgTypeId.VARCHAR_ARRAY, 'S'),
+  type(PgTypeId.DATE, 'date', PgTypeId.DATE_ARRAY, 'D'),
+  type(PgTypeId.TIME, 'time', PgTypeId.TIME_ARRAY, 'D'),
+  type(PgTypeId.TIMESTAMP, 'timestamp', PgTypeId.TIMESTAMP_ARRAY, 'D'),
+  type(PgTypeId.TIMESTAMPTZ, 'timestamptz', PgTypeId.TIMESTAMPTZ_ARRAY, 'D'),
+  type(PgTypeId.INTERVAL, 'interval', PgTypeId.INTERVAL_ARRAY, 'T'),
+  type(PgTypeId.TIMETZ, 'timetz', PgTypeId.TIMETZ_ARRAY, 'D'),
+  type(PgTypeId.BIT, 'bit', PgTypeId.BIT_ARRAY, 'V'),
+  type(PgTypeId.VARBIT, 'varbit', PgTypeId.VARBIT_ARRAY, 'V'),
+  type(PgTypeId.NUMERIC, 'numeric', PgTypeId.NUMERIC_ARRAY, 'N'),
+  type(PgTypeId.REFCURSOR, 'refcursor', PgTypeId.REFCURSOR_ARRAY, 'U'),
+  type(PgTypeId.REGPROCEDURE, 'regprocedure', PgTypeId.REGPROCEDURE_ARRAY, 'N'),
+  type(PgTypeId.REGOPER, 'regoper', PgTypeId.REGOPER_ARRAY, 'N'),
+  type(PgTypeId.REGOPERATOR, 'regoperator', PgTypeId.REGOPERATOR_ARRAY, 'N'),
+  type(PgTypeId.REGCLASS, 'regclass', PgTypeId.REGCLASS_ARRAY, 'N'),
+  type(PgTypeId.REGTYPE, 'regtype', PgTypeId.REGTYPE_ARRAY, 'N'),
+  type(PgTypeId.RECORD, 'record', PgTypeId.RECORD_ARRAY, 'P'),
+  type(PgTypeId.CSTRING, 'cstring', PgTypeId.CSTRING_ARRAY, 'P'),
+  type(PgTypeId.ANY, 'any', 0, 'P'),
+  type(PgTypeId.ANYARRAY, 'anyarray', 0, 'P'),
+  type(PgTypeId.VOID, 'void', 0, 'P'),
+  type(PgTypeId.TRIGGER, 'trigger', 0, 'P'),
+  type(PgTypeId.LANGUAGE_HANDLER, 'language_handler', 0, 'P'),
+  type(PgTypeId.INTERNAL, 'internal', 0, 'P'),
+  type(PgTypeId.ANYELEMENT, 'anyelement', 0, 'P'),
+  type(PgTypeId.ANYNONARRAY, 'anynonarray', 0, 'P'),
+  type(PgTypeId.UUID, 'uuid', PgTypeId.UUID_ARRAY, 'U'),
+  type(PgTypeId.TXID_SNAPSHOT, 'txid_snapshot', PgTypeId.TXID_SNAPSHOT_ARRAY, 'U'),
+  type(PgTypeId.FDW_HANDLER, 'fdw_handler', 0, 'P'),
+  type(PgTypeId.PG_LSN, 'pg_lsn', PgTypeId.PG_LSN_ARRAY, 'U'),
+  type(PgTypeId.TSM_HANDLER, 'tsm_handler', 0, 'P'),
+  type(PgTypeId.PG_NDISTINCT, 'pg_ndistinct', 0, 'Z'),
+  type(PgTypeId.PG_DEPENDENCIES, 'pg_dependencies', 0, 'Z'),
+  type(PgTypeId.ANYENUM, 'anyenum', 0, 'P'),
+  type(PgTypeId.TSVECTOR, 'tsvector', PgTypeId.TSVECTOR_ARRAY, 'U'),
+  type(PgTypeId.TSQUERY, 'tsquery', PgTypeId.TSQUERY_ARRAY, 'U'),
+  type(PgTypeId.GTSVECTOR, 'gtsvector', PgTypeId.GTSVECTOR_ARRAY, 'U'),
+  type(PgTypeId.REGCONFIG, 'regconfig', PgTypeId.REGCONFIG_ARRAY, 'N'),
+  type(PgTypeId.REGDICTIONARY, 'regdictionary', PgTypeId.REGDICTIONARY_ARRAY, 'N'),
+  type(PgTypeId.JSONB, 'jsonb', PgTypeId.JSONB_ARRAY, 'U'),
+  type(PgTypeId.ANYRANGE, 'anyrange', 0, 'P'),
+  type(PgTypeId.EVENT_TRIGGER, 'event_trigger', 0, 'P'),
+  type(PgTypeId.INT4RANGE, 'int4range', PgTypeId.INT4RANGE_ARRAY, 'R'),
+  type(PgTypeId.NUMRANGE, 'numrange', PgTypeId.NUMRANGE_ARRAY, 'R'),
+  type(PgTypeId.TSRANGE, 'tsrange', PgTypeId.TSRANGE_ARRAY, 'R'),
+  type(PgTypeId.TSTZRANGE, 'tstzrange', PgTypeId.TSTZRANGE_ARRAY, 'R'),
+  type(PgTypeId.DATERANGE, 'daterange', PgTypeId.DATERANGE_ARRAY, 'R'),
+  type(PgTypeId.INT8RANGE, 'int8range', PgTypeId.INT8RANGE_ARRAY, 'R'),
+  type(PgTypeId.JSONPATH, 'jsonpath', PgTypeId.JSONPATH_ARRAY, 'U'),
+  type(PgTypeId.REGNAMESPACE, 'regnamespace', PgTypeId.REGNAMESPACE_ARRAY, 'N'),
+  type(PgTypeId.REGROLE, 'regrole', PgTypeId.REGROLE_ARRAY, 'N'),
+  type(PgTypeId.REGCOLLATION, 'regcollation', PgTypeId.REGCOLLATION_ARRAY, 'N'),
+  type(PgTypeId.INT4MULTIRANGE, 'int4multirange', PgTypeId.INT4MULTIRANGE_ARRAY, 'R'),
+  type(PgTypeId.NUMMULTIRANGE, 'nummultirange', PgTypeId.NUMMULTIRANGE_ARRAY, 'R'),
+  type(PgTypeId.TSMULTIRANGE, 'tsmultirange', PgTypeId.TSMULTIRANGE_ARRAY, 'R'),
+  type(PgTypeId.TSTZMULTIRANGE, 'tstzmultirange', PgTypeId.TSTZMULTIRANGE_ARRAY, 'R'),
+  type(PgTypeId.DATEMULTIRANGE, 'datemultirange', PgTypeId.DATEMULTIRANGE_ARRAY, 'R'),
+  type(PgTypeId.INT8MULTIRANGE, 'int8multirange', PgTypeId.INT8MULTIRANGE_ARRAY, 'R'),
+  type(PgTypeId.ANYMULTIRANGE, 'anymultirange', 0, 'P'),
+  type(PgTypeId.ANYCOMPATIBLEMULTIRANGE, 'anycompatiblemultirange', 0, 'P'),
+  type(PgTypeId.PG_BRIN_BLOOM_SUMMARY, 'pg_brin_bloom_summary', 0, 'Z'),
+  type(PgTypeId.PG_BRIN_MINMAX_MULTI_SUMMARY, 'pg_brin_minmax_multi_summary', 0, 'Z'),
+  type(PgTypeId.PG_MCV_LIST, 'pg_mcv_list', 0, 'Z'),
+  type(PgTypeId.PG_SNAPSHOT, 'pg_snapshot', PgTypeId.PG_SNAPSHOT_ARRAY, 'U'),
+  type(PgTypeId.XID8, 'xid8', PgTypeId.XID8_ARRAY, 'U'),
+  type(PgTypeId.ANYCOMPATIBLE, 'anycompatible', 0, 'P'),
+  type(PgTypeId.ANYCOMPATIBLEARRAY, 'anycompatiblearray', 0, 'P'),
+  type(PgTypeId.ANYCOMPATIBLENONARRAY, 'anycompatiblenonarray', 0, 'P'),
+  type(PgTypeId.ANYCOMPATIBLERANGE, 'anycompatiblerange', 0, 'P'),
+];
+
+// Built-in range types: range OID, multirange OID and subtype OID
+export const RANGE_TYPES: readonly { rangeOid: number; multirangeOid: number; subtypeOid: number }[] = [
+  { rangeOid: PgTypeId.INT4RANGE, multirangeOid: PgTypeId.INT4MULTIRANGE, subtypeOid: PgTypeId.INT4 },
+  { rangeOid: PgTypeId.NUMRANGE, multirangeOid: PgTypeId.NUMMULTIRANGE, subtypeOid: PgTypeId.NUMERIC },
+  { rangeOid: PgTypeId.TSRANGE, multirangeOid: PgTypeId.TSMULTIRANGE, subtypeOid: PgTypeId.TIMESTAMP },
+  { rangeOid: PgTypeId.TSTZRANGE, multirangeOid: PgTypeId.TSTZMULTIRANGE, subtypeOid: PgTypeId.TIMESTAMPTZ },
+  { rangeOid: PgTypeId.DATERANGE, multirangeOid: PgTypeId.DATEMULTIRANGE, subtypeOid: PgTypeId.DATE },
+  { rangeOid: PgTypeId.INT8RANGE, multirangeOid: PgTypeId.INT8MULTIRANGE, subtypeOid: PgTypeId.INT8 },
+];
@@ -0,0 +1,81 @@
+/**
+ * Lookups over the built-in PostgreSQL types. The enum and catalog themselves are generated from
+ * pg_type and pg_range into ./pg-type-catalog by scripts/gen-pg-types.js.
+ */
+
+import { PG_TYPE_CATALOG, PgTypeId, RANGE_TYPES } from './pg-type-catalog';
+
+export { PG_TYPE_CATALOG, PgTypeId };
+
+/**
+ * pg_type.typcategory codes
+ * A array, B boolean, C composite, D date/time, E enum, G geometric, I network address,
+ * N numeric, P pseudo-type, R range, S string, T timespan, U user-defined, V bit-string,
+ * X unknown, Z internal-use
+ */
+export type PgTypeCategory =
+  'A' | 'B' | 'C' | 'D' | 'E' | 'G' | 'I' | 'N' | 'P' | 'R' | 'S' | 'T' | 'U' | 'V' | 'X' | 'Z';
+
+// One row of the type catalog
+export interface PgTypeInfo {
+  oid: number;
+  name: string;
+  arrayOid: number; // 0 if the type has no array type
+  category: PgTypeCategory;
+  delimiter: string; // Element delimiter used in the text form of arrays of this type
+}
+
+// Lookup tables derived from the catalog
+const TYPES_BY_OID = new Map<number, PgTypeInfo>(PG_TYPE_CATALOG.map(info => [info.oid, info]));
+const TYPES_BY_NAME = new Map<string, PgTypeInfo>(PG_TYPE_CATALOG.map(info => [info.name, info]));
+const ELEMENT_TYPES_BY_ARRAY_OID = new Map<number, PgTypeInfo>(
+  PG_TYPE_CATALOG.filter(info => info.arrayOid !== 0).map(info => [info.arrayOid, info])
+);
+
+// Get the catalog entry of a built-in type, or undefined for unknown OIDs
+export function getTypeInfo(typeId: number): PgTypeInfo | undefined {
+  return TYPES_BY_OID.get(typeId);
+}
+
+// Get the catalog entry of a built-in type by its pg_type name (e.g. 'int4', 'timestamptz')
+export function getTypeInfoByName(name: string): PgTypeInfo | undefined {
+  return TYPES_BY_NAME.get(name);
+}
+
+// Helper function to check if a type is a built-in array type
+export function isArrayType(typeId: number): boolean {
+  return ELEMENT_TYPES_BY_ARRAY_OID.has(typeId);
+}
+
+// Get the element type ID for an array type ID (0 if it is not a known array type)
+export function getElementTypeId(arrayTypeId: number): number {
+  return ELEMENT_TYPES_BY_ARRAY_OID.get(arrayTypeId)?.oid ?? 0;
+}
+
+// Get the array type ID for an element type ID (0 if the type has no array type)
+export function getArrayTypeId(elementTypeId: number): number {
+  return TYPES_BY_OID.get(elementTypeId)?.arrayOid ?? 0;
+}
+
+// Get the array element delimiter for an array type ID (',' for everything except box[])
+export function getArrayDelimiter(arrayTypeId: number): string {
+  return ELEMENT_TYPES_BY_ARRAY_OID.get(arrayTypeId)?.delimiter ?? ',';
+}
+
+const RANGE_SUBTYPES = new Map<number, number>(RANGE_TYPES.map(r => [r.rangeOid, r.subtypeOid]));
+const MULTIRANGE_SUBTYPES = new Map<number, number>(RANGE_TYPES.map(r => [r.multirangeOid, r.subtypeOid]));
+
+// Helper function to check if a type is a built-in range type
+export function isRangeType(typeId: number): boolean {
+  return RANGE_SUBTYPES.has(typeId);
+}
+
+// Helper function to check if a type is a built-in multirange type
+export function isMultirangeType(typeId: number): boolean {
+  return MULTIRANGE_SUBTYPES.has(typeId);
+}
+
+// Get the subtype (element) OID of a range or multirange type (0 if unknown)
+export function getRangeSubtypeId(typeId: number): number {
+  return RANGE_SUBTYPES.get(typeId) ?? MULTIRANGE_SUBTYPES.get(typeId) ?? 0;
+}
@@ -0,0 +1,88 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createPgHttpClient, LogLevel } from './index';
+import { canPrepare, statementName } from './prepared';
+import { drizzle } from '../drizzle';
+
+const mockFetch = vi.fn();
+
+const jsonResponse = (body: any, preparedStatement?: string) => new Response(JSON.stringify(body), {
+  headers: preparedStatement ? { 'X-Prepared-Statement': preparedStatement } : {},
+});
+
+const emptyResult = { command: 'SELECT', rowCount: 0, fields: [], rows: [] };
+const bodyOf = (call: number) => JSON.parse(mockFetch.mock.calls[call]![1].body);
+
+describe('statementName', () => {
+  it('should derive a stable name from the SQL text', () => {
+    const name = statementName('SELECT * FROM users WHERE id = $1');
+    expect(name).toMatch(/^ps_[0-9a-f]{16}$/);
+    expect(statementName('SELECT * FROM users WHERE id = $1')).toBe(name);
+    expect(statementName('SELECT * FROM users WHERE id = $2')).not.toBe(name);
+  });
+
+  it('should only prepare single statements', () => {
+    expect(canPrepare('SELECT 1;')).toBe(true);
+    expect(canPrepare('SELECT 1 -- done; really')).toBe(true);
+    expect(canPrepare('SELECT 1; SELECT 2')).toBe(false);
+    expect(canPrepare('  ')).toBe(false);
+  });
+});
+
+describe('prepared statements', () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+  });
+
+  const createClient = (preparedStatements?: boolean) => createPgHttpClient({
+    proxyUrl: 'https://test-proxy.com',
+    fetch: mockFetch as unknown as typeof fetch,
+    logger: { level: LogLevel.None },
+    preparedStatements,
+  });
+
+  it('should send statements with their name and count cache hits', async () => {
+    mockFetch
+      .mockResolvedValueOnce(jsonResponse(emptyResult, 'miss'))
+      .mockResolvedValueOnce(jsonResponse(emptyResult, 'hit'))
+      .mockResolvedValueOnce(jsonResponse(emptyResult, 'hit'));
+    const client = createClient(true);
+
+    await client.sql`SELECT * FROM users WHERE id = ${1}`;
+    await client.execute('SELECT * FROM users WHERE id = $1', [2]);
+    await client.query('SELECT * FROM users WHERE id = :id', { id: 3 });
+
+    const name = statementName('SELECT * FROM users WHERE id = $1');
+    expect([0, 1, 2].map(call => bodyOf(call).name)).toEqual([name, name, name]);
+    expect(client.preparedStatementStats()).toEqual({ hits: 2, misses: 1 });
+  });
+
+  it('should send statements unnamed unless enabled', async () => {
+    mockFetch.mockImplementation(async () => jsonResponse(emptyResult));
+    const client = createClient(true);
+    await client.query('SELECT 1', [], { prepare: false });
+    await client.execute('SELECT 1', [], { prepare: false });
+    await client.query('SET search_path TO app; SELECT 1');
+    await createClient().query('SELECT 1');
+    // Enabled for a single call
+    await createClient().query('SELECT 1', [], { prepare: true });
+
+    expect([0, 1, 2, 3, 4].map(call => bodyOf(call).name)).toEqual([undefined, undefined, undefined, undefined, statementName('SELECT 1')]);
+    expect(client.preparedStatementStats()).toEqual({ hits: 0, misses: 0 });
+  });
+
+  it('should name statements sent through drizzle() with preparedStatements', async () => {
+    mockFetch.mockImplementation(async () => jsonResponse(emptyResult, 'miss'));
+    const db = drizzle({
+      proxyUrl: 'https://test-proxy.com',
+      schema: {},
+      fetch: mockFetch as unknown as typeof fetch,
+      logger: { level: LogLevel.None },
+      preparedStatements: true,
+    });
+
+    await db.$client.query('SELECT * FROM users WHERE id = $1', [1]);
+
+    expect(bodyOf(0).name).toBe(statementName('SELECT * FROM users WHERE id = $1'));
+    expect(db.$client.preparedStatementStats()).toEqual({ hits: 0, misses: 1 });
+  });
+});
@@ -0,0 +1,28 @@
+// Names for the statements the proxy keeps prepared on its connections. A name is derived from
+// the SQL text alone, so every client and every request uses the same name for a statement; the
+// proxy runs a statement unnamed when another text already has its name.
+
+// Statements made of more than one command can't be prepared; a semicolon inside a string
+// literal also counts, which only means that statement is sent unnamed
+export function canPrepare(queryText: string): boolean {
+  const text = queryText
+    .replace(/\/\*[\s\S]*?\*\//g, ' ')
+    .replace(/--[^\n]*/g, ' ')
+    .replace(/;\s*$/, '');
+  return text.trim() !== '' && !text.includes(';');
+}
+
+// ps_ followed by a 64-bit hash of the text (two multiplicative 32-bit hashes, mixed at the end)
+export function statementName(queryText: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < queryText.length; i++) {
+    const code = queryText.charCodeAt(i);
+    h1 = Math.imul(h1 ^ code, 2654435761);
+    h2 = Math.imul(h2 ^ code, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  const hex = (value: number) => (value >>> 0).toString(16).padStart(8, '0');
+  return `ps_${hex(h1)}${hex(h2)}`;
+}
@@ -0,0 +1,111 @@
+import { describe, it, expect, vi, beforeEach, expectTypeOf } from 'vitest';
+import { createPgHttpClient, LogLevel, PgError } from './index';
+
+const mockFetch = vi.fn();
+
+const jsonResponse = (body: any) => ({
+  ok: true,
+  status: 200,
+  statusText: 'OK',
+  headers: new Headers(),
+  json: async () => body,
+}) as unknown as Response;
+
+const usersResult = (rows: string[][]) => ({
+  command: 'SELECT',
+  rowCount: rows.length,
+  fields: [{ name: 'id', dataTypeID: 23 }, { name: 'name', dataTypeID: 25 }],
+  rows,
+});
+
+describe('QueryPromise', () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+  });
+
+  const createClient = (arrayMode = false) => createPgHttpClient({
+    proxyUrl: 'https://test-proxy.com',
+    fetch: mockFetch as unknown as typeof fetch,
+    logger: { level: LogLevel.None },
+    arrayMode,
+  });
+
+  it('should run the query at most once', async () => {
+    mockFetch.mockResolvedValue(jsonResponse({ command: 'INSERT', rowCount: 1, fields: [], rows: [] }));
+    const insert = createClient().sql`INSERT INTO users (name) VALUES (${'Ada'})`;
+
+    const onResult = vi.fn();
+    insert.then(onResult);
+    await insert;
+    await insert.catch(() => undefined).finally(() => undefined);
+    expect(await insert.rows()).toEqual([]);
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(onResult).toHaveBeenCalledTimes(1);
+    // A failed query is not re-run either
+    mockFetch.mockRejectedValue(new Error('network down'));
+    const failing = createClient().sql`SELECT 1`;
+    await expect(failing).rejects.toThrow();
+    await expect(failing.first()).rejects.toThrow();
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not run queries that are never awaited', () => {
+    const { sql } = createClient();
+    const inner = sql`id = ${1}`;
+    const outer = sql`SELECT * FROM users WHERE ${inner}`;
+    expect(outer.queryData.params).toEqual([1]);
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it('should return rows, the first row or the only row', async () => {
+    mockFetch.mockResolvedValue(jsonResponse(usersResult([['1', 'Ada'], ['2', 'Alan']])));
+    const { sql } = createClient();
+
+    expect(await sql`SELECT id, name FROM users`.rows()).toEqual([{ id: 1, name: 'Ada' }, { id: 2, name: 'Alan' }]);
+    expect(await sql`SELECT id, name FROM users`.first()).toEqual({ id: 1, name: 'Ada' });
+
+    const error = await sql`SELECT id, name FROM users`.one().catch(e => e);
+    expect(error).toBeInstanceOf(PgError);
+    expect(error.message).toBe('Expected exactly one row, but the query returned 2.');
+
+    mockFetch.mockResolvedValue(jsonResponse(usersResult([])));
+    expect(await sql`SELECT id, name FROM users`.first()).toBeUndefined();
+    await expect(sql`SELECT id, name FROM users`.one()).rejects.toThrow('but the query returned 0.');
+
+    mockFetch.mockResolvedValue(jsonResponse(usersResult([['1', 'Ada']])));
+    expect(await sql`SELECT id, name FROM users WHERE id = ${1}`.one()).toEqual({ id: 1, name: 'Ada' });
+  });
+
+  it('should return scalars and value arrays', async () => {
+    mockFetch.mockResolvedValue(jsonResponse(usersResult([['1', 'Ada'], ['2', 'Alan']])));
+    for (const arrayMode of [false, true]) {
+      const { sql } = createClient(arrayMode);
+      expect(await sql`SELECT id, name FROM users`.scalar()).toBe(1);
+      expect(await sql`SELECT id, name FROM users`.values()).toEqual([[1, 'Ada'], [2, 'Alan']]);
+    }
+
+    mockFetch.mockResolvedValue(jsonResponse(usersResult([])));
+    expect(await createClient().sql`SELECT count(*) FROM users WHERE false`.scalar()).toBeUndefined();
+  });
+
+  it('should iterate over rows asynchronously', async () => {
+    mockFetch.mockResolvedValue(jsonResponse(usersResult([['1', 'Ada'], ['2', 'Alan']])));
+    const names = [];
+    for await (const user of createClient().sql<{ id: number; name: string }>`SELECT id, name FROM users`) {
+      names.push(user.name);
+    }
+    expect(names).toEqual(['Ada', 'Alan']);
+  });
+
+  it('should carry row types from the sql tag', async () => {
+    mockFetch.mockResolvedValue(jsonResponse(usersResult([['1', 'Ada']])));
+    const query = createClient().sql<{ id: number; name: string }>`SELECT id, name FROM users`;
+
+    expectTypeOf(query.rows).returns.resolves.toEqualTypeOf<{ id: number; name: string }[]>();
+    expectTypeOf(query.one).returns.resolves.toEqualTypeOf<{ id: number; name: string }>();
+    const result = await query;
+    expectTypeOf(result.rows).toEqualTypeOf<{ id: number; name: string }[]>();
+    expect(result.rows[0]!.name).toBe('Ada');
+  });
+});
@@ -1,13 +1,19 @@
-import type { ParameterizedQuery } from './types'; // Import necessary type
+import { PgError } from './errors';
+import type { CallOptions, ParameterizedQuery, PgQueryResult } from './types'; // Import necessary type
 
-// Create a class implementing Promise for SQL queries with expanded functionality to match Neon's
+// Row type of a query result; sql<Row>`...` sets it
+export type RowOf<T> = T extends PgQueryResult<infer Row> ? Row : any;
+
+// Create a class implementing Promise for SQL queries with expanded functionality to match Neon's.
+// The query runs once, when the promise is first awaited; later awaits share its outcome.
 export class QueryPromise<T = any> implements Promise<T> {
   readonly [Symbol.toStringTag]: string = 'Promise';
   public queryData: ParameterizedQuery;
   public opts?: any;
+  private result?: Promise<T>;
 
   constructor(
-    private executeFn: (query: string, params: any[]) => Promise<T>,
+    private executeFn: (query: string, params: any[], options?: CallOptions) => Promise<T>,
     queryObj: ParameterizedQuery,
     opts?: any
   ) {
@@ -15,48 +21,80 @@ export class QueryPromise<T = any> implements Promise<T> {
     this.opts = opts;
   }
 
+  private run(): Promise<T> {
+    this.result ??= this.executeFn(this.queryData.query, this.queryData.params, this.opts);
+    return this.result;
+  }
+
   then<TResult1 = T, TResult2 = never>(
     onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | null | undefined,
     onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | null | undefined
   ): Promise<TResult1 | TResult2> {
-    return this.executeFn(this.queryData.query, this.queryData.params).then(onfulfilled, onrejected);
+    return this.run().then(onfulfilled, onrejected);
   }
 
   catch<TResult = never>(
     onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | null | undefined
   ): Promise<T | TResult> {
-    return this.executeFn(this.queryData.query, this.queryData.params).catch(onrejected);
+    return this.run().catch(onrejected);
   }
 
   finally(onfinally?: (() => void) | null | undefined): Promise<T> {
-    return this.executeFn(this.queryData.query, this.queryData.params).finally(onfinally);
-  }
-
-  // For compatibility with result iteration, implement Symbol.iterator
-  [Symbol.iterator](): Iterator<T> {
-    // Create a reference to the promise outside the iterator
-    const promise = this;
-    let isDone = false;
-    let resolvedValue: T | undefined = undefined;
-
-    return {
-      next(): IteratorResult<T> {
-        if (isDone) {
-          return { done: true, value: undefined as any };
-        }
-
-        if (resolvedValue === undefined) {
-          // For the first call, return the promise result
-          return promise.then((value: T) => {
-            resolvedValue = value;
-            return { done: false, value };
-          }) as any; // Cast needed
-        }
-
-        // For subsequent calls
-        isDone = true;
-        return { done: true, value: undefined as any }; // Mark as done
-      }
-    };
+    return this.run().finally(onfinally);
+  }
+
+  // Same query with per-call options such as timeoutMs, signal or retry; runs separately
+  withOptions(options: CallOptions): QueryPromise<T> {
+    return new QueryPromise(this.executeFn, this.queryData, { ...this.opts, ...options });
+  }
+
+  // Queries from neon() resolve to the rows alone unless fullResults is set
+  private async resultRows(): Promise<{ rows: RowOf<T>[]; result?: PgQueryResult<RowOf<T>> }> {
+    const result = await this.run() as unknown as PgQueryResult<RowOf<T>> | RowOf<T>[];
+    return Array.isArray(result) ? { rows: result } : { rows: result.rows, result };
+  }
+
+  // Column values of a row in column order
+  private static columnValues(row: any, result?: PgQueryResult): unknown[] {
+    if (Array.isArray(row)) return row;
+    return result ? result.fields.map(field => row[field.name]) : Object.values(row);
+  }
+
+  // All rows of the result
+  async rows(): Promise<RowOf<T>[]> {
+    return (await this.resultRows()).rows;
+  }
+
+  // The first row, or undefined when there is none
+  async first(): Promise<RowOf<T> | undefined> {
+    return (await this.resultRows()).rows[0];
+  }
+
+  // The only row; rejects when the query returned no rows or more than one
+  async one(): Promise<RowOf<T>> {
+    const { rows } = await this.resultRows();
+    if (rows.length !== 1) {
+      throw new PgError(`Expected exactly one row, but the query returned ${rows.length}.`);
+    }
+    return rows[0]!;
+  }
+
+  // The first column of the first row, or undefined when there are no rows
+  async scalar<V = any>(): Promise<V | undefined> {
+    const { rows, result } = await this.resultRows();
+    const row: any = rows[0];
+    if (row === undefined) return undefined;
+    return QueryPromise.columnValues(row, result)[0] as V;
+  }
+
+  // Rows as arrays of column values, in column order
+  async values(): Promise<unknown[][]> {
+    const { rows, result } = await this.resultRows();
+    return rows.map(row => QueryPromise.columnValues(row, result));
+  }
+
+  // Iterates over the rows of the result: for await (const row of sql`...`)
+  async *[Symbol.asyncIterator](): AsyncIterator<RowOf<T>> {
+    yield* await this.rows();
   }
 }
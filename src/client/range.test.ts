@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { PgRange, parseRange, parseMultirange } from './range';
+import { TypeParser } from './parsing';
+import { PgTypeId } from './pg-types';
+import { TypeSerializer, typed } from './serialization';
+
+describe('Range parsing', () => {
+  it('should parse bounds and their inclusivity', () => {
+    expect(parseRange('[1,10)')).toEqual(new PgRange('1', '10', true, false));
+    expect(parseRange('(1,10]')).toEqual(new PgRange('1', '10', false, true));
+  });
+
+  it('should parse empty and infinite ranges', () => {
+    expect(parseRange('empty')).toEqual(PgRange.empty());
+    expect(parseRange('(,5)')).toEqual(new PgRange(null, '5', false, false));
+    expect(parseRange('[5,)')).toEqual(new PgRange('5', null, true, false));
+    expect(parseRange('(,)').hasLowerBound()).toBe(false);
+  });
+
+  it('should unquote bounds', () => {
+    expect(parseRange('["2024-01-01 00:00:00+00","2024-02-01 00:00:00+00")')).toEqual(
+      new PgRange('2024-01-01 00:00:00+00', '2024-02-01 00:00:00+00')
+    );
+    expect(parseRange('["a""b","c\\\\d")')).toEqual(new PgRange('a"b', 'c\\d'));
+    expect(parseRange('["",z)')).toEqual(new PgRange('', 'z'));
+  });
+
+  it('should parse multiranges', () => {
+    expect(parseMultirange('{}')).toEqual([]);
+    expect(parseMultirange('{[1,3),[5,8)}', Number)).toEqual([new PgRange(1, 3), new PgRange(5, 8)]);
+  });
+
+  it('should reject malformed literals', () => {
+    expect(() => parseRange('1,2')).toThrow('Malformed range literal');
+    expect(() => parseRange('[1,2')).toThrow('Malformed range literal');
+    expect(() => parseMultirange('{[1,2) [3,4)}')).toThrow('Malformed multirange literal');
+  });
+
+  it('should check containment', () => {
+    const window = new PgRange(new Date('2024-01-01T00:00:00Z'), new Date('2024-02-01T00:00:00Z'));
+    expect(window.contains(new Date('2024-01-01T00:00:00Z'))).toBe(true);
+    expect(window.contains(new Date('2024-02-01T00:00:00Z'))).toBe(false);
+    expect(new PgRange<number>(null, 5, false, true).contains(-100)).toBe(true);
+    expect(PgRange.empty<number>().contains(1)).toBe(false);
+  });
+});
+
+describe('Range types in TypeParser', () => {
+  const parser = new TypeParser();
+
+  it('should delegate bounds to the element parsers', () => {
+    expect(parser.getTypeParser(PgTypeId.INT4RANGE)('[1,10)')).toEqual(new PgRange(1, 10));
+    expect(parser.getTypeParser(PgTypeId.INT8RANGE)('[1,)')).toEqual(new PgRange(1n, null));
+    expect(parser.getTypeParser(PgTypeId.TSTZRANGE)('["2024-01-01 00:00:00+00",infinity)')).toEqual(
+      new PgRange<Date | number>(new Date('2024-01-01T00:00:00Z'), Infinity)
+    );
+    expect(parser.getTypeParser(PgTypeId.DATEMULTIRANGE)('{[2024-01-01,2024-01-05)}')).toEqual([
+      new PgRange(new Date('2024-01-01T00:00:00Z'), new Date('2024-01-05T00:00:00Z')),
+    ]);
+  });
+
+  it('should parse arrays of ranges and multiranges', () => {
+    expect(parser.getTypeParser(PgTypeId.INT4RANGE_ARRAY)('{"[1,3)",empty,NULL}')).toEqual([
+      new PgRange(1, 3),
+      PgRange.empty(),
+      null,
+    ]);
+    expect(parser.getTypeParser(PgTypeId.INT4MULTIRANGE_ARRAY)('{"{[1,3),[5,8)}","{}"}')).toEqual([
+      [new PgRange(1, 3), new PgRange(5, 8)],
+      [],
+    ]);
+  });
+
+  it('should honour overridden element parsers', () => {
+    const custom = new TypeParser({ [PgTypeId.INT4]: value => `#${value}` });
+    expect(custom.getTypeParser(PgTypeId.INT4RANGE)('[1,2)')).toEqual(new PgRange('#1', '#2'));
+  });
+});
+
+describe('Range serialization', () => {
+  const serializer = new TypeSerializer();
+
+  it('should serialize PgRange values back to literals', () => {
+    const range = new TypeParser().getTypeParser(PgTypeId.TSTZRANGE)('["2024-01-01 00:00:00+00",)');
+    expect(serializer.serialize(range)).toBe('["2024-01-01 00:00:00.000+00",)');
+    expect(serializer.serialize(PgRange.empty())).toBe('empty');
+    expect(serializer.serialize(new PgRange(1, 5, false, true))).toBe('(1,5]');
+  });
+
+  it('should serialize arrays of ranges', () => {
+    expect(serializer.serialize([new PgRange(1, 3), new PgRange(5, 8)])).toBe('{"[1,3)","[5,8)"}');
+    expect(serializer.serialize(typed([{ lower: 1, upper: 3 }], PgTypeId.INT4RANGE_ARRAY))).toBe('{"[1,3)"}');
+  });
+});
@@ -0,0 +1,153 @@
+import type { RangeLike } from './serialization';
+
+/**
+ * A range value (int4range, tstzrange, ...). A null bound is infinite; infinite bounds are
+ * always exclusive, as in PostgreSQL. Parameters accept any RangeLike, PgRange included.
+ */
+export class PgRange<T = unknown> implements RangeLike<T> {
+  constructor(
+    public lower: T | null,
+    public upper: T | null,
+    public lowerInclusive = true,
+    public upperInclusive = false,
+    public empty = false
+  ) {
+    if (lower === null) this.lowerInclusive = false;
+    if (upper === null) this.upperInclusive = false;
+  }
+
+  // The empty range, e.g. 'empty'::int4range
+  static empty<T>(): PgRange<T> {
+    return new PgRange<T>(null, null, false, false, true);
+  }
+
+  public hasLowerBound(): boolean {
+    return !this.empty && this.lower !== null;
+  }
+
+  public hasUpperBound(): boolean {
+    return !this.empty && this.upper !== null;
+  }
+
+  // Whether a value lies within the range; bounds and value are compared with < and >
+  public contains(value: T): boolean {
+    if (this.empty) return false;
+    const point = comparable(value);
+    if (this.lower !== null) {
+      const lower = comparable(this.lower);
+      if (point < lower || (point === lower && !this.lowerInclusive)) return false;
+    }
+    if (this.upper !== null) {
+      const upper = comparable(this.upper);
+      if (point > upper || (point === upper && !this.upperInclusive)) return false;
+    }
+    return true;
+  }
+}
+
+// Dates compare by time value, everything else (numbers, bigints, strings) as-is
+function comparable(value: unknown): any {
+  return value instanceof Date ? value.getTime() : value;
+}
+
+const isWhitespace = (char: string | undefined) => char !== undefined && /\s/.test(char);
+
+/**
+ * Read one range literal starting at `start`, following range_parse() in PostgreSQL:
+ * bounds may be double-quoted, "" inside quotes is a literal quote, a backslash escapes the
+ * next character, and an omitted bound is infinite (an empty quoted bound is an empty string).
+ */
+function readRange<T>(text: string, start: number, parseBound: (value: string) => T): { range: PgRange<T>; end: number } {
+  let i = start;
+  while (isWhitespace(text[i])) i++;
+
+  if (text.slice(i, i + 5).toLowerCase() === 'empty') {
+    return { range: PgRange.empty<T>(), end: i + 5 };
+  }
+
+  const open = text[i];
+  if (open !== '[' && open !== '(') {
+    throw new Error(`Malformed range literal: ${text}`);
+  }
+  i++;
+
+  const readBound = (terminators: string): T | null => {
+    let value = '';
+    let quoted = false;
+    let sawQuote = false;
+    for (; i < text.length; i++) {
+      const char = text[i]!;
+      if (quoted) {
+        if (char === '\\') {
+          value += text[++i] ?? '';
+        } else if (char === '"') {
+          if (text[i + 1] === '"') {
+            value += '"';
+            i++;
+          } else {
+            quoted = false;
+          }
+        } else {
+          value += char;
+        }
+      } else if (terminators.includes(char)) {
+        break;
+      } else if (char === '"') {
+        quoted = true;
+        sawQuote = true;
+      } else if (char === '\\') {
+        value += text[++i] ?? '';
+      } else {
+        value += char;
+      }
+    }
+    if (i >= text.length) {
+      throw new Error(`Malformed range literal: ${text}`);
+    }
+    return value === '' && !sawQuote ? null : parseBound(value);
+  };
+
+  const lower = readBound(',');
+  i++; // ','
+  const upper = readBound(')]');
+  const close = text[i];
+  i++;
+
+  return { range: new PgRange<T>(lower, upper, open === '[', close === ']'), end: i };
+}
+
+/**
+ * Parse a range literal such as [2024-01-01,2024-02-01) or empty, converting bounds with
+ * the subtype's parser
+ */
+export function parseRange<T = string>(text: string, parseBound: (value: string) => T = value => value as T): PgRange<T> {
+  return readRange(text, 0, parseBound).range;
+}
+
+/**
+ * Parse a multirange literal (PostgreSQL 14+) such as {[1,3),[5,8)} or {}
+ */
+export function parseMultirange<T = string>(text: string, parseBound: (value: string) => T = value => value as T): PgRange<T>[] {
+  let i = 0;
+  while (isWhitespace(text[i])) i++;
+  if (text[i] !== '{') {
+    throw new Error(`Malformed multirange literal: ${text}`);
+  }
+  i++;
+
+  const ranges: PgRange<T>[] = [];
+  for (;;) {
+    while (isWhitespace(text[i])) i++;
+    if (text[i] === '}') break;
+    const { range, end } = readRange(text, i, parseBound);
+    ranges.push(range);
+    i = end;
+    while (isWhitespace(text[i])) i++;
+    if (text[i] === ',') {
+      i++;
+    } else if (text[i] !== '}') {
+      throw new Error(`Malformed multirange literal: ${text}`);
+    }
+  }
+  return ranges;
+}
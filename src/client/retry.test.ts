@@ -0,0 +1,178 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createPgHttpClient, LogLevel, DatabaseError, ProxyConnectionError, QueryCanceledError } from './index';
+import { getRetryDelay, isReadOnlyQuery, resolveRetryOptions, DEFAULT_RETRY_OPTIONS } from './retry';
+
+const mockFetch = vi.fn();
+
+const jsonResponse = (body: any, status = 200) => ({
+  ok: status >= 200 && status < 300,
+  status,
+  statusText: status === 200 ? 'OK' : 'Error',
+  headers: new Headers(),
+  json: async () => body,
+}) as unknown as Response;
+
+const okResult = { command: 'SELECT', rowCount: 1, fields: [{ name: 'n', dataTypeID: 23 }], rows: [['1']] };
+
+describe('Retry policy', () => {
+  it('should detect read-only statements', () => {
+    expect(isReadOnlyQuery('SELECT * FROM users')).toBe(true);
+    expect(isReadOnlyQuery('  -- comment\n(select 1)')).toBe(true);
+    expect(isReadOnlyQuery('WITH t AS (SELECT 1) SELECT * FROM t')).toBe(true);
+    expect(isReadOnlyQuery('SHOW search_path;')).toBe(true);
+    expect(isReadOnlyQuery('WITH t AS (DELETE FROM users RETURNING *) SELECT * FROM t')).toBe(false);
+    expect(isReadOnlyQuery('SELECT nextval(\'users_id_seq\')')).toBe(false);
+    expect(isReadOnlyQuery('SELECT * INTO backup FROM users')).toBe(false);
+    expect(isReadOnlyQuery('EXPLAIN ANALYZE DELETE FROM users')).toBe(false);
+    expect(isReadOnlyQuery('SELECT 1; DROP TABLE users')).toBe(false);
+    expect(isReadOnlyQuery('INSERT INTO users DEFAULT VALUES')).toBe(false);
+  });
+
+  it('should merge the client policy with per-call overrides', () => {
+    expect(resolveRetryOptions(undefined)).toBeUndefined();
+    expect(resolveRetryOptions(true)).toEqual(DEFAULT_RETRY_OPTIONS);
+    expect(resolveRetryOptions({ maxAttempts: 5 }, false)).toBeUndefined();
+    expect(resolveRetryOptions(undefined, { maxAttempts: 2 })?.maxAttempts).toBe(2);
+    expect(resolveRetryOptions({ maxAttempts: 5, baseDelayMs: 10 }, { maxAttempts: 2 }))
+      .toMatchObject({ maxAttempts: 2, baseDelayMs: 10 });
+  });
+
+  it('should back off exponentially up to the maximum delay', () => {
+    const options = { ...DEFAULT_RETRY_OPTIONS, jitter: false };
+    expect([1, 2, 3, 6].map(retry => getRetryDelay(retry, options))).toEqual([100, 200, 400, 2000]);
+
+    vi.spyOn(Math, 'random').mockReturnValue(0.5);
+    expect(getRetryDelay(2, DEFAULT_RETRY_OPTIONS)).toBe(100);
+    vi.restoreAllMocks();
+  });
+});
+
+describe('Retrying client calls', () => {
+  const logFn = vi.fn();
+
+  beforeEach(() => {
+    mockFetch.mockReset();
+    logFn.mockReset();
+  });
+
+  const createClient = (retry: any = { baseDelayMs: 0 }) => createPgHttpClient({
+    proxyUrl: 'https://test-proxy.com',
+    fetch: mockFetch as unknown as typeof fetch,
+    logger: { level: LogLevel.Warn, logFn },
+    retry,
+  });
+
+  it('should not retry unless configured', async () => {
+    mockFetch.mockResolvedValueOnce(jsonResponse({ error: 'Bad Gateway' }, 502));
+    const client = createPgHttpClient({
+      proxyUrl: 'https://test-proxy.com',
+      fetch: mockFetch as unknown as typeof fetch,
+      logger: { level: LogLevel.None },
+    });
+    await expect(client.query('SELECT 1')).rejects.toBeInstanceOf(ProxyConnectionError);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should retry read-only queries after network errors and log each retry', async () => {
+    mockFetch
+      .mockRejectedValueOnce(new TypeError('fetch failed'))
+      .mockResolvedValueOnce(jsonResponse({ message: 'terminating connection due to administrator command', code: '57P01' }, 500))
+      .mockResolvedValueOnce(jsonResponse(okResult));
+
+    const result = await createClient().query('SELECT 1 AS n');
+    expect(result.rows).toEqual([{ n: 1 }]);
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+
+    const retries = logFn.mock.calls.filter(([, message]) => message === 'Retrying query after a transient failure');
+    expect(retries.map(([level, , data]) => [level, data.attempt, data.maxAttempts])).toEqual([
+      [LogLevel.Warn, 1, 3],
+      [LogLevel.Warn, 2, 3],
+    ]);
+  });
+
+  it('should give up after maxAttempts', async () => {
+    mockFetch.mockResolvedValue(jsonResponse({ error: 'Service Unavailable' }, 503));
+    const error = await createClient({ maxAttempts: 2, baseDelayMs: 0 }).query('SELECT 1').catch(e => e);
+    expect(error.status).toBe(503);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should only retry writes when the failure never reached the database', async () => {
+    const client = createClient();
+
+    mockFetch.mockRejectedValueOnce(new TypeError('fetch failed'));
+    await expect(client.query('INSERT INTO logs VALUES (1)')).rejects.toBeInstanceOf(ProxyConnectionError);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+
+    // A gateway may answer 502 after the proxy ran the INSERT
+    mockFetch.mockReset();
+    mockFetch.mockResolvedValueOnce(jsonResponse({ error: 'Bad Gateway' }, 502));
+    await expect(client.query('INSERT INTO logs VALUES (1)')).rejects.toBeInstanceOf(ProxyConnectionError);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+
+    mockFetch.mockReset();
+    mockFetch
+      .mockRejectedValueOnce(new TypeError('fetch failed', { cause: Object.assign(new Error('connect ECONNREFUSED'), { code: 'ECONNREFUSED' }) }))
+      .mockResolvedValueOnce(jsonResponse({ message: 'timeout exceeded when trying to connect', notExecuted: true }, 503))
+      .mockResolvedValueOnce(jsonResponse({ message: 'sorry, too many clients already', code: '53300' }, 500))
+      .mockResolvedValueOnce(jsonResponse({ ...okResult, command: 'INSERT' }));
+    await client.query('INSERT INTO logs VALUES (1)', [], { retry: { maxAttempts: 4 } });
+    expect(mockFetch).toHaveBeenCalledTimes(4);
+  });
+
+  it('should stop waiting for the next attempt when the caller aborts', async () => {
+    mockFetch.mockResolvedValue(jsonResponse({ error: 'Service Unavailable' }, 503));
+    const controller = new AbortController();
+    const pending = createClient({ baseDelayMs: 60_000, jitter: false }).query('SELECT 1', [], { signal: controller.signal });
+    await vi.waitFor(() => expect(mockFetch).toHaveBeenCalledTimes(1));
+    controller.abort();
+    await expect(pending).rejects.toBeInstanceOf(QueryCanceledError);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should honour per-call overrides', async () => {
+    const client = createClient();
+
+    mockFetch
+      .mockRejectedValueOnce(new TypeError('fetch failed'))
+      .mockResolvedValueOnce(jsonResponse({ ...okResult, command: 'INSERT' }));
+    await client.query('INSERT INTO logs (id) VALUES (1) ON CONFLICT DO NOTHING', [], { idempotent: true });
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+
+    mockFetch.mockReset();
+    mockFetch.mockRejectedValueOnce(new TypeError('fetch failed'));
+    await expect(client.execute('SELECT 1', [], { retry: false })).rejects.toBeInstanceOf(ProxyConnectionError);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not retry permanent database errors', async () => {
+    mockFetch.mockResolvedValueOnce(jsonResponse({ message: 'relation "nope" does not exist', code: '42P01' }, 400));
+    await expect(createClient().query('SELECT * FROM nope')).rejects.toBeInstanceOf(DatabaseError);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should retry read-only batch transactions', async () => {
+    mockFetch
+      .mockResolvedValueOnce(jsonResponse({ error: 'Gateway Timeout' }, 504))
+      .mockResolvedValueOnce(jsonResponse({ results: [okResult] }));
+    const results = await createClient().transaction([{ text: 'UPDATE t SET n = 1', values: [] }], { readOnly: true });
+    expect(results).toEqual([[{ n: 1 }]]);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not retry a commit whose outcome is unknown', async () => {
+    mockFetch
+      .mockRejectedValueOnce(new TypeError('fetch failed'))
+      .mockResolvedValueOnce(jsonResponse({ transactionId: 'tx-1' }))
+      .mockRejectedValueOnce(new TypeError('fetch failed'));
+
+    const error = await createClient().transaction(async () => 'done').catch(e => e);
+    expect(error).toBeInstanceOf(ProxyConnectionError);
+    // begin was retried once, commit was not
+    expect(mockFetch.mock.calls.map(([url]) => url)).toEqual([
+      'https://test-proxy.com/transaction/begin',
+      'https://test-proxy.com/transaction/begin',
+      'https://test-proxy.com/transaction/commit',
+    ]);
+  });
+});
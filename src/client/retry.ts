@@ -0,0 +1,177 @@
+import { PgError, ProxyConnectionError } from './errors';
+import { isSqlStateCode } from './sqlstate';
+import type { BackoffOptions, RetryOptions } from './types';
+
+/**
+ * Retry policy for transient failures. A failure is only retried when it is transient
+ * (a network error, a retryable status or SQLSTATE) and retrying cannot apply a write twice:
+ * the call is read-only or marked idempotent, or the request never reached the database.
+ */
+
+export const DEFAULT_RETRY_OPTIONS: Required<RetryOptions> = {
+  maxAttempts: 3,
+  baseDelayMs: 100,
+  maxDelayMs: 2000,
+  jitter: true,
+  retryableStatuses: [502, 503, 504],
+  retryableSqlStates: [
+    '08000', // connection_exception
+    '08001', // sqlclient_unable_to_establish_sqlconnection
+    '08003', // connection_does_not_exist
+    '08004', // sqlserver_rejected_establishment_of_sqlconnection
+    '08006', // connection_failure
+    '53300', // too_many_connections
+    '57P01', // admin_shutdown
+    '57P02', // crash_shutdown
+    '57P03', // cannot_connect_now
+  ],
+};
+
+// Re-runs of a transaction after a serialization failure or deadlock (retryOnConflict)
+export const DEFAULT_CONFLICT_RETRY_OPTIONS: Required<BackoffOptions> = {
+  maxAttempts: 3,
+  baseDelayMs: 50,
+  maxDelayMs: 1000,
+  jitter: true,
+};
+
+// Reconnects of a dropped listen() subscription; maxAttempts counts consecutive failed reconnects
+export const DEFAULT_RECONNECT_OPTIONS: Required<BackoffOptions> = {
+  maxAttempts: Infinity,
+  baseDelayMs: 500,
+  maxDelayMs: 30000,
+  jitter: true,
+};
+
+// Failures raised while connecting, before the query was sent
+const CONNECT_SQLSTATES = new Set(['08001', '08004', '53300', '57P03']);
+
+// Merge the client policy with a per-call override; undefined means no retries
+export function resolveRetryOptions(
+  clientRetry: boolean | RetryOptions | undefined,
+  callRetry?: boolean | RetryOptions
+): Required<RetryOptions> | undefined {
+  if (!(callRetry ?? clientRetry)) return undefined;
+  return {
+    ...DEFAULT_RETRY_OPTIONS,
+    ...(typeof clientRetry === 'object' ? clientRetry : {}),
+    ...(typeof callRetry === 'object' ? callRetry : {}),
+  };
+}
+
+// Backoff for retryOnConflict; undefined means the transaction runs once
+export function resolveConflictRetryOptions(
+  retryOnConflict: boolean | BackoffOptions | undefined
+): Required<BackoffOptions> | undefined {
+  if (!retryOnConflict) return undefined;
+  return { ...DEFAULT_CONFLICT_RETRY_OPTIONS, ...(typeof retryOnConflict === 'object' ? retryOnConflict : {}) };
+}
+
+// Backoff for listen() reconnects; undefined means a dropped subscription ends
+export function resolveReconnectOptions(
+  reconnect: boolean | BackoffOptions | undefined
+): Required<BackoffOptions> | undefined {
+  if (reconnect === false) return undefined;
+  return { ...DEFAULT_RECONNECT_OPTIONS, ...(typeof reconnect === 'object' ? reconnect : {}) };
+}
+
+// Statements that only read. Sequence functions and SELECT INTO count as writes; other
+// functions with side effects cannot be detected, so pass idempotent: false for those.
+const READ_ONLY_STATEMENT = /^(select|with|show|values|table|explain)\b/i;
+const WRITE_KEYWORDS = /\b(insert|update|delete|merge|into|analyze|nextval|setval|copy)\b/i;
+
+export function isReadOnlyQuery(queryText: string): boolean {
+  const text = queryText
+    .replace(/\/\*[\s\S]*?\*\//g, ' ')
+    .replace(/--[^\n]*/g, ' ')
+    .replace(/^[\s(]+/, '')
+    .replace(/;\s*$/, '');
+  // Multiple statements are never treated as read-only
+  if (text.includes(';')) return false;
+  return READ_ONLY_STATEMENT.test(text) && !WRITE_KEYWORDS.test(text);
+}
+
+// Error codes of a fetch() that could not open a connection to the proxy
+const CONNECT_ERROR_CODES = new Set(['ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN']);
+
+// The query certainly did not run: the proxy could not be reached, the proxy answered that it
+// did not send it (notExecuted, e.g. no pooled connection was available), or the database
+// refused the connection. Other 502/503 responses may come from a gateway after the proxy ran
+// the query, so they don't count.
+export function failedBeforeDatabase(error: PgError): boolean {
+  if (error.notExecuted) return true;
+  if (isSqlStateCode(error.code)) return CONNECT_SQLSTATES.has(error.code);
+  if (error instanceof ProxyConnectionError && error.status === undefined) {
+    const cause = (error.sourceError as { cause?: { code?: unknown } } | undefined)?.cause;
+    return typeof cause?.code === 'string' && CONNECT_ERROR_CODES.has(cause.code);
+  }
+  return false;
+}
+
+export function isTransientError(error: unknown, options: Required<RetryOptions>): error is PgError {
+  if (!(error instanceof PgError)) return false;
+  // fetch() rejected: the proxy could not be reached or the connection dropped
+  if (error instanceof ProxyConnectionError && error.status === undefined) return true;
+  if (isSqlStateCode(error.code)) return options.retryableSqlStates.includes(error.code);
+  return error.status !== undefined && options.retryableStatuses.includes(error.status);
+}
+
+// 40001 serialization_failure and 40P01 deadlock_detected: the transaction was rolled back
+// and succeeds if run again
+export function isConflictError(error: unknown): error is PgError {
+  return error instanceof PgError && (error.isSerializationFailure() || error.isDeadlock());
+}
+
+// Exponential backoff for the given retry (1 for the first), with optional full jitter
+export function getRetryDelay(retry: number, options: Required<BackoffOptions>): number {
+  const backoff = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** (retry - 1));
+  return options.jitter ? Math.floor(Math.random() * backoff) : backoff;
+}
+
+export interface RetryPlan {
+  options: Required<RetryOptions>;
+  safe: boolean; // The call may run twice: it is read-only or idempotent
+}
+
+export function canRetry(error: unknown, plan: RetryPlan): error is PgError {
+  return isTransientError(error, plan.options) && (plan.safe || failedBeforeDatabase(error));
+}
+
+// Waits ms, or rejects with the signal's reason as soon as it aborts
+function sleep(ms: number, signal: AbortSignal | undefined): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// Runs attempt() until it succeeds, fails with an error shouldRetry() rejects or runs out of
+// attempts; without options it runs once. Aborting signal ends the wait between attempts.
+export async function withRetry<T>(
+  attempt: () => Promise<T>,
+  options: Required<BackoffOptions> | undefined,
+  shouldRetry: (error: unknown) => error is PgError,
+  onRetry: (info: { attempt: number; maxAttempts: number; delayMs: number; error: PgError }) => void,
+  signal?: AbortSignal
+): Promise<T> {
+  for (let attemptNumber = 1; ; attemptNumber++) {
+    try {
+      return await attempt();
+    } catch (error) {
+      if (!options || attemptNumber >= options.maxAttempts || !shouldRetry(error)) {
+        throw error;
+      }
+      const delayMs = getRetryDelay(attemptNumber, options);
+      onRetry({ attempt: attemptNumber, maxAttempts: options.maxAttempts, delayMs, error });
+      await sleep(delayMs, signal);
+    }
+  }
+}
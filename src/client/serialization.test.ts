@@ -0,0 +1,149 @@
+import { describe, it, expect, vi } from 'vitest';
+import { TypeSerializer, typed, formatDate, formatTimestamp } from './serialization';
+import { PgTypeId } from './pg-types';
+import { createPgHttpClient, LogLevel } from './index';
+
+describe('TypeSerializer', () => {
+  const serializer = new TypeSerializer();
+
+  describe('Scalars', () => {
+    it('should pass strings, booleans and finite numbers through', () => {
+      expect(serializer.serialize('text')).toBe('text');
+      expect(serializer.serialize(true)).toBe(true);
+      expect(serializer.serialize(42)).toBe(42);
+      expect(serializer.serialize(null)).toBeNull();
+      expect(serializer.serialize(undefined)).toBeNull();
+    });
+
+    it('should serialize bigint and non-finite numbers as text', () => {
+      expect(serializer.serialize(9007199254740993n)).toBe('9007199254740993');
+      expect(serializer.serialize(NaN)).toBe('NaN');
+      expect(serializer.serialize(-Infinity)).toBe('-Infinity');
+    });
+
+    it('should reject unsafe integers hinted as integer columns', () => {
+      expect(() => serializer.serialize(typed(2 ** 60, PgTypeId.INT8))).toThrow('BigInt');
+    });
+  });
+
+  describe('Dates', () => {
+    const date = new Date(Date.UTC(2024, 0, 15, 8, 30, 5, 120));
+
+    it('should serialize Dates as timestamptz with an explicit UTC offset', () => {
+      expect(serializer.serialize(date)).toBe('2024-01-15 08:30:05.120+00');
+    });
+
+    it('should honour date and timestamp hints', () => {
+      expect(serializer.serialize(typed(date, PgTypeId.DATE))).toBe('2024-01-15');
+      expect(serializer.serialize(typed(date, PgTypeId.TIMESTAMP))).toBe('2024-01-15 08:30:05.120');
+    });
+
+    it('should format BC dates', () => {
+      const bc = new Date(Date.UTC(-43, 2, 15));
+      expect(formatDate(bc)).toBe('0044-03-15 BC');
+      expect(formatTimestamp(bc)).toBe('0044-03-15 00:00:00.000+00 BC');
+    });
+
+    it('should reject invalid dates', () => {
+      expect(() => serializer.serialize(new Date('nope'))).toThrow('invalid Date');
+    });
+  });
+
+  describe('Arrays', () => {
+    it('should build quoted array literals', () => {
+      expect(serializer.serialize(['a', 'b,c', 'say "hi"', 'back\\slash', null])).toBe(
+        '{"a","b,c","say \\"hi\\"","back\\\\slash",NULL}'
+      );
+    });
+
+    it('should build multi-dimensional array literals', () => {
+      expect(serializer.serialize([[1, 2], [3, 4]])).toBe('{{"1","2"},{"3","4"}}');
+    });
+
+    it('should serialize nested elements with their own rules', () => {
+      const date = new Date(Date.UTC(2024, 0, 1));
+      expect(serializer.serialize([date, 1n, { a: 1 }])).toBe(
+        '{"2024-01-01 00:00:00.000+00","1","{\\"a\\":1}"}'
+      );
+    });
+
+    it('should send arrays hinted as json as JSON', () => {
+      expect(serializer.serialize(typed([1, 'a'], PgTypeId.JSONB))).toBe('[1,"a"]');
+      expect(serializer.serialize(typed([1, 'a'], PgTypeId.TEXT_ARRAY))).toBe('{"1","a"}');
+    });
+
+    it('should use the element hint and delimiter of array types', () => {
+      const date = new Date(Date.UTC(2024, 5, 1));
+      expect(serializer.serialize(typed([date], PgTypeId.DATE_ARRAY))).toBe('{"2024-06-01"}');
+      expect(serializer.serialize(typed(['(1,1),(0,0)', '(2,2),(1,1)'], PgTypeId.BOX_ARRAY))).toBe(
+        '{"(1,1),(0,0)";"(2,2),(1,1)"}'
+      );
+    });
+  });
+
+  describe('Objects', () => {
+    it('should serialize plain objects as JSON, including bigint values', () => {
+      expect(serializer.serialize({ id: 1n, tags: ['x'] })).toBe('{"id":"1","tags":["x"]}');
+    });
+
+    it('should call toPostgres() when present', () => {
+      const money = { cents: 1234, toPostgres: () => '12.34' };
+      expect(serializer.serialize(money)).toBe('12.34');
+    });
+  });
+
+  describe('Ranges', () => {
+    it('should build range literals with default [) bounds', () => {
+      expect(serializer.serialize(typed({ lower: 1, upper: 10 }, PgTypeId.INT4RANGE))).toBe('[1,10)');
+      expect(serializer.serialize(typed({ lower: null, upper: 5, upperInclusive: true }, PgTypeId.INT8RANGE))).toBe('(,5]');
+      expect(serializer.serialize(typed({ lower: null, upper: null, empty: true }, PgTypeId.NUMRANGE))).toBe('empty');
+    });
+
+    it('should quote timestamp bounds', () => {
+      const range = { lower: new Date(Date.UTC(2024, 0, 1)), upper: null };
+      expect(serializer.serialize(typed(range, PgTypeId.TSTZRANGE))).toBe('["2024-01-01 00:00:00.000+00",)');
+    });
+
+    it('should build multirange literals', () => {
+      const ranges = [{ lower: 1, upper: 3 }, { lower: 5, upper: 8 }];
+      expect(serializer.serialize(typed(ranges, PgTypeId.INT4MULTIRANGE))).toBe('{[1,3),[5,8)}');
+    });
+  });
+
+  it('should prefer custom serializers for hinted types', () => {
+    const custom = new TypeSerializer({ [PgTypeId.POINT]: (p: { x: number; y: number }) => `(${p.x},${p.y})` });
+    expect(custom.serialize(typed({ x: 1, y: 2 }, PgTypeId.POINT))).toBe('(1,2)');
+  });
+});
+
+describe('Parameter serialization in the client', () => {
+  const mockFetch = vi.fn(async () => ({
+    ok: true,
+    status: 200,
+    statusText: 'OK',
+    json: async () => ({ command: 'SELECT', rowCount: 0, fields: [], rows: [] }),
+  }) as Response);
+
+  const client = createPgHttpClient({
+    proxyUrl: 'https://test-proxy.com',
+    fetch: mockFetch as unknown as typeof fetch,
+    logger: { level: LogLevel.None },
+  });
+
+  const sentParams = (call: number) => JSON.parse((mockFetch.mock.calls[call] as any)[1].body);
+
+  it('should serialize params in query, execute, sql and transaction alike', async () => {
+    const params = [10n, ['a', 'b'], typed({ a: 1 }, PgTypeId.JSONB)];
+    const expected = ['10', '{"a","b"}', '{"a":1}'];
+
+    await client.query('SELECT $1, $2, $3', params);
+    await client.execute('SELECT $1, $2, $3', params);
+    await client.sql`SELECT ${params[0]}, ${params[1]}, ${params[2]}`;
+    await client.transaction([{ text: 'SELECT $1, $2, $3', values: params }]);
+
+    expect(sentParams(0).params).toEqual(expected);
+    expect(sentParams(1).params).toEqual(expected);
+    expect(sentParams(2).params).toEqual(expected);
+    expect(sentParams(3).queries[0].params).toEqual(expected);
+  });
+});
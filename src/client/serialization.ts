@@ -0,0 +1,243 @@
+import {
+  PgTypeId,
+  isArrayType,
+  getElementTypeId,
+  getArrayDelimiter,
+  isRangeType,
+  isMultirangeType,
+  getRangeSubtypeId
+} from './pg-types';
+import { encodeBuffersAsBytea } from './utils';
+import { PgRange } from './range';
+import { GEOMETRIC_FORMATTERS } from './geometric';
+import { NETWORK_FORMATTERS } from './network';
+
+/**
+ * A parameter value paired with an explicit PostgreSQL type, used by TypeSerializer
+ * to pick the text representation (e.g. jsonb vs text[] for a JS array)
+ */
+export class TypedValue<T = unknown> {
+  constructor(public value: T, public typeId: number) {}
+}
+
+// Attach a type hint to a parameter value
+export function typed<T>(value: T, typeId: number): TypedValue<T> {
+  return new TypedValue(value, typeId);
+}
+
+// Shape accepted for range parameters; bounds default to '[)' like PostgreSQL's constructors
+export interface RangeLike<T = unknown> {
+  lower: T | null;
+  upper: T | null;
+  lowerInclusive?: boolean;
+  upperInclusive?: boolean;
+  empty?: boolean;
+}
+
+const JSON_TYPES = new Set<number>([PgTypeId.JSON, PgTypeId.JSONB]);
+const INTEGER_TYPES = new Set<number>([PgTypeId.INT2, PgTypeId.INT4, PgTypeId.INT8, PgTypeId.OID]);
+
+// Built-in formatters for hinted geometric and network values (e.g. { x, y } as a point)
+const TYPE_FORMATTERS: Record<number, (value: any) => string> = { ...GEOMETRIC_FORMATTERS, ...NETWORK_FORMATTERS };
+
+const pad = (value: number, width = 2) => String(value).padStart(width, '0');
+
+function assertValidDate(date: Date): void {
+  if (isNaN(date.getTime())) {
+    throw new Error('Cannot serialize an invalid Date as a query parameter.');
+  }
+}
+
+// Split a Date's UTC year into a positive year and an era suffix (PostgreSQL has no year 0)
+function utcYear(date: Date): { year: string; era: string } {
+  const year = date.getUTCFullYear();
+  return year > 0
+    ? { year: pad(year, 4), era: '' }
+    : { year: pad(1 - year, 4), era: ' BC' };
+}
+
+/**
+ * Format a Date as a PostgreSQL date literal (YYYY-MM-DD) in UTC
+ */
+export function formatDate(date: Date): string {
+  assertValidDate(date);
+  const { year, era } = utcYear(date);
+  return `${year}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}${era}`;
+}
+
+/**
+ * Format a Date as a PostgreSQL timestamp literal in UTC. With a time zone the literal
+ * carries an explicit +00 offset so the server never applies its own TimeZone setting.
+ */
+export function formatTimestamp(date: Date, withTimeZone = true): string {
+  assertValidDate(date);
+  const { year, era } = utcYear(date);
+  return `${year}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())} ` +
+    `${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}:${pad(date.getUTCSeconds())}.` +
+    `${pad(date.getUTCMilliseconds(), 3)}${withTimeZone ? '+00' : ''}${era}`;
+}
+
+// Quote an array element; quoting every non-NULL element is always valid input
+function quoteArrayElement(text: string): string {
+  return '"' + text.replace(/\\/g, '\\\\').replace(/"/g, '\\"') + '"';
+}
+
+// Quote a range bound when it contains characters that are special in range literals
+function quoteRangeBound(text: string): string {
+  if (text !== '' && !/[\s"\\,()[\]]/.test(text)) {
+    return text;
+  }
+  return '"' + text.replace(/\\/g, '\\\\').replace(/"/g, '\\"') + '"';
+}
+
+// Type serializer for outgoing parameters: the counterpart of TypeParser
+export class TypeSerializer {
+  private serializers: Record<number, (value: any) => string> = {};
+
+  constructor(customSerializers?: Record<number, (value: any) => string>) {
+    if (customSerializers) {
+      Object.keys(customSerializers).forEach(key => {
+        const typeId = parseInt(key, 10);
+        if (!isNaN(typeId) && customSerializers[typeId]) {
+          this.setTypeSerializer(typeId, customSerializers[typeId] as (value: any) => string);
+        }
+      });
+    }
+  }
+
+  // Serializers are used for values hinted with this type ID (see typed())
+  public setTypeSerializer(typeId: number, serializeFn: (value: any) => string): void {
+    this.serializers[typeId] = serializeFn;
+  }
+
+  public getTypeSerializer(typeId: number): ((value: any) => string) | undefined {
+    return this.serializers[typeId];
+  }
+
+  // Serialize every parameter of a query
+  public serializeParams(params: unknown[] | undefined): unknown[] {
+    return Array.isArray(params) ? params.map(param => this.serialize(param)) : [];
+  }
+
+  /**
+   * Convert a JS value into the representation sent to the proxy: null, a number or
+   * boolean that JSON carries losslessly, or the PostgreSQL text form of the value.
+   * The optional typeId (or a TypedValue wrapper) selects a type-specific form.
+   */
+  public serialize(value: unknown, typeId?: number): unknown {
+    if (value instanceof TypedValue) {
+      return this.serialize(value.value, value.typeId);
+    }
+    if (value === null || value === undefined) {
+      return null;
+    }
+
+    if (typeId !== undefined) {
+      const custom = this.serializers[typeId];
+      if (custom) {
+        return custom(value);
+      }
+      if (isArrayType(typeId) && Array.isArray(value)) {
+        return this.serializeArray(value, getElementTypeId(typeId), getArrayDelimiter(typeId));
+      }
+      if (isRangeType(typeId) && typeof value === 'object') {
+        return this.serializeRange(value as RangeLike, getRangeSubtypeId(typeId));
+      }
+      if (isMultirangeType(typeId) && Array.isArray(value)) {
+        const subtypeId = getRangeSubtypeId(typeId);
+        return '{' + value.map(range => this.serializeRange(range, subtypeId)).join(',') + '}';
+      }
+      const format = TYPE_FORMATTERS[typeId];
+      if (format && typeof value === 'object') {
+        return format(value);
+      }
+    }
+
+    return this.serializeValue(value, typeId);
+  }
+
+  private serializeValue(value: unknown, typeId?: number): unknown {
+    // node-postgres convention: objects may provide their own text representation
+    if (typeof value === 'object' && value !== null && typeof (value as any).toPostgres === 'function') {
+      return this.serialize((value as any).toPostgres((v: unknown) => this.serialize(v)), typeId);
+    }
+
+    if (typeId !== undefined && JSON_TYPES.has(typeId)) {
+      return JSON.stringify(value, (_key, v) => typeof v === 'bigint' ? v.toString() : v);
+    }
+
+    switch (typeof value) {
+      case 'string':
+        return value;
+      case 'boolean':
+        return value;
+      case 'bigint':
+        return value.toString();
+      case 'number':
+        if (Number.isFinite(value)) {
+          // Integers that lost precision in JS would be silently rounded by the server
+          if (typeId !== undefined && INTEGER_TYPES.has(typeId) && !Number.isSafeInteger(value)) {
+            throw new Error(`Cannot serialize ${value} as an integer parameter without losing precision; use a BigInt.`);
+          }
+          return value;
+        }
+        return Number.isNaN(value) ? 'NaN' : (value > 0 ? 'Infinity' : '-Infinity');
+    }
+
+    if (value instanceof Date) {
+      if (typeId === PgTypeId.DATE) return formatDate(value);
+      if (typeId === PgTypeId.TIMESTAMP) return formatTimestamp(value, false);
+      return formatTimestamp(value, true);
+    }
+
+    // Ranges read from query results go back as range literals without a hint
+    if (value instanceof PgRange) {
+      return this.serializeRange(value);
+    }
+
+    const binary = encodeBuffersAsBytea(value);
+    if (binary !== value) {
+      return binary;
+    }
+
+    if (Array.isArray(value)) {
+      return this.serializeArray(value);
+    }
+
+    return JSON.stringify(value, (_key, v) => typeof v === 'bigint' ? v.toString() : v);
+  }
+
+  /**
+   * Build a PostgreSQL array literal, e.g. {"a","b \"c\""} or {{"1","2"},{"3","4"}}
+   */
+  public serializeArray(values: unknown[], elementTypeId?: number, delimiter = ','): string {
+    const elements = values.map(element => {
+      if (element === null || element === undefined) {
+        return 'NULL';
+      }
+      if (Array.isArray(element)) {
+        return this.serializeArray(element, elementTypeId, delimiter);
+      }
+      return quoteArrayElement(String(this.serialize(element, elementTypeId)));
+    });
+    return '{' + elements.join(delimiter) + '}';
+  }
+
+  /**
+   * Build a PostgreSQL range literal, e.g. [1,10) or ["2024-01-01 00:00:00.000+00",)
+   */
+  public serializeRange(range: RangeLike, subtypeId?: number): string {
+    if (range.empty) {
+      return 'empty';
+    }
+    const bound = (value: unknown) => value === null || value === undefined
+      ? ''
+      : quoteRangeBound(String(this.serialize(value, subtypeId)));
+    const lowerInclusive = range.lowerInclusive ?? true;
+    const upperInclusive = range.upperInclusive ?? false;
+    // Infinite bounds are always exclusive
+    const open = lowerInclusive && range.lower !== null && range.lower !== undefined ? '[' : '(';
+    const close = upperInclusive && range.upper !== null && range.upper !== undefined ? ']' : ')';
+    return `${open}${bound(range.lower)},${bound(range.upper)}${close}`;
+  }
+}
@@ -0,0 +1,124 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createPgHttpClient, LogLevel, ProxyAuthError } from './index';
+import { createRequestSigner } from './signing';
+import { createSignatureVerifier } from '../../docker/src/lib/request-signing';
+
+const okResult = { command: 'SELECT', rowCount: 0, fields: [], rows: [] };
+
+type Sent = { method: string; url: string; headers: Record<string, string>; rawBody: string };
+
+// Stand-in for the proxy: verifies signatures like its preHandler, answering 401 on failure
+function createProxy(secret: string, options: { maxAgeMs?: number; now?: () => number } = {}) {
+  const verifier = createSignatureVerifier({ secret, maxAgeMs: options.maxAgeMs ?? 60_000, now: options.now });
+  const sent: Sent[] = [];
+  let tamper: ((request: Sent) => Sent) | null = null;
+
+  const fetch = vi.fn(async (input: string, init: RequestInit) => {
+    const url = new URL(input);
+    const headers = Object.fromEntries(Object.entries(init.headers as Record<string, string>)
+      .map(([name, value]) => [name.toLowerCase(), value]));
+    let request: Sent = { method: init.method ?? 'GET', url: url.pathname + url.search, headers, rawBody: String(init.body ?? '') };
+    if (tamper) request = tamper(request);
+    sent.push(request);
+
+    const result = await verifier.verify(request);
+    const status = result.ok ? 200 : 401;
+    const body = result.ok ? okResult : { error: 'Unauthorized', message: result.reason };
+    return { ok: result.ok, status, statusText: result.ok ? 'OK' : 'Unauthorized', headers: new Headers(), json: async () => body } as unknown as Response;
+  });
+
+  return {
+    fetch,
+    sent,
+    verify: (request: Sent) => verifier.verify(request),
+    tamperWith: (fn: (request: Sent) => Sent) => { tamper = fn; },
+  };
+}
+
+const createClient = (proxy: { fetch: unknown }, signingSecret?: string) => createPgHttpClient({
+  proxyUrl: 'https://test-proxy.com',
+  fetch: proxy.fetch as typeof fetch,
+  logger: { level: LogLevel.None },
+  signingSecret,
+});
+
+describe('Request signing', () => {
+  it('should sign requests the proxy accepts', async () => {
+    const proxy = createProxy('shared-secret');
+    const client = createClient(proxy, 'shared-secret');
+    await client.query('SELECT $1::int', [1]);
+    await client.transaction([{ text: 'SELECT 1', values: [] }]);
+
+    expect(proxy.sent.map(request => request.url)).toEqual(['/query', '/transaction']);
+    const { headers } = proxy.sent[0]!;
+    expect(headers['x-signature']).toMatch(/^[0-9a-f]{64}$/);
+    expect(headers['x-signature-timestamp']).toMatch(/^\d+$/);
+    expect(headers['x-signature-nonce']).toMatch(/^[0-9a-f]{32}$/);
+    // Each request has its own nonce
+    expect(proxy.sent[1]!.headers['x-signature-nonce']).not.toBe(headers['x-signature-nonce']);
+  });
+
+  it('should not sign requests without a secret', async () => {
+    const proxy = createProxy('shared-secret');
+    const error = await createClient(proxy, undefined).query('SELECT 1').catch(e => e);
+    expect(error).toBeInstanceOf(ProxyAuthError);
+    expect(proxy.sent[0]!.headers['x-signature']).toBeUndefined();
+  });
+
+  it('should reject requests signed with another secret', async () => {
+    const proxy = createProxy('shared-secret');
+    await expect(createClient(proxy, 'wrong-secret').query('SELECT 1')).rejects.toBeInstanceOf(ProxyAuthError);
+  });
+
+  it('should reject tampered bodies and paths', async () => {
+    const proxy = createProxy('shared-secret');
+    proxy.tamperWith(request => ({ ...request, rawBody: request.rawBody.replace('SELECT 1', 'DROP TABLE users') }));
+    await expect(createClient(proxy, 'shared-secret').query('SELECT 1')).rejects.toBeInstanceOf(ProxyAuthError);
+
+    proxy.tamperWith(request => ({ ...request, url: '/transaction' }));
+    await expect(createClient(proxy, 'shared-secret').query('SELECT 1')).rejects.toBeInstanceOf(ProxyAuthError);
+  });
+
+  it('should reject stale timestamps', async () => {
+    let now = Date.now();
+    const proxy = createProxy('shared-secret', { maxAgeMs: 1000, now: () => now });
+    await createClient(proxy, 'shared-secret').query('SELECT 1');
+
+    now += 5000;
+    const error = await createClient(proxy, 'shared-secret').query('SELECT 1').catch(e => e);
+    expect(error).toBeInstanceOf(ProxyAuthError);
+
+    // Replaying the first request later fails on its timestamp, not just its nonce
+    expect(await proxy.verify(proxy.sent[0]!)).toEqual({
+      ok: false,
+      reason: 'Request timestamp is too old or too far in the future',
+    });
+  });
+
+  it('should reject replayed nonces', async () => {
+    const proxy = createProxy('shared-secret');
+    await createClient(proxy, 'shared-secret').query('SELECT 1');
+    expect(await proxy.verify(proxy.sent[0]!)).toEqual({ ok: false, reason: 'Request nonce has already been used' });
+  });
+
+  it('should cover the method, path, timestamp, nonce and body', async () => {
+    const sign = createRequestSigner('shared-secret');
+    const verifier = createSignatureVerifier({ secret: 'shared-secret', maxAgeMs: 60_000 });
+    const headers = await sign('post', '/query?x=1', '{"query":"SELECT 1"}');
+    const request = {
+      method: 'POST',
+      url: '/query?x=1',
+      headers: Object.fromEntries(Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value])),
+      rawBody: '{"query":"SELECT 1"}',
+    };
+
+    expect(await verifier.verify({ ...request, method: 'GET' })).toMatchObject({ ok: false });
+    expect(await verifier.verify({ ...request, url: '/query' })).toMatchObject({ ok: false });
+    expect(await verifier.verify({ ...request, headers: { ...request.headers, 'x-signature-timestamp': String(Date.now() + 1) } }))
+      .toMatchObject({ ok: false });
+    expect(await verifier.verify({ ...request, headers: { ...request.headers, 'x-signature-nonce': 'ff'.repeat(16) } }))
+      .toMatchObject({ ok: false });
+    // Rejected attempts don't use up the nonce
+    expect(await verifier.verify(request)).toEqual({ ok: true });
+  });
+});
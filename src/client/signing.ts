@@ -0,0 +1,53 @@
+import { bytesToHex } from './binary';
+import { PgError } from './errors';
+
+/**
+ * HMAC-SHA256 request signing with a secret shared with the proxy. The signature covers the
+ * method, path, timestamp, nonce and a SHA-256 digest of the body, so a captured request can
+ * neither be altered nor replayed: the proxy rejects stale timestamps and nonces it has seen.
+ * The proxy's verifier (docker/src/lib/request-signing.js) must build the same canonical string.
+ */
+
+export const SIGNATURE_HEADER = 'X-Signature';
+export const SIGNATURE_TIMESTAMP_HEADER = 'X-Signature-Timestamp';
+export const SIGNATURE_NONCE_HEADER = 'X-Signature-Nonce';
+
+const encoder = new TextEncoder();
+
+// One line per signed component; the body is represented by its hex SHA-256 digest
+export function canonicalRequest(method: string, path: string, timestamp: string, nonce: string, bodyDigest: string): string {
+  return [method.toUpperCase(), path, timestamp, nonce, bodyDigest].join('\n');
+}
+
+function getSubtle() {
+  const subtle = globalThis.crypto?.subtle;
+  if (!subtle) {
+    throw new PgError('Request signing requires WebCrypto (crypto.subtle), which is not available in this environment.');
+  }
+  return subtle;
+}
+
+export async function sha256Hex(data: string): Promise<string> {
+  return bytesToHex(new Uint8Array(await getSubtle().digest('SHA-256', encoder.encode(data))));
+}
+
+export type RequestSigner = (method: string, path: string, body: string) => Promise<Record<string, string>>;
+
+// Returns a function producing the signature headers for a request; the key is imported once
+export function createRequestSigner(secret: string): RequestSigner {
+  let key: Promise<CryptoKey> | null = null;
+
+  return async (method, path, body) => {
+    const subtle = getSubtle();
+    key ??= subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+    const timestamp = String(Date.now());
+    const nonce = bytesToHex(globalThis.crypto.getRandomValues(new Uint8Array(16)));
+    const canonical = canonicalRequest(method, path, timestamp, nonce, await sha256Hex(body));
+    const signature = await subtle.sign('HMAC', await key, encoder.encode(canonical));
+    return {
+      [SIGNATURE_TIMESTAMP_HEADER]: timestamp,
+      [SIGNATURE_NONCE_HEADER]: nonce,
+      [SIGNATURE_HEADER]: bytesToHex(new Uint8Array(signature)),
+    };
+  };
+}
@@ -0,0 +1,149 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createPgHttpClient, DatabaseError, LogLevel, PgError } from './index';
+import { formatQueryResult } from '../../docker/src/lib/utils';
+
+const mockFetch = vi.fn();
+
+const fields = [{ name: 'id', dataTypeID: 20 }, { name: 'created_at', dataTypeID: 1082 }];
+
+// An NDJSON response whose body is pulled chunk by chunk; pulls counts the chunks read so far
+const ndjsonResponse = (chunks: string[]) => {
+  const encoder = new TextEncoder();
+  const state = { pulls: 0 };
+  const body = new ReadableStream<Uint8Array>({
+    pull(controller) {
+      const chunk = chunks[state.pulls++];
+      if (chunk === undefined) {
+        controller.close();
+      } else {
+        controller.enqueue(encoder.encode(chunk));
+      }
+    },
+  }, { highWaterMark: 0 });
+  return { response: new Response(body, { headers: { 'Content-Type': 'application/x-ndjson' } }), state };
+};
+
+const line = (value: unknown) => JSON.stringify(value) + '\n';
+
+describe('stream', () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+  });
+
+  const createClient = (arrayMode = false) => createPgHttpClient({
+    proxyUrl: 'https://test-proxy.com',
+    fetch: mockFetch as unknown as typeof fetch,
+    logger: { level: LogLevel.None },
+    arrayMode,
+  });
+
+  it('should yield parsed rows as batches arrive', async () => {
+    const { response } = ndjsonResponse([
+      line({ fields }),
+      // Lines may be split across chunks
+      '{"rows":[["1","2024-01-01"],["2",',
+      '"2024-01-02"]]}\n' + line({ rows: [['3', null]] }),
+      line({ end: { command: 'SELECT', rowCount: 3 } }),
+    ]);
+    mockFetch.mockResolvedValueOnce(response);
+    const { sql, stream } = createClient();
+
+    const rows = [];
+    for await (const row of stream(sql`SELECT id, created_at FROM events WHERE id > ${0}`, { batchSize: 2 })) {
+      rows.push(row);
+    }
+
+    expect(rows).toEqual([
+      { id: 1n, created_at: new Date('2024-01-01T00:00:00Z') },
+      { id: 2n, created_at: new Date('2024-01-02T00:00:00Z') },
+      { id: 3n, created_at: null },
+    ]);
+    expect(mockFetch.mock.calls[0]![0]).toBe('https://test-proxy.com/stream');
+    expect(JSON.parse(mockFetch.mock.calls[0]![1].body)).toEqual({
+      query: 'SELECT id, created_at FROM events WHERE id > $1',
+      params: [0],
+      batchSize: 2,
+    });
+  });
+
+  it('should only read the body as rows are consumed', async () => {
+    const { response, state } = ndjsonResponse([
+      line({ fields }),
+      line({ rows: [['1', null]] }),
+      line({ rows: [['2', null]] }),
+      line({ rows: [['3', null]] }),
+      line({ end: { command: 'SELECT', rowCount: 3 } }),
+    ]);
+    mockFetch.mockResolvedValueOnce(response);
+    const { sql, stream } = createClient(true);
+
+    expect(mockFetch).not.toHaveBeenCalled();
+    const rows = stream(sql`SELECT id, created_at FROM events`);
+    expect((await rows.next()).value).toEqual([1n, null]);
+    expect(state.pulls).toBe(2);
+
+    // Stopping early cancels the body without reading the rest
+    await rows.return();
+    expect(state.pulls).toBe(2);
+  });
+
+  it('should throw errors sent after the stream started', async () => {
+    const { response } = ndjsonResponse([
+      line({ fields }),
+      line({ rows: [['1', null]] }),
+      line({ error: { message: 'canceling statement due to statement timeout', code: '57014' } }),
+    ]);
+    mockFetch.mockResolvedValueOnce(response);
+    const { sql, stream } = createClient();
+
+    const rows: unknown[] = [];
+    const error = await (async () => {
+      for await (const row of stream(sql`SELECT id, created_at FROM events`)) rows.push(row);
+    })().catch(e => e);
+    expect(rows).toHaveLength(1);
+    expect(error.code).toBe('57014');
+
+    // A stream cut off before its end line is an error too
+    mockFetch.mockResolvedValueOnce(ndjsonResponse([line({ fields }), line({ rows: [] })]).response);
+    await expect(stream(sql`SELECT 1`).next()).rejects.toThrow('Stream ended before the query completed.');
+  });
+
+  it('should reject with the proxy error when the query fails up front', async () => {
+    mockFetch.mockResolvedValueOnce(new Response(
+      JSON.stringify({ message: 'relation "missing" does not exist', code: '42P01' }),
+      { status: 400 }
+    ));
+    const { sql, stream } = createClient();
+
+    const error = await stream(sql`SELECT * FROM missing`).next().catch(e => e);
+    expect(error).toBeInstanceOf(DatabaseError);
+    expect(error).toBeInstanceOf(PgError);
+    expect(error.code).toBe('42P01');
+  });
+
+  it('should return the same values as query() for rows sent by the proxy', async () => {
+    // A FETCH result as pg returns it: int8 as a string, timestamptz as a Date. /query sends it
+    // through formatQueryResult and /stream sends its fields and rows as NDJSON lines.
+    const pgResult = {
+      command: 'FETCH',
+      rowCount: 1,
+      fields: [{ name: 'id', dataTypeID: 20 }, { name: 'created_at', dataTypeID: 1184 }],
+      rows: [{ id: '9007199254740993', created_at: new Date('2024-01-15T08:30:05.123Z') }],
+    };
+    const { fields: proxyFields, rows } = formatQueryResult(pgResult, true)!;
+    mockFetch
+      .mockResolvedValueOnce(new Response(JSON.stringify(formatQueryResult(pgResult, true))))
+      .mockResolvedValueOnce(ndjsonResponse([
+        line({ fields: proxyFields, rowAsArray: false }),
+        line({ rows }),
+        line({ end: { command: 'SELECT', rowCount: 1 } }),
+      ]).response);
+    const { sql, query, stream } = createClient();
+
+    const queried = (await query('SELECT id, created_at FROM events')).rows[0];
+    const streamed = [];
+    for await (const row of stream(sql`SELECT id, created_at FROM events`)) streamed.push(row);
+    expect(streamed).toEqual([queried]);
+    expect(queried).toEqual({ id: '9007199254740993', created_at: '2024-01-15T08:30:05.123Z' });
+  });
+});
@@ -0,0 +1,67 @@
+// Readers for streamed response bodies. Chunks are only read from the body when the consumer asks
+// for the next value, so a slow consumer slows down the sender (backpressure).
+
+// Lines of a UTF-8 body, without their line endings
+async function* readLines(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffered = '';
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      buffered += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+      let newline: number;
+      while ((newline = buffered.indexOf('\n')) !== -1) {
+        yield buffered.slice(0, newline).replace(/\r$/, '');
+        buffered = buffered.slice(newline + 1);
+      }
+
+      if (done) {
+        // The last line may lack its newline
+        if (buffered) yield buffered;
+        return;
+      }
+    }
+  } finally {
+    // Stops the download when the consumer breaks out early; a no-op after the body was read
+    await reader.cancel().catch(() => {});
+  }
+}
+
+// Values of a newline-delimited JSON body
+export async function* readNdjson(body: ReadableStream<Uint8Array>): AsyncGenerator<any> {
+  for await (const line of readLines(body)) {
+    if (line.trim()) yield JSON.parse(line);
+  }
+}
+
+export interface ServerSentEvent {
+  event: string; // 'message' unless the event names another type
+  data: string;
+  id?: string; // Set when the event carries an ID
+}
+
+// Events of a text/event-stream body; comments (heartbeats) and events without data are skipped
+export async function* readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<ServerSentEvent> {
+  let event = 'message';
+  let data: string[] = [];
+  let id: string | undefined;
+  for await (const line of readLines(body)) {
+    if (line === '') {
+      if (data.length > 0) yield { event, data: data.join('\n'), ...(id !== undefined ? { id } : {}) };
+      event = 'message';
+      data = [];
+      id = undefined;
+      continue;
+    }
+    if (line.startsWith(':')) continue;
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    const value = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '');
+    if (field === 'event') event = value;
+    else if (field === 'data') data.push(value);
+    else if (field === 'id' && !value.includes('\0')) id = value;
+  }
+}
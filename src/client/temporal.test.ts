@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { parseDateTime, parseInterval, PgInterval } from './temporal';
+import { TypeParser } from './parsing';
+import { PgTypeId } from './pg-types';
+import { TypeSerializer } from './serialization';
+
+describe('Date/time parsing', () => {
+  it('should parse timestamptz with any offset format', () => {
+    expect(parseDateTime('2024-01-15 08:30:05.123456+00')).toEqual(new Date('2024-01-15T08:30:05.123Z'));
+    expect(parseDateTime('2024-01-15 08:30:05+05:30')).toEqual(new Date('2024-01-15T03:00:05Z'));
+    expect(parseDateTime('1900-01-01 00:00:00+00:09:21')).toEqual(new Date('1899-12-31T23:50:39Z'));
+  });
+
+  it('should interpret timestamps without time zone in the configured zone', () => {
+    expect(parseDateTime('2024-01-15 08:30:05')).toEqual(new Date('2024-01-15T08:30:05Z'));
+    expect(parseDateTime('2024-01-15 08:30:05', '-03:00')).toEqual(new Date('2024-01-15T11:30:05Z'));
+    expect(parseDateTime('2024-07-01 12:00:00', 'Europe/Berlin')).toEqual(new Date('2024-07-01T10:00:00Z'));
+    expect(parseDateTime('2024-01-01 12:00:00', 'Europe/Berlin')).toEqual(new Date('2024-01-01T11:00:00Z'));
+  });
+
+  it('should parse dates as UTC midnight', () => {
+    expect(parseDateTime('2024-01-15', 'Asia/Tokyo')).toEqual(new Date('2024-01-15T00:00:00Z'));
+  });
+
+  it('should handle infinity, BC and years outside 1000-9999', () => {
+    expect(parseDateTime('infinity')).toBe(Infinity);
+    expect(parseDateTime('-infinity')).toBe(-Infinity);
+    expect((parseDateTime('0044-03-15 BC') as Date).getUTCFullYear()).toBe(-43);
+    expect((parseDateTime('0099-06-01 00:00:00+00') as Date).getUTCFullYear()).toBe(99);
+    expect((parseDateTime('10000-01-01') as Date).getUTCFullYear()).toBe(10000);
+  });
+});
+
+describe('Interval parsing', () => {
+  it('should parse the postgres interval style', () => {
+    expect(parseInterval('1 year 2 mons -3 days 04:05:06.789')).toEqual(new PgInterval(1, 2, -3, 4, 5, 6, 789));
+    expect(parseInterval('-1 days +02:00:00')).toEqual(new PgInterval(0, 0, -1, 2, 0, 0, 0));
+    expect(parseInterval('-00:30:00')).toEqual(new PgInterval(0, 0, 0, 0, -30, 0, 0));
+    expect(parseInterval('00:00:00')).toEqual(new PgInterval());
+  });
+
+  it('should parse the iso_8601 interval style', () => {
+    expect(parseInterval('P1Y2M-3DT4H5M6.789S')).toEqual(new PgInterval(1, 2, -3, 4, 5, 6, 789));
+    expect(parseInterval('P2W')).toEqual(new PgInterval(0, 0, 14));
+  });
+
+  it('should round-trip through the serializer as ISO 8601', () => {
+    const interval = new PgInterval(1, 0, 3, 0, 0, 1, 500);
+    expect(interval.toISOString()).toBe('P1Y3DT1.5S');
+    expect(new TypeSerializer().serialize(interval)).toBe('P1Y3DT1.5S');
+    expect(new PgInterval().toISOString()).toBe('PT0S');
+  });
+});
+
+describe('TypeParser result modes', () => {
+  it('should keep the historical defaults', () => {
+    const parser = new TypeParser();
+    expect(parser.getTypeParser(PgTypeId.NUMERIC)('1.50')).toBe(1.5);
+    expect(parser.getTypeParser(PgTypeId.INT8)('42')).toBe(42n);
+    expect(parser.getTypeParser(PgTypeId.TIMESTAMP)('2024-01-15 08:30:05')).toEqual(new Date('2024-01-15T08:30:05Z'));
+    expect(parser.getTypeParser(PgTypeId.TIME)('08:30:00')).toBe('08:30:00');
+    expect(parser.getTypeParser(PgTypeId.TIMETZ)('08:30:00+02')).toBe('08:30:00+02');
+    expect(parser.getTypeParser(PgTypeId.INTERVAL)('3 days')).toEqual(new PgInterval(0, 0, 3));
+  });
+
+  it('should return exact numerics and JSON-safe bigints as strings', () => {
+    const parser = new TypeParser(undefined, { numeric: 'string', bigint: 'string' });
+    expect(parser.getTypeParser(PgTypeId.NUMERIC)('12345678901234567890.01')).toBe('12345678901234567890.01');
+    expect(parser.getTypeParser(PgTypeId.INT8_ARRAY)('{1,9223372036854775807}')).toEqual(['1', '9223372036854775807']);
+    expect(new TypeParser(undefined, { bigint: 'number' }).getTypeParser(PgTypeId.INT8)('42')).toBe(42);
+  });
+
+  it('should return temporal values as strings or through a custom function', () => {
+    const strings = new TypeParser(undefined, { dates: 'string' });
+    expect(strings.getTypeParser(PgTypeId.TIMESTAMPTZ)('2024-01-15 08:30:05+00')).toBe('2024-01-15 08:30:05+00');
+    expect(strings.getTypeParser(PgTypeId.INTERVAL)('3 days')).toBe('3 days');
+
+    const custom = new TypeParser(undefined, { dates: (value, typeId) => `${typeId}:${value}` });
+    expect(custom.getTypeParser(PgTypeId.DATE_ARRAY)('{2024-01-15}')).toEqual([`${PgTypeId.DATE}:2024-01-15`]);
+    expect(custom.getTypeParser(PgTypeId.TIME)('08:30:00.5')).toBe(`${PgTypeId.TIME}:08:30:00.5`);
+    expect(custom.getTypeParser(PgTypeId.TIMETZ_ARRAY)('{08:30:00+02,23:59:59-03:30}'))
+      .toEqual([`${PgTypeId.TIMETZ}:08:30:00+02`, `${PgTypeId.TIMETZ}:23:59:59-03:30`]);
+    expect(strings.getTypeParser(PgTypeId.TIMETZ)('08:30:00+02')).toBe('08:30:00+02');
+  });
+
+  it('should apply the time zone to timestamps only', () => {
+    const parser = new TypeParser(undefined, { timeZone: '+02:00' });
+    expect(parser.getTypeParser(PgTypeId.TIMESTAMP)('2024-01-15 08:00:00')).toEqual(new Date('2024-01-15T06:00:00Z'));
+    expect(parser.getTypeParser(PgTypeId.TIMESTAMPTZ)('2024-01-15 08:00:00+00')).toEqual(new Date('2024-01-15T08:00:00Z'));
+  });
+
+  it('should reject unknown time zones up front', () => {
+    expect(() => new TypeParser(undefined, { timeZone: 'Mars/Olympus' })).toThrow(RangeError);
+  });
+});
@@ -0,0 +1,191 @@
+/**
+ * Parsers for PostgreSQL date/time output (DateStyle ISO, IntervalStyle postgres or iso_8601)
+ */
+
+// Shape of an interval; PostgreSQL keeps months, days and time separately, so do we
+export class PgInterval {
+  constructor(
+    public years = 0,
+    public months = 0,
+    public days = 0,
+    public hours = 0,
+    public minutes = 0,
+    public seconds = 0,
+    public milliseconds = 0
+  ) {}
+
+  // ISO 8601 duration, e.g. P1Y2M3DT4H5M6.789S
+  public toISOString(): string {
+    const date = (this.years ? `${this.years}Y` : '') +
+      (this.months ? `${this.months}M` : '') +
+      (this.days ? `${this.days}D` : '');
+    const secondsTotal = this.seconds + this.milliseconds / 1000;
+    const time = (this.hours ? `${this.hours}H` : '') +
+      (this.minutes ? `${this.minutes}M` : '') +
+      (secondsTotal ? `${Number(secondsTotal.toFixed(6))}S` : '');
+    if (!date && !time) return 'PT0S';
+    return `P${date}${time ? 'T' + time : ''}`;
+  }
+
+  // Sent back to the server in ISO 8601 form, which interval input always accepts
+  public toPostgres(): string {
+    return this.toISOString();
+  }
+}
+
+const POSTGRES_INTERVAL_UNIT = /([+-]?\d+) (year|mon|day)s?/g;
+const POSTGRES_INTERVAL_TIME = /([+-])?(\d+):(\d{2}):(\d{2})(?:\.(\d+))?/;
+const ISO_INTERVAL = /^P(?:([+-]?\d+)Y)?(?:([+-]?\d+)M)?(?:([+-]?\d+)W)?(?:([+-]?\d+)D)?(?:T(?:([+-]?\d+)H)?(?:([+-]?\d+)M)?(?:([+-]?\d+(?:\.\d+)?)S)?)?$/;
+
+// Split fractional seconds text (after the dot) into milliseconds, keeping microseconds as a fraction
+function fractionToMilliseconds(fraction: string | undefined): number {
+  return fraction ? Number(`0.${fraction}`) * 1000 : 0;
+}
+
+/**
+ * Parse interval output, e.g. "1 year 2 mons -3 days 04:05:06.789" or "P1Y2M-3DT4H5M6.789S"
+ */
+export function parseInterval(value: string): PgInterval {
+  const interval = new PgInterval();
+
+  const iso = ISO_INTERVAL.exec(value);
+  if (iso) {
+    const int = (text: string | undefined) => text ? parseInt(text, 10) : 0;
+    interval.years = int(iso[1]);
+    interval.months = int(iso[2]);
+    interval.days = int(iso[3]) * 7 + int(iso[4]);
+    interval.hours = int(iso[5]);
+    interval.minutes = int(iso[6]);
+    const seconds = iso[7] ? Number(iso[7]) : 0;
+    interval.seconds = Math.trunc(seconds);
+    interval.milliseconds = Number(((seconds - interval.seconds) * 1000).toFixed(3));
+    return interval;
+  }
+
+  let match: RegExpExecArray | null;
+  POSTGRES_INTERVAL_UNIT.lastIndex = 0;
+  while ((match = POSTGRES_INTERVAL_UNIT.exec(value)) !== null) {
+    const amount = parseInt(match[1]!, 10);
+    if (match[2] === 'year') interval.years = amount;
+    else if (match[2] === 'mon') interval.months = amount;
+    else interval.days = amount;
+  }
+
+  const time = POSTGRES_INTERVAL_TIME.exec(value);
+  if (time) {
+    // The sign applies to every time field; `|| 0` avoids -0 for zero fields
+    const sign = time[1] === '-' ? -1 : 1;
+    interval.hours = sign * parseInt(time[2]!, 10) || 0;
+    interval.minutes = sign * parseInt(time[3]!, 10) || 0;
+    interval.seconds = sign * parseInt(time[4]!, 10) || 0;
+    interval.milliseconds = sign * fractionToMilliseconds(time[5]) || 0;
+  }
+
+  return interval;
+}
+
+const DATE_TIME = /^(\d{4,})-(\d{2})-(\d{2})(?:[ T](\d{2}):(\d{2}):(\d{2})(?:\.(\d+))?)?(?:([+-])(\d{2})(?::?(\d{2}))?(?::?(\d{2}))?)?( BC)?$/;
+
+// Formatters per IANA time zone, created lazily (constructing them is comparatively slow)
+const zoneFormatters = new Map<string, Intl.DateTimeFormat>();
+
+function getZoneFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = zoneFormatters.get(timeZone);
+  if (!formatter) {
+    // Throws a RangeError for unknown time zones
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      era: 'short',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    zoneFormatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+// Offset of a time zone from UTC at an instant, in milliseconds
+function zoneOffsetAt(timeZone: string, instant: number): number {
+  const parts: Record<string, string> = {};
+  for (const part of getZoneFormatter(timeZone).formatToParts(new Date(instant))) {
+    parts[part.type] = part.value;
+  }
+  const year = parts.era === 'BC' || parts.era === 'B' ? 1 - Number(parts.year) : Number(parts.year);
+  const wallClock = utcMilliseconds(year, Number(parts.month), Number(parts.day),
+    Number(parts.hour), Number(parts.minute), Number(parts.second), 0);
+  return wallClock - (instant - (((instant % 1000) + 1000) % 1000));
+}
+
+const FIXED_OFFSET = /^([+-])(\d{2})(?::?(\d{2}))?$/;
+
+// Validate a timeZone option up front: 'UTC', a fixed offset such as '+02:00', or an IANA name
+export function assertValidTimeZone(timeZone: string): void {
+  if (timeZone === 'UTC' || FIXED_OFFSET.test(timeZone)) return;
+  getZoneFormatter(timeZone);
+}
+
+/**
+ * Convert a wall-clock time in `timeZone` (given as if it were UTC) to a UTC instant.
+ * For IANA zones the offset is re-evaluated at the result so DST transitions resolve.
+ */
+function wallClockToInstant(wallClock: number, timeZone: string): number {
+  if (timeZone === 'UTC') return wallClock;
+
+  const fixed = FIXED_OFFSET.exec(timeZone);
+  if (fixed) {
+    const offset = (parseInt(fixed[2]!, 10) * 60 + parseInt(fixed[3] ?? '0', 10)) * 60000;
+    return wallClock - (fixed[1] === '-' ? -offset : offset);
+  }
+
+  const guess = wallClock - zoneOffsetAt(timeZone, wallClock);
+  return wallClock - zoneOffsetAt(timeZone, guess);
+}
+
+// Date.UTC that also handles years 0-99 and negative (astronomical) years
+function utcMilliseconds(
+  year: number, month: number, day: number,
+  hours: number, minutes: number, seconds: number, milliseconds: number
+): number {
+  const date = new Date(0);
+  date.setUTCFullYear(year, month - 1, day);
+  date.setUTCHours(hours, minutes, seconds, milliseconds);
+  return date.getTime();
+}
+
+/**
+ * Parse date, timestamp and timestamptz output into a Date. 'infinity' and '-infinity'
+ * become Infinity and -Infinity, BC years are supported and sub-millisecond precision is
+ * truncated. Values without an offset are interpreted in `timeZone` (dates use UTC midnight).
+ */
+export function parseDateTime(value: string, timeZone = 'UTC'): Date | number {
+  if (value === 'infinity') return Infinity;
+  if (value === '-infinity') return -Infinity;
+
+  const match = DATE_TIME.exec(value);
+  if (!match) {
+    // Not in ISO DateStyle; leave it to the runtime
+    return new Date(value);
+  }
+
+  const [, yearText, month, day, hours, minutes, seconds, fraction, sign, offsetHours, offsetMinutes, offsetSeconds, bc] = match;
+  const year = bc ? 1 - parseInt(yearText!, 10) : parseInt(yearText!, 10);
+  const wallClock = utcMilliseconds(
+    year, Number(month), Number(day),
+    Number(hours ?? 0), Number(minutes ?? 0), Number(seconds ?? 0),
+    Math.trunc(fractionToMilliseconds(fraction))
+  );
+
+  if (sign) {
+    const offset = ((Number(offsetHours) * 60 + Number(offsetMinutes ?? 0)) * 60 + Number(offsetSeconds ?? 0)) * 1000;
+    return new Date(wallClock - (sign === '-' ? -offset : offset));
+  }
+  if (hours === undefined) {
+    return new Date(wallClock);
+  }
+  return new Date(wallClockToInstant(wallClock, timeZone));
+}
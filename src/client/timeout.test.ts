@@ -0,0 +1,118 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createPgHttpClient, LogLevel, QueryTimeoutError, QueryCanceledError } from './index';
+
+const mockFetch = vi.fn();
+
+const jsonResponse = (body: any, status = 200) => ({
+  ok: status >= 200 && status < 300,
+  status,
+  statusText: status === 200 ? 'OK' : 'Error',
+  headers: new Headers(),
+  json: async () => body,
+}) as unknown as Response;
+
+const okResult = { command: 'SELECT', rowCount: 1, fields: [{ name: 'n', dataTypeID: 23 }], rows: [['1']] };
+
+// A request the proxy never answers; it rejects like fetch() once its signal aborts
+const hangingFetch = (_url: string, init: RequestInit) => new Promise<Response>((_resolve, reject) => {
+  if (init.signal?.aborted) reject(init.signal.reason);
+  init.signal?.addEventListener('abort', () => reject(init.signal!.reason));
+});
+
+const headersOf = (call: number) => mockFetch.mock.calls[call]![1].headers as Record<string, string>;
+
+describe('Timeouts and cancellation', () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+  });
+
+  const createClient = (timeoutMs?: number) => createPgHttpClient({
+    proxyUrl: 'https://test-proxy.com',
+    fetch: mockFetch as unknown as typeof fetch,
+    logger: { level: LogLevel.None },
+    timeoutMs,
+  });
+
+  it('should send the timeout to the proxy and pass a signal to fetch', async () => {
+    mockFetch.mockResolvedValueOnce(jsonResponse(okResult));
+    await createClient().query('SELECT 1', [], { timeoutMs: 500 });
+    expect(headersOf(0)['X-Statement-Timeout']).toBe('500');
+    expect(mockFetch.mock.calls[0]![1].signal).toBeInstanceOf(AbortSignal);
+
+    mockFetch.mockResolvedValueOnce(jsonResponse(okResult));
+    await createClient().query('SELECT 1');
+    expect(headersOf(1)['X-Statement-Timeout']).toBeUndefined();
+    expect(mockFetch.mock.calls[1]![1].signal).toBeUndefined();
+  });
+
+  it('should reject with QueryTimeoutError when the request takes too long', async () => {
+    mockFetch.mockImplementationOnce(hangingFetch);
+    const error = await createClient(20).execute('SELECT pg_sleep(10)').catch(e => e);
+    expect(error).toBeInstanceOf(QueryTimeoutError);
+    expect(error.message).toBe('Query timed out after 20ms');
+  });
+
+  it('should let per-call timeouts override the client default', async () => {
+    mockFetch.mockResolvedValueOnce(jsonResponse(okResult));
+    await createClient(1000).query('SELECT 1', [], { timeoutMs: 50 });
+    expect(headersOf(0)['X-Statement-Timeout']).toBe('50');
+  });
+
+  it('should reject with QueryCanceledError when the caller aborts', async () => {
+    mockFetch.mockImplementationOnce(hangingFetch);
+    const controller = new AbortController();
+    const pending = createClient().query('SELECT pg_sleep(10)', [], { signal: controller.signal });
+    controller.abort(new Error('request cancelled'));
+
+    const error = await pending.catch(e => e);
+    expect(error).toBeInstanceOf(QueryCanceledError);
+    expect(error.sourceError.message).toBe('request cancelled');
+
+    // An already aborted signal fails without waiting for the proxy
+    mockFetch.mockImplementationOnce(hangingFetch);
+    await expect(createClient().query('SELECT 1', [], { signal: controller.signal })).rejects.toBeInstanceOf(QueryCanceledError);
+  });
+
+  it('should not retry aborted requests', async () => {
+    mockFetch.mockImplementation(hangingFetch);
+    const client = createPgHttpClient({
+      proxyUrl: 'https://test-proxy.com',
+      fetch: mockFetch as unknown as typeof fetch,
+      logger: { level: LogLevel.None },
+      retry: { baseDelayMs: 0 },
+    });
+    await expect(client.query('SELECT 1', [], { timeoutMs: 10 })).rejects.toBeInstanceOf(QueryTimeoutError);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should accept options on sql template queries', async () => {
+    mockFetch.mockResolvedValueOnce(jsonResponse(okResult));
+    const result = await createClient().sql`SELECT ${1} AS n`.withOptions({ timeoutMs: 250 });
+    expect(result.rows).toEqual([{ n: 1 }]);
+    expect(headersOf(0)['X-Statement-Timeout']).toBe('250');
+  });
+
+  it('should apply transaction timeouts to every request but the rollback', async () => {
+    mockFetch
+      .mockResolvedValueOnce(jsonResponse({ transactionId: 'tx-1' }))
+      .mockImplementationOnce(hangingFetch)
+      .mockResolvedValueOnce(jsonResponse({ transactionId: 'tx-1', status: 'rolled_back' }));
+
+    const error = await createClient().transaction(async (tx) => {
+      await tx.query('UPDATE accounts SET balance = 0');
+    }, { timeoutMs: 20 }).catch(e => e);
+
+    expect(error).toBeInstanceOf(QueryTimeoutError);
+    expect(headersOf(0)['X-Statement-Timeout']).toBe('20');
+    expect(headersOf(1)['X-Statement-Timeout']).toBe('20');
+    expect(mockFetch.mock.calls[2]![0]).toBe('https://test-proxy.com/transaction/rollback');
+    expect(headersOf(2)['X-Statement-Timeout']).toBeUndefined();
+  });
+
+  it('should bound batch transactions', async () => {
+    mockFetch.mockImplementationOnce(hangingFetch);
+    await expect(createClient().transaction([{ text: 'SELECT 1', values: [] }], { timeoutMs: 10 }))
+      .rejects.toBeInstanceOf(QueryTimeoutError);
+    expect(headersOf(0)['X-Statement-Timeout']).toBe('10');
+  });
+});
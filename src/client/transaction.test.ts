@@ -0,0 +1,205 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createPgHttpClient, LogLevel } from './index';
+
+const mockFetch = vi.fn();
+
+// Arguments of the i-th fetch call
+const fetchCall = (i: number): [string, RequestInit & { headers: Record<string, string>; body: string }] =>
+  mockFetch.mock.calls[i] as any;
+
+// Build a minimal fetch Response stand-in
+const jsonResponse = (body: any, status = 200) => ({
+  ok: status >= 200 && status < 300,
+  status,
+  statusText: status === 200 ? 'OK' : 'Error',
+  json: async () => body,
+}) as Response;
+
+const queryResult = (rows: any[][], fields: { name: string; dataTypeID: number }[]) => ({
+  command: 'SELECT',
+  rowCount: rows.length,
+  fields,
+  rows,
+});
+
+describe('Interactive transactions', () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+  });
+
+  const createClient = () => createPgHttpClient({
+    proxyUrl: 'https://test-proxy.com/',
+    authToken: 'test-token',
+    sessionId: 'session-1',
+    fetch: mockFetch as unknown as typeof fetch,
+    logger: { level: LogLevel.None },
+  });
+
+  it('should begin, run queries on the transaction and commit', async () => {
+    mockFetch
+      .mockResolvedValueOnce(jsonResponse({ transactionId: 'tx-1' }))
+      .mockResolvedValueOnce(jsonResponse(queryResult([['1']], [{ name: 'id', dataTypeID: 23 }])))
+      .mockResolvedValueOnce(jsonResponse(queryResult([], [])))
+      .mockResolvedValueOnce(jsonResponse({ transactionId: 'tx-1', status: 'committed' }));
+
+    const client = createClient();
+    const result = await client.transaction(async (tx) => {
+      const { rows } = await tx.query('SELECT id FROM users WHERE email = $1', ['a@example.com']);
+      await tx.sql`UPDATE users SET seen = true WHERE id = ${rows[0].id}`;
+      return rows[0].id;
+    }, { isolationLevel: 'Serializable' });
+
+    expect(result).toBe(1);
+    expect(mockFetch.mock.calls.map(([url]) => url)).toEqual([
+      'https://test-proxy.com/transaction/begin',
+      'https://test-proxy.com/query',
+      'https://test-proxy.com/query',
+      'https://test-proxy.com/transaction/commit',
+    ]);
+
+    const beginHeaders = fetchCall(0)[1].headers;
+    expect(beginHeaders['Neon-Batch-Isolation-Level']).toBe('Serializable');
+    expect(beginHeaders['X-Session-ID']).toBe('session-1');
+
+    for (const [, init] of mockFetch.mock.calls.slice(1)) {
+      expect(init.headers['X-Transaction-ID']).toBe('tx-1');
+      expect(init.headers['Authorization']).toBe('Bearer test-token');
+    }
+    expect(JSON.parse(fetchCall(2)[1].body)).toEqual({
+      query: 'UPDATE users SET seen = true WHERE id = $1',
+      params: [1],
+    });
+  });
+
+  it('should roll back and rethrow when the callback throws', async () => {
+    mockFetch
+      .mockResolvedValueOnce(jsonResponse({ transactionId: 'tx-2' }))
+      .mockResolvedValueOnce(jsonResponse({ transactionId: 'tx-2', status: 'rolled_back' }));
+
+    const client = createClient();
+    const failure = new Error('business rule violated');
+
+    await expect(client.transaction(async () => {
+      throw failure;
+    })).rejects.toBe(failure);
+
+    expect(fetchCall(1)[0]).toBe('https://test-proxy.com/transaction/rollback');
+    expect(fetchCall(1)[1].headers['X-Transaction-ID']).toBe('tx-2');
+  });
+
+  it('should reject queries issued after the transaction completed', async () => {
+    mockFetch
+      .mockResolvedValueOnce(jsonResponse({ transactionId: 'tx-3' }))
+      .mockResolvedValueOnce(jsonResponse({ transactionId: 'tx-3', status: 'committed' }));
+
+    const client = createClient();
+    let leaked: any;
+    await client.transaction(async (tx) => {
+      leaked = tx;
+    });
+
+    await expect(leaked.query('SELECT 1')).rejects.toThrow('has already completed');
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should surface commit failures', async () => {
+    mockFetch
+      .mockResolvedValueOnce(jsonResponse({ transactionId: 'tx-4' }))
+      .mockResolvedValueOnce(jsonResponse({ message: 'deferred constraint violated', code: '23503' }, 400));
+
+    const client = createClient();
+    await expect(client.transaction(async () => 'done')).rejects.toMatchObject({
+      name: 'DatabaseError',
+      code: '23503',
+    });
+  });
+
+  it('should keep sending arrays of queries to the batch endpoint', async () => {
+    mockFetch.mockResolvedValueOnce(jsonResponse({ results: [queryResult([], [])] }));
+
+    const client = createClient();
+    await client.transaction([{ text: 'SELECT 1', values: [] }]);
+
+    expect(fetchCall(0)[0]).toBe('https://test-proxy.com/transaction');
+  });
+});
+
+describe('Retrying transactions on conflicts', () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+  });
+
+  const client = createPgHttpClient({
+    proxyUrl: 'https://test-proxy.com',
+    fetch: mockFetch as unknown as typeof fetch,
+    logger: { level: LogLevel.None },
+  });
+
+  const serializationFailure = () => jsonResponse({ message: 'could not serialize access due to concurrent update', code: '40001' }, 400);
+  const deadlock = () => jsonResponse({ message: 'deadlock detected', code: '40P01' }, 400);
+
+  it('should re-run a batch after serialization failures and deadlocks', async () => {
+    mockFetch
+      .mockResolvedValueOnce(serializationFailure())
+      .mockResolvedValueOnce(deadlock())
+      .mockResolvedValueOnce(jsonResponse({ results: [queryResult([['1']], [{ name: 'n', dataTypeID: 23 }])] }));
+
+    const results = await client.transaction(
+      [{ text: 'UPDATE counters SET n = n + 1 RETURNING n', values: [] }],
+      { isolationLevel: 'Serializable', retryOnConflict: { baseDelayMs: 0 } }
+    );
+    expect(results).toEqual([[{ n: 1 }]]);
+    expect(results.attempts).toBe(3);
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('should report the attempts on the final error', async () => {
+    mockFetch.mockImplementation(async () => serializationFailure());
+
+    const error = await client.transaction(
+      [{ text: 'UPDATE counters SET n = n + 1', values: [] }],
+      { retryOnConflict: { maxAttempts: 2, baseDelayMs: 0 } }
+    ).catch(e => e);
+    expect(error.code).toBe('40001');
+    expect(error.attempts).toBe(2);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not retry conflicts unless enabled, nor other errors', async () => {
+    mockFetch.mockResolvedValueOnce(serializationFailure());
+    const error = await client.transaction([{ text: 'SELECT 1', values: [] }]).catch(e => e);
+    expect(error.attempts).toBe(1);
+
+    mockFetch.mockResolvedValueOnce(jsonResponse({ message: 'duplicate key', code: '23505' }, 400));
+    await expect(client.transaction([{ text: 'SELECT 1', values: [] }], { retryOnConflict: true }))
+      .rejects.toMatchObject({ code: '23505', attempts: 1 });
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should re-run the callback of an interactive transaction', async () => {
+    mockFetch
+      // First run: the UPDATE deadlocks and the transaction is rolled back
+      .mockResolvedValueOnce(jsonResponse({ transactionId: 'tx-1' }))
+      .mockResolvedValueOnce(deadlock())
+      .mockResolvedValueOnce(jsonResponse({ transactionId: 'tx-1', status: 'rolled_back' }))
+      // Second run: COMMIT fails with a serialization failure
+      .mockResolvedValueOnce(jsonResponse({ transactionId: 'tx-2' }))
+      .mockResolvedValueOnce(jsonResponse(queryResult([], [])))
+      .mockResolvedValueOnce(serializationFailure())
+      // Third run succeeds
+      .mockResolvedValueOnce(jsonResponse({ transactionId: 'tx-3' }))
+      .mockResolvedValueOnce(jsonResponse(queryResult([], [])))
+      .mockResolvedValueOnce(jsonResponse({ transactionId: 'tx-3', status: 'committed' }));
+
+    const attempts: number[] = [];
+    const result = await client.transaction(async (tx) => {
+      attempts.push(tx.attempt);
+      await tx.query('UPDATE accounts SET balance = balance - 1 WHERE id = 1');
+      return tx.transactionId;
+    }, { isolationLevel: 'Serializable', retryOnConflict: { baseDelayMs: 0 } });
+
+    expect(result).toBe('tx-3');
+    expect(attempts).toEqual([1, 2, 3]);
+    expect(mockFetch).toHaveBeenCalledTimes(9);
+  });
+});
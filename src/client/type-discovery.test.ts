@@ -0,0 +1,148 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createPgHttpClient, LogLevel, PgTypeId } from './index';
+import { TypeParser, parsePostgresRecord } from './parsing';
+import { clearTypeCache, parseHstore, registerDiscoveredTypes } from './type-discovery';
+import type { PgTypeDefinition } from './type-discovery';
+
+const mockFetch = vi.fn();
+
+const jsonResponse = (body: any) => ({
+  ok: true,
+  status: 200,
+  statusText: 'OK',
+  json: async () => body,
+}) as Response;
+
+// Discovered types as the proxy would return them (raw text output)
+const DISCOVERY_FIELDS = [
+  { name: 'oid', dataTypeID: PgTypeId.INT4 },
+  { name: 'name', dataTypeID: PgTypeId.NAME },
+  { name: 'schema', dataTypeID: PgTypeId.NAME },
+  { name: 'kind', dataTypeID: PgTypeId.CHAR },
+  { name: 'arrayOid', dataTypeID: PgTypeId.INT4 },
+  { name: 'delimiter', dataTypeID: PgTypeId.CHAR },
+  { name: 'baseTypeOid', dataTypeID: PgTypeId.INT4 },
+  { name: 'attributes', dataTypeID: PgTypeId.JSON },
+];
+
+const DISCOVERY_ROWS = [
+  ['16384', 'mood', 'public', 'e', '16383', ',', '0', null],
+  ['16390', 'positive_int', 'public', 'd', '16389', ',', '23', null],
+  ['16400', 'address', 'public', 'c', '16399', ',', '0', '[{"name":"street","typeOid":25},{"name":"zip","typeOid":23}]'],
+  ['16500', 'hstore', 'public', 'b', '16505', ',', '0', null],
+  ['16510', 'citext', 'public', 'b', '16515', ',', '0', null],
+];
+
+describe('Runtime type discovery', () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+    clearTypeCache();
+  });
+
+  const createClient = (options: { autoLoadTypes?: boolean } = {}) => createPgHttpClient({
+    proxyUrl: 'https://test-proxy.com',
+    fetch: mockFetch as unknown as typeof fetch,
+    logger: { level: LogLevel.None },
+    ...options,
+  });
+
+  const discoveryResponse = () => jsonResponse({
+    command: 'SELECT',
+    rowCount: DISCOVERY_ROWS.length,
+    fields: DISCOVERY_FIELDS,
+    rows: DISCOVERY_ROWS,
+  });
+
+  it('should register parsers for enums, domains, composites and extension types', async () => {
+    mockFetch.mockResolvedValueOnce(discoveryResponse());
+
+    const client = createClient();
+    const types = await client.loadTypes();
+    expect(types.map(t => t.kind)).toEqual(['enum', 'domain', 'composite', 'base', 'base']);
+
+    const parser = client.typeParser;
+    expect(parser.getTypeParser(16383)('{happy,sad}')).toEqual(['happy', 'sad']);
+    expect(parser.getTypeParser(16390)('42')).toBe(42);
+    expect(parser.getTypeParser(16389)('{1,2}')).toEqual([1, 2]);
+    expect(parser.getTypeParser(16400)('("1 Main St",12345)')).toEqual({ street: '1 Main St', zip: 12345 });
+    expect(parser.getTypeParser(16399)('{"(a,1)","(b,)"}')).toEqual([
+      { street: 'a', zip: 1 },
+      { street: 'b', zip: null },
+    ]);
+    expect(parser.getTypeParser(16500)('"a"=>"1", "b"=>NULL')).toEqual({ a: '1', b: null });
+    expect(parser.getTypeParser(16510)('Hello')).toBe('Hello');
+  });
+
+  it('should cache discovered types per proxy URL', async () => {
+    mockFetch.mockResolvedValueOnce(discoveryResponse());
+
+    await createClient().loadTypes();
+    const second = createClient();
+    await second.loadTypes();
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(second.typeParser.getTypeParser(16390)('7')).toBe(7);
+  });
+
+  it('should load types before the first query with autoLoadTypes', async () => {
+    mockFetch
+      .mockResolvedValueOnce(discoveryResponse())
+      .mockResolvedValueOnce(jsonResponse({
+        command: 'SELECT',
+        rowCount: 1,
+        fields: [{ name: 'moods', dataTypeID: 16383 }],
+        rows: [['{happy,"very sad"}']],
+      }));
+
+    const client = createClient({ autoLoadTypes: true });
+    const result = await client.query('SELECT moods FROM diary');
+
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    expect(result.rows).toEqual([{ moods: ['happy', 'very sad'] }]);
+  });
+
+  it('should let name-registered parsers override discovered defaults', async () => {
+    mockFetch.mockResolvedValueOnce(discoveryResponse());
+
+    const client = createClient();
+    client.typeParser.setTypeParserByName('mood', value => value.toUpperCase());
+    await client.loadTypes();
+
+    expect(client.typeParser.getTypeParser(16384)('happy')).toBe('HAPPY');
+    expect(client.typeParser.getTypeParser(16383)('{happy}')).toEqual(['HAPPY']);
+  });
+});
+
+describe('TypeParser name registration', () => {
+  it('should bind built-in type names immediately', () => {
+    const parser = new TypeParser();
+    parser.setTypeParserByName('int4', value => `int:${value}`);
+    expect(parser.getTypeParser(PgTypeId.INT4)('1')).toBe('int:1');
+  });
+
+  it('should bind schema-qualified names once discovered', () => {
+    const parser = new TypeParser();
+    parser.setTypeParserByName('app.status', value => ({ status: value }));
+
+    const types: PgTypeDefinition[] = [{
+      oid: 20000, name: 'status', schema: 'app', kind: 'enum',
+      arrayOid: 0, delimiter: ',', baseTypeOid: 0, attributes: null,
+    }];
+    registerDiscoveredTypes(parser, types);
+
+    expect(parser.getTypeIdByName('app.status')).toBe(20000);
+    expect(parser.getTypeParser(20000)('open')).toEqual({ status: 'open' });
+  });
+});
+
+describe('Record and hstore parsing', () => {
+  it('should parse composite literals with quoting and NULLs', () => {
+    expect(parsePostgresRecord('(1,"a b",,"x""y","")')).toEqual(['1', 'a b', null, 'x"y', '']);
+    expect(parsePostgresRecord('("back\\\\slash")')).toEqual(['back\\slash']);
+  });
+
+  it('should unescape hstore keys and values', () => {
+    expect(parseHstore('"k\\"q"=>"v\\\\1"')).toEqual({ 'k"q': 'v\\1' });
+    expect(parseHstore('')).toEqual({});
+  });
+});
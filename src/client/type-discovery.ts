@@ -0,0 +1,182 @@
+import type { TypeParser } from './parsing';
+import { parsePostgresArray, parsePostgresRecord } from './parsing';
+
+/**
+ * Runtime discovery of database-specific types (enums, domains, composites and
+ * extension types such as citext or hstore) whose OIDs differ between databases.
+ */
+
+// A type discovered from pg_type
+export interface PgTypeDefinition {
+  oid: number;
+  name: string;
+  schema: string;
+  kind: 'base' | 'composite' | 'domain' | 'enum';
+  arrayOid: number; // 0 if the type has no array type
+  delimiter: string;
+  baseTypeOid: number; // Domains only, 0 otherwise
+  attributes: { name: string; typeOid: number }[] | null; // Composites only
+}
+
+// pg_type.typtype codes mapped to definition kinds
+const TYPE_KINDS: Record<string, PgTypeDefinition['kind']> = {
+  b: 'base',
+  c: 'composite',
+  d: 'domain',
+  e: 'enum',
+};
+
+/**
+ * Lists every non-catalog enum, domain, standalone composite and base type (the latter
+ * come from extensions), with the attributes of composites aggregated as JSON
+ */
+export const TYPE_DISCOVERY_QUERY = `
+SELECT t.oid::int4 AS oid,
+       t.typname AS name,
+       n.nspname AS schema,
+       t.typtype AS kind,
+       t.typarray::int4 AS "arrayOid",
+       t.typdelim AS delimiter,
+       t.typbasetype::int4 AS "baseTypeOid",
+       CASE WHEN t.typtype = 'c' THEN (
+         SELECT json_agg(json_build_object('name', a.attname, 'typeOid', a.atttypid::int4) ORDER BY a.attnum)
+         FROM pg_attribute a
+         WHERE a.attrelid = t.typrelid AND a.attnum > 0 AND NOT a.attisdropped
+       ) END AS attributes
+FROM pg_type t
+JOIN pg_namespace n ON n.oid = t.typnamespace
+LEFT JOIN pg_class c ON c.oid = t.typrelid
+WHERE n.nspname NOT IN ('pg_catalog', 'information_schema')
+  AND n.nspname NOT LIKE 'pg_toast%'
+  AND t.typtype IN ('b', 'c', 'd', 'e')
+  AND NOT (t.typtype = 'b' AND t.typcategory = 'A')
+  AND (t.typtype <> 'c' OR c.relkind = 'c')
+ORDER BY t.oid`;
+
+/**
+ * Parse hstore text output, e.g. "a"=>"1", "b"=>NULL
+ */
+export function parseHstore(value: string): Record<string, string | null> {
+  const result: Record<string, string | null> = {};
+  const pattern = /"((?:[^"\\]|\\.)*)"\s*=>\s*(?:NULL|"((?:[^"\\]|\\.)*)")/g;
+  const unescape = (text: string) => text.replace(/\\(.)/g, '$1');
+
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(value)) !== null) {
+    const key = unescape(match[1] ?? '');
+    result[key] = match[2] === undefined ? null : unescape(match[2]);
+  }
+  return result;
+}
+
+// Default parsers for well-known extension types, keyed by type name
+export const EXTENSION_TYPE_PARSERS: Record<string, (value: string) => any> = {
+  citext: value => value,
+  ltree: value => value,
+  hstore: parseHstore,
+  vector: value => JSON.parse(value), // pgvector: [1,2,3]
+};
+
+// Discovered definitions cached per proxy URL, shared by all clients of that proxy
+const typeCache = new Map<string, Promise<PgTypeDefinition[]>>();
+
+/**
+ * Run the discovery query through `runQuery` once per proxy URL and cache the result.
+ * A failed discovery is not cached so that it can be retried.
+ */
+export function discoverTypes(
+  cacheKey: string,
+  runQuery: (query: string) => Promise<{ rows: any[] }>,
+  refresh = false
+): Promise<PgTypeDefinition[]> {
+  const cached = typeCache.get(cacheKey);
+  if (cached && !refresh) {
+    return cached;
+  }
+
+  const pending = runQuery(TYPE_DISCOVERY_QUERY).then(result => result.rows.map(toTypeDefinition));
+  typeCache.set(cacheKey, pending);
+  pending.catch(() => {
+    if (typeCache.get(cacheKey) === pending) {
+      typeCache.delete(cacheKey);
+    }
+  });
+  return pending;
+}
+
+// Drop cached definitions (all of them, or those of one proxy URL)
+export function clearTypeCache(cacheKey?: string): void {
+  if (cacheKey === undefined) {
+    typeCache.clear();
+  } else {
+    typeCache.delete(cacheKey);
+  }
+}
+
+function toTypeDefinition(row: any): PgTypeDefinition {
+  return {
+    oid: Number(row.oid),
+    name: row.name,
+    schema: row.schema,
+    kind: TYPE_KINDS[row.kind] ?? 'base',
+    arrayOid: Number(row.arrayOid) || 0,
+    delimiter: row.delimiter || ',',
+    baseTypeOid: Number(row.baseTypeOid) || 0,
+    attributes: Array.isArray(row.attributes) ? row.attributes : null,
+  };
+}
+
+/**
+ * Register parsers for discovered types on a TypeParser. Enums stay strings, domains
+ * delegate to their base type, composites become objects keyed by attribute name and
+ * known extension types use EXTENSION_TYPE_PARSERS. Parsers registered by name with
+ * setTypeParserByName() take precedence over these defaults.
+ */
+export function registerDiscoveredTypes(typeParser: TypeParser, types: PgTypeDefinition[]): void {
+  for (const type of types) {
+    const parser = createDefaultParser(typeParser, type);
+    if (parser) {
+      typeParser.setTypeParser(type.oid, parser);
+    }
+
+    if (type.arrayOid) {
+      // Looked up per call so a later override of the element parser is honoured
+      typeParser.setTypeParser(type.arrayOid, value =>
+        parsePostgresArray(value, typeParser.getTypeParser(type.oid), type.delimiter));
+    }
+
+    typeParser.registerTypeName(type.name, type.oid);
+    typeParser.registerTypeName(`${type.schema}.${type.name}`, type.oid);
+  }
+}
+
+function createDefaultParser(
+  typeParser: TypeParser,
+  type: PgTypeDefinition
+): ((value: string) => any) | undefined {
+  switch (type.kind) {
+    case 'enum':
+      return value => value;
+
+    case 'domain':
+      return value => typeParser.getTypeParser(type.baseTypeOid)(value);
+
+    case 'composite': {
+      const attributes = type.attributes ?? [];
+      return value => {
+        const fields = parsePostgresRecord(value);
+        const row: Record<string, any> = {};
+        attributes.forEach((attribute, i) => {
+          const field = fields[i];
+          row[attribute.name] = field === null || field === undefined
+            ? null
+            : typeParser.getTypeParser(attribute.typeOid)(field);
+        });
+        return row;
+      };
+    }
+
+    case 'base':
+      return EXTENSION_TYPE_PARSERS[type.name];
+  }
+}
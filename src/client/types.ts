@@ -1,12 +1,16 @@
 import type { QueryPromise } from './query-promise'; // Import from new file
-import type { TypeParser } from './parsing'; // Use type-only import
+import type { TypeParser, TypeParserOptions } from './parsing'; // Use type-only import
+import type { TypeSerializer } from './serialization';
+import type { UnsafeRawSql } from './utils';
+import type { SqlHelpers } from './fragments';
+import type { PgError } from './errors';
 
 // Define basic types based on Neon's HTTP client
-export interface PgQueryResult {
+export interface PgQueryResult<Row = any> {
   command: string;
   fields: PgField[];
   rowCount: number;
-  rows: any[];
+  rows: Row[];
   rowAsArray: boolean;
   // Additional properties for compatibility with Neon
   _parsers?: any[];
@@ -28,25 +32,209 @@ export interface ParameterizedQuery {
   params: any[];
 }
 
-// This is used to tag template literals in SQL queries
-export type SQLTemplateTag = (strings: TemplateStringsArray, ...values: any[]) => QueryPromise<PgQueryResult>;
+// Values for :name and @name placeholders, keyed by name
+export type NamedParameters = Record<string, unknown>;
+
+// Positional values for $1, $2, ... or named values
+export type QueryParameters = unknown[] | NamedParameters;
+
+// This is used to tag template literals in SQL queries; called with plain text, it takes
+// positional or named parameters instead. Fragment helpers (join, identifier, ...) hang off it.
+export interface SQLTemplateTag extends SqlHelpers {
+  <Row = any>(strings: TemplateStringsArray, ...values: any[]): QueryPromise<PgQueryResult<Row>>;
+  <Row = any>(query: string, params?: QueryParameters): QueryPromise<PgQueryResult<Row>>;
+}
 
 // Transaction query interface with support for query metadata
 export interface TransactionQuery {
   text: string;
-  values: unknown[];
+  values: QueryParameters;
   captureGeneratedId?: boolean; // Flag to indicate this query generates an ID that will be used in subsequent queries
 }
 
-export interface ClientOptions {
+// Isolation levels accepted by transaction(), using Neon's naming
+export type IsolationLevel = 'ReadUncommitted' | 'ReadCommitted' | 'RepeatableRead' | 'Serializable';
+
+// Number of attempts and the exponential backoff between them (see retry.ts for the defaults)
+export interface BackoffOptions {
+  maxAttempts?: number; // Total attempts, including the first one
+  baseDelayMs?: number; // Delay before the first retry; doubles with every attempt
+  maxDelayMs?: number;
+  jitter?: boolean; // Pick a random delay between 0 and the backoff ("full jitter")
+}
+
+// Retry policy for transient proxy and database failures
+export interface RetryOptions extends BackoffOptions {
+  retryableStatuses?: number[]; // HTTP statuses of proxy responses without a SQLSTATE
+  retryableSqlStates?: string[];
+}
+
+// Per-call overrides of the client's retry policy
+export interface RetryCallOptions {
+  retry?: boolean | RetryOptions;
+  // true allows retrying failures whose outcome is unknown; false turns off the read-only detection
+  idempotent?: boolean;
+}
+
+// Per-call bounds on how long a request may run
+export interface TimeoutOptions {
+  timeoutMs?: number; // Aborts the request and is sent to the proxy as statement_timeout
+  signal?: AbortSignal; // Aborting it aborts the request; the proxy then cancels the query
+}
+
+// Options accepted by every call that sends a request
+export interface CallOptions extends RetryCallOptions, TimeoutOptions {
+  // Merged into the options passed to fetch, taking precedence; headers are merged one by one
+  fetchOptions?: Record<string, any>;
+}
+
+// Per-call switch for the proxy's prepared statement cache
+export interface PrepareOptions {
+  prepare?: boolean; // false sends the statement without a name, so the proxy doesn't keep it prepared
+}
+
+// Per-call options of query() and execute()
+export interface QueryOptions extends CallOptions, PrepareOptions {
+  arrayMode?: boolean;
+  fullResults?: boolean;
+}
+
+// Options shared by batch and interactive transactions
+export interface TransactionOptions extends CallOptions {
+  isolationLevel?: IsolationLevel;
+  readOnly?: boolean;
+  deferrable?: boolean;
+  arrayMode?: boolean;
+  fullResults?: boolean;
+  // Interactive transactions only: idle time (ms) after which the proxy rolls the transaction back
+  idleTimeoutMs?: number;
+  // Re-run the whole transaction after a serialization failure (40001) or deadlock (40P01)
+  retryOnConflict?: boolean | BackoffOptions;
+}
+
+// Results of a batch transaction; attempts counts the runs, including conflict retries
+export type TransactionResults = any[] & { readonly attempts: number };
+
+// Options of client.batch(); mode is required so callers opt in to statements committing on their own
+export interface BatchOptions extends CallOptions {
+  mode: 'independent'; // Each statement runs outside a transaction; use transaction() for all-or-nothing
+  sequential?: boolean; // Run the statements one after another instead of concurrently
+  arrayMode?: boolean;
+}
+
+// Outcome of one statement of an independent batch
+export type BatchResult<Row = any> =
+  | { status: 'ok'; result: PgQueryResult<Row> }
+  | { status: 'error'; error: PgError };
+
+// Options of client.stream(); timeoutMs bounds the whole stream, the proxy applies it to every fetch
+export interface StreamOptions extends CallOptions {
+  batchSize?: number; // Rows the proxy fetches from its cursor at a time (default 1000)
+  arrayMode?: boolean;
+}
+
+// Options of client.cursor(): keyset pagination when orderBy is given, otherwise pages are
+// fetched from a DECLARE CURSOR in an interactive transaction pinned to the client's session
+export interface CursorOptions extends CallOptions {
+  pageSize: number;
+  orderBy?: string[]; // Result columns that order the rows uniquely, e.g. ['created_at', 'id']
+  direction?: 'asc' | 'desc'; // Sort direction of all orderBy columns (default 'asc')
+  after?: string | null; // nextToken of an earlier page, to continue after it
+  arrayMode?: boolean;
+  idleTimeoutMs?: number; // DECLARE CURSOR only: idle time (ms) after which the proxy closes the cursor
+}
+
+export interface CursorPage<Row = any> {
+  rows: Row[];
+  nextToken: string | null; // Continues after this page; null once there are no more rows
+}
+
+// Paginated query; pages are fetched on demand, one request (or round of requests) per page
+export interface PgCursor<Row = any> extends AsyncIterable<CursorPage<Row>> {
+  readonly done: boolean;
+  nextPage(): Promise<CursorPage<Row>>; // An empty page with a null nextToken once done
+  close(): Promise<void>; // Ends the cursor's transaction early; a no-op for keyset pagination
+}
+
+// Notification received by a listen() subscription
+export interface PgNotification {
+  channel: string;
+  payload: string; // '' when NOTIFY was sent without a payload
+  processId: number; // PID of the backend that sent the notification
+}
+
+export type NotificationHandler = (payload: string, notification: PgNotification) => void | Promise<void>;
+
+export interface ListenOptions {
+  signal?: AbortSignal; // Aborting it unsubscribes
+  // Reopen a dropped stream with backoff (default true, retrying indefinitely unless maxAttempts is set)
+  reconnect?: boolean | BackoffOptions;
+  // Called after a reconnect that could not replay the notifications sent while disconnected
+  onResync?: () => void;
+  // Failed reconnects and errors thrown by the handler; logged when not given
+  onError?: (error: unknown) => void;
+  fetchOptions?: Record<string, any>;
+}
+
+// Prepared statement cache lookups the proxy reported for this client's queries
+export interface PreparedStatementStats {
+  hits: number; // The connection had the statement prepared already
+  misses: number; // The statement was prepared for this query
+}
+
+// Handle passed to an interactive transaction callback; every query runs inside the open transaction
+export interface PgTransactionClient {
+  readonly transactionId: string;
+  readonly attempt: number; // 1 on the first run, higher when retryOnConflict re-runs the callback
+  execute: (query: string, params?: QueryParameters) => Promise<PgQueryResult>;
+  query: (query: string, params?: QueryParameters, options?: QueryOptions) => Promise<PgQueryResult>;
+  sql: SQLTemplateTag;
+  unsafe: (rawSql: string) => UnsafeRawSql;
+  typeParser: TypeParser;
+  typeSerializer: TypeSerializer;
+}
+
+// Queries issued within windowMs of each other are sent to the proxy in one /batch request
+export interface CoalesceOptions {
+  windowMs?: number; // Time to wait for more queries after the first one (default 0: until the next macrotask)
+  maxBatch?: number; // Queries per request; a full batch is sent right away (default 50)
+}
+
+// Token returned by an auth token provider; without expiresAt, JWTs are cached until their
+// exp claim and other tokens until the proxy rejects them
+export interface AuthToken {
+  token: string;
+  expiresAt?: number | Date; // Epoch milliseconds or a Date
+}
+
+export type AuthTokenProvider = () => string | AuthToken | Promise<string | AuthToken>;
+
+// Result modes (numeric, bigint, dates, timeZone, bytea) are passed to the default TypeParser;
+// they are ignored when typeParser is a TypeParser instance
+export interface ClientOptions extends TypeParserOptions {
   proxyUrl: string;
-  authToken?: string;
+  // A static token, or a provider called when no unexpired token is cached and after a 401
+  authToken?: string | AuthTokenProvider;
   fetch?: typeof globalThis.fetch;
   arrayMode?: boolean;
   fullResults?: boolean;
   typeParser?: TypeParser | Record<number, (value: string) => any>;
+  // Serializers for outgoing parameters, keyed by the type ID given with typed()
+  typeSerializer?: TypeSerializer | Record<number, (value: any) => string>;
   sessionId?: string; // Optional explicit session ID, will be auto-generated if not provided
   logger?: LoggerOptions; // Add logger configuration
+  // Discover enums, domains, composites and extension types before the first query (see loadTypes())
+  autoLoadTypes?: boolean;
+  // Retry transient failures; off unless set (true uses the default policy)
+  retry?: boolean | RetryOptions;
+  // Default time limit for every request, see TimeoutOptions
+  timeoutMs?: number;
+  // Secret shared with the proxy's SIGNING_SECRET; requests are then signed with HMAC-SHA256
+  signingSecret?: string;
+  // Name statements after their SQL text so the proxy keeps them prepared per connection; off unless set
+  preparedStatements?: boolean;
+  // Combine concurrent queries into batch requests; off unless set (true uses the defaults)
+  coalesce?: boolean | CoalesceOptions;
 }
 
 // Define Log Levels
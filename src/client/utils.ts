@@ -1,5 +1,9 @@
 import type { ParameterizedQuery } from './types'; // Assuming types are in types.ts
+import type { TypeSerializer } from './serialization';
 import { QueryPromise } from './query-promise'; // Import QueryPromise from new file
+import { isBinary, encodeBytea } from './binary';
+import { SqlFragment } from './fragments';
+import { renumberParameters } from './named-params';
 // Removed incorrect self-import: import { UnsafeRawSql } from './utils'; 
 
 // Class for RAW SQL representation (Ensure this is defined, not imported)
@@ -9,9 +13,9 @@ export class UnsafeRawSql {
 
 // Helper function to encode binary data for PostgreSQL
 export function encodeBuffersAsBytea(value: unknown): unknown {
-  // Convert Buffer to bytea hex format: https://www.postgresql.org/docs/current/datatype-binary.html
-  if (typeof Buffer !== 'undefined' && (value instanceof Buffer || ArrayBuffer.isView(value))) {
-    return '\\x' + Buffer.from(value as any).toString('hex');
+  // Convert Uint8Array/ArrayBuffer (and Buffer) to bytea hex format: https://www.postgresql.org/docs/current/datatype-binary.html
+  if (isBinary(value)) {
+    return encodeBytea(value);
   }
   return value;
 }
@@ -29,13 +33,27 @@ export function generateUUID(): string {
 /**
  * Helper to convert SqlTemplate (from tagged template) to ParameterizedQuery
  * This mirrors Neon's sqlTemplate.toParameterizedQuery
+ * When a serializer is given, params are converted to their PostgreSQL text form here
  */
 export function toParameterizedQuery(
   strings: TemplateStringsArray,
-  values: any[]
+  values: any[],
+  serializer?: TypeSerializer
 ): ParameterizedQuery {
-  let query = '';
   const params: any[] = [];
+  const query = compileTemplate(strings, values, params, serializer);
+  return { query, params };
+}
+
+// Appends the template's parameters to params and returns its text. Nested fragments and
+// queries are flattened into the outer query, their parameters numbered after the ones before.
+function compileTemplate(
+  strings: readonly string[],
+  values: readonly unknown[],
+  params: any[],
+  serializer?: TypeSerializer
+): string {
+  let query = '';
 
   for (let i = 0, len = strings.length; i < len; i++) {
     query += strings[i];
@@ -45,29 +63,26 @@ export function toParameterizedQuery(
       // Handle different value types
       if (value instanceof UnsafeRawSql) {
         query += value.sql;
+      } else if (value instanceof SqlFragment) {
+        query += compileTemplate(value.strings, value.values, params, serializer);
       } else if (value instanceof QueryPromise) {
         // Ensure QueryPromise has queryData before accessing it
-        if (value.queryData) {
-          // Inline the query text but not params - check if params exist
-          if (value.queryData.params && value.queryData.params.length > 0) {
-             // If the nested query has parameters, it's not safely composable this way
-             throw new Error('Cannot compose a query promise that has parameters.');
-          }
-          query += value.queryData.query;
-        } else {
+        if (!value.queryData) {
           // Handle cases where queryData might be missing (should not happen with current structure)
           throw new Error('Invalid QueryPromise encountered during composition.');
         }
+        // Its text is already numbered from $1, and its params already serialized
+        query += renumberParameters(value.queryData.query, params.length);
+        params.push(...value.queryData.params);
       } else {
-        params.push(value);
+        params.push(serializer ? serializer.serialize(value) : value);
         query += `$${params.length}`;
 
         // Type hint for binary data
-        const isBinary = typeof Buffer !== 'undefined' && (value instanceof Buffer || ArrayBuffer.isView(value));
-        if (isBinary) query += '::bytea';
+        if (isBinary(value)) query += '::bytea';
       }
     }
   }
 
-  return { query, params };
+  return query;
 }
@@ -1,6 +1,27 @@
 import { drizzle as drizzleOrm } from 'drizzle-orm/neon-http';
-import { createPgHttpClient, TypeParser, LogLevel } from './client'; // Updated import path
-import type { LoggerOptions } from './client'; // Correct: LoggerOptions is a type
+import { TransactionRollbackError } from 'drizzle-orm';
+import type { PgTransactionConfig } from 'drizzle-orm/pg-core';
+import { createPgHttpClient, TypeParser, TypeSerializer, LogLevel } from './client'; // Updated import path
+import type { LoggerOptions, TransactionOptions, IsolationLevel, TypeParserOptions, RetryOptions, AuthTokenProvider, QueryParameters, CoalesceOptions } from './client'; // Correct: LoggerOptions is a type
+
+// Drizzle spells isolation levels the SQL way; the client uses Neon's naming
+const DRIZZLE_ISOLATION_LEVELS: Record<NonNullable<PgTransactionConfig['isolationLevel']>, IsolationLevel> = {
+  'read uncommitted': 'ReadUncommitted',
+  'read committed': 'ReadCommitted',
+  'repeatable read': 'RepeatableRead',
+  'serializable': 'Serializable',
+};
+
+// Accepts either Drizzle's PgTransactionConfig or the client's TransactionOptions
+function toTransactionOptions(config?: PgTransactionConfig & TransactionOptions): TransactionOptions | undefined {
+  if (!config) return undefined;
+  const { isolationLevel, accessMode, ...rest } = config;
+  return {
+    ...rest,
+    isolationLevel: isolationLevel && (DRIZZLE_ISOLATION_LEVELS[isolationLevel as keyof typeof DRIZZLE_ISOLATION_LEVELS] ?? isolationLevel),
+    readOnly: accessMode ? accessMode === 'read only' : rest.readOnly,
+  };
+}
 
 /**
  * Creates a Drizzle client connecting to PostgreSQL via HTTP proxy.
@@ -11,13 +32,25 @@ import type { LoggerOptions } from './client'; // Correct: LoggerOptions is a ty
  */
 export function drizzle<TSchema extends Record<string, unknown>>(options: {
   proxyUrl: string;
-  authToken?: string;
+  authToken?: string | AuthTokenProvider;
   schema: TSchema;
   fetch?: typeof globalThis.fetch;
   arrayMode?: boolean;
   fullResults?: boolean;
   typeParser?: TypeParser | Record<number, (value: string) => any>;
+  typeSerializer?: TypeSerializer | Record<number, (value: any) => string>;
   logger?: LoggerOptions; // Add logger option
+  autoLoadTypes?: boolean;
+  bytea?: TypeParserOptions['bytea'];
+  numeric?: TypeParserOptions['numeric'];
+  bigint?: TypeParserOptions['bigint'];
+  dates?: TypeParserOptions['dates'];
+  timeZone?: string;
+  retry?: boolean | RetryOptions;
+  timeoutMs?: number;
+  signingSecret?: string;
+  preparedStatements?: boolean;
+  coalesce?: boolean | CoalesceOptions;
 }) {
   const {
     proxyUrl,
@@ -27,7 +60,19 @@ export function drizzle<TSchema extends Record<string, unknown>>(options: {
     arrayMode = false,
     fullResults = false,
     typeParser,
-    logger // Destructure logger
+    typeSerializer,
+    logger, // Destructure logger
+    autoLoadTypes,
+    bytea,
+    numeric,
+    bigint,
+    dates,
+    timeZone,
+    retry,
+    timeoutMs,
+    signingSecret,
+    preparedStatements,
+    coalesce
   } = options;
 
   // Create our custom HTTP client that mirrors Neon's client interface exactly
@@ -38,7 +83,19 @@ export function drizzle<TSchema extends Record<string, unknown>>(options: {
     arrayMode,
     fullResults,
     typeParser,
-    logger // Pass logger option
+    typeSerializer,
+    logger, // Pass logger option
+    autoLoadTypes,
+    bytea,
+    numeric,
+    bigint,
+    dates,
+    timeZone,
+    retry,
+    timeoutMs,
+    signingSecret,
+    preparedStatements,
+    coalesce
   });
 
   // Create a drizzle instance using our client
@@ -52,7 +109,7 @@ export function drizzle<TSchema extends Record<string, unknown>>(options: {
     enumerable: true,
     configurable: true,
     writable: true,
-    value: async function(queryText: string, params?: any[], options?: any) {
+    value: async function(queryText: string, params?: QueryParameters, options?: any) {
       try {
         // Call the query method with the correct context and arguments
         const result = await pgClient.query(queryText, params || [], options);
@@ -84,11 +141,26 @@ export function drizzle<TSchema extends Record<string, unknown>>(options: {
     value: pgClient.sql
   });
   
+  // Arrays of queries keep using the batch transaction endpoint; callbacks run as interactive
+  // transactions with a Drizzle instance bound to the open transaction
   Object.defineProperty(db, 'transaction', {
     enumerable: true,
     configurable: true,
     writable: true, 
-    value: pgClient.transaction.bind(pgClient)
+    value: function(queriesOrCallback: any, config?: PgTransactionConfig & TransactionOptions) {
+      if (typeof queriesOrCallback !== 'function') {
+        return pgClient.transaction(queriesOrCallback, config);
+      }
+      return pgClient.transaction(async (txClient) => {
+        const tx = drizzleOrm(txClient as any, { schema });
+        // Mirror PgTransaction.rollback(): throwing makes the client roll back
+        Object.defineProperty(tx, 'rollback', {
+          enumerable: false,
+          value: () => { throw new TransactionRollbackError(); }
+        });
+        return queriesOrCallback(tx);
+      }, toTransactionOptions(config));
+    }
   });
   
   Object.defineProperty(db, 'client', {
@@ -8,17 +8,109 @@
  */
 
 export { drizzle } from './drizzle';
+export { neon } from './neon';
+export type {
+  NeonOptions,
+  NeonQueryOptions,
+  NeonTransactionOptions,
+  NeonQueryFunction,
+  NeonQueryFunctionInTransaction,
+  NeonQueryPromise,
+  NeonResult,
+  NeonRows
+} from './neon';
 export { 
   createPgHttpClient, 
   TypeParser, 
+  type TypeParserOptions,
+  TypeSerializer,
+  TypedValue,
+  typed,
+  type RangeLike,
   PgTypeId, 
+  PG_TYPE_CATALOG,
+  getTypeInfo,
+  getTypeInfoByName,
+  isArrayType,
+  getElementTypeId,
+  getArrayTypeId,
+  type PgTypeInfo,
+  type PgTypeCategory,
+  parseHstore,
+  clearTypeCache,
+  type PgTypeDefinition,
+  encodeBytea,
+  decodeBytea,
+  PgInterval,
+  parseInterval,
+  parseDateTime,
+  PgRange,
+  parseRange,
+  parseMultirange,
+  parsePoint,
+  parseLine,
+  parseLineSegment,
+  parseBox,
+  parsePath,
+  parsePolygon,
+  parseCircle,
+  type PgPoint,
+  type PgLine,
+  type PgLineSegment,
+  type PgBox,
+  type PgPath,
+  type PgPolygon,
+  type PgCircle,
+  parseInet,
+  type PgInet,
   PgError, 
+  ProxyConnectionError,
+  ProxyAuthError,
+  QueryTimeoutError,
+  QueryCanceledError,
+  TransactionError,
+  DatabaseError,
+  getSqlState,
+  SQLSTATE_CLASSES,
+  SQLSTATE_CONDITIONS,
+  type SqlState,
+  DEFAULT_RETRY_OPTIONS,
+  DEFAULT_CONFLICT_RETRY_OPTIONS,
+  isReadOnlyQuery,
+  type BackoffOptions,
+  type RetryOptions,
+  type RetryCallOptions,
+  type QueryOptions,
+  type CallOptions,
+  type TimeoutOptions,
   UnsafeRawSql,
+  compileNamedParameters,
+  SqlFragment,
+  type NamedParameters,
+  type QueryParameters,
   type PgQueryResult,
   type PgField,
   type ParameterizedQuery,
   type SQLTemplateTag,
   type ClientOptions,
+  type AuthToken,
+  type AuthTokenProvider,
+  type TransactionOptions,
+  type TransactionResults,
+  type BatchOptions,
+  type BatchResult,
+  type StreamOptions,
+  type CursorOptions,
+  type CursorPage,
+  type PgCursor,
+  type PgNotification,
+  type NotificationHandler,
+  type ListenOptions,
+  type PrepareOptions,
+  type PreparedStatementStats,
+  type CoalesceOptions,
+  type IsolationLevel,
+  type PgTransactionClient,
   LogLevel // Also export LogLevel enum
 } from './client'; // Changed path to import from client directory index
 export * from './types';
@@ -0,0 +1,138 @@
+import { describe, it, expect, vi, beforeEach, expectTypeOf } from 'vitest';
+import { neon } from './neon';
+import { LogLevel, PgError } from './client';
+
+const mockFetch = vi.fn();
+
+const jsonResponse = (body: any) => ({
+  ok: true,
+  status: 200,
+  statusText: 'OK',
+  headers: new Headers(),
+  json: async () => body,
+}) as unknown as Response;
+
+const fields = [{ name: 'id', dataTypeID: 23 }, { name: 'name', dataTypeID: 25 }];
+const usersResult = { command: 'SELECT', rowCount: 2, fields, rows: [['1', 'Ada'], ['2', 'Alan']] };
+
+const objectRows = [{ id: 1, name: 'Ada' }, { id: 2, name: 'Alan' }];
+const arrayRows = [[1, 'Ada'], [2, 'Alan']];
+
+const requestOf = (call: number) => mockFetch.mock.calls[call]![1] as RequestInit & { headers: Record<string, string> };
+
+const createSql = (options: Parameters<typeof neon>[1] = {}) => neon('https://test-proxy.com', {
+  fetch: mockFetch as unknown as typeof fetch,
+  logger: { level: LogLevel.None },
+  ...options,
+});
+
+describe('neon() compatibility', () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+    // The batch endpoint answers with one result per query
+    mockFetch.mockImplementation(async (url: string) =>
+      jsonResponse(url.endsWith('/transaction') ? { results: [usersResult] } : usersResult));
+  });
+
+  describe('return shapes', () => {
+    it.each([
+      { arrayMode: false, fullResults: false, expected: objectRows },
+      { arrayMode: true, fullResults: false, expected: arrayRows },
+      { arrayMode: false, fullResults: true, expected: { command: 'SELECT', rowCount: 2, rows: objectRows, rowAsArray: false } },
+      { arrayMode: true, fullResults: true, expected: { command: 'SELECT', rowCount: 2, rows: arrayRows, rowAsArray: true } },
+    ])('should honour arrayMode=$arrayMode fullResults=$fullResults', async ({ arrayMode, fullResults, expected }) => {
+      // Set on neon()
+      const sql = createSql({ arrayMode, fullResults });
+      const fromTag = await sql`SELECT id, name FROM users`;
+      const fromQuery = await sql.query('SELECT id, name FROM users');
+      const [fromTransaction] = await sql.transaction([sql`SELECT id, name FROM users`]);
+
+      // Set per call, overriding the opposite defaults
+      const other = createSql({ arrayMode: !arrayMode, fullResults: !fullResults });
+      const fromQueryOptions = await other.query('SELECT id, name FROM users', [], { arrayMode, fullResults });
+      const [fromTransactionOptions] = await other.transaction(txn => [txn`SELECT id, name FROM users`], { arrayMode, fullResults });
+
+      for (const result of [fromTag, fromQuery, fromTransaction, fromQueryOptions, fromTransactionOptions]) {
+        if (fullResults) {
+          expect(result).toMatchObject(expected);
+          expect((result as any).fields.map((field: any) => field.name)).toEqual(['id', 'name']);
+        } else {
+          expect(result).toEqual(expected);
+        }
+      }
+      expect(requestOf(0).headers['Neon-Array-Mode']).toBe(String(arrayMode));
+    });
+
+    it('should type results by mode', () => {
+      const sql = neon('https://test-proxy.com');
+      expectTypeOf(sql`SELECT 1`).resolves.toEqualTypeOf<Record<string, any>[]>();
+      expectTypeOf(sql.query('SELECT 1', [], { arrayMode: true })).resolves.toEqualTypeOf<any[][]>();
+      expectTypeOf(sql.query('SELECT 1', [], { fullResults: true })).resolves.toHaveProperty('rowCount');
+      expectTypeOf(neon('https://test-proxy.com', { arrayMode: true })`SELECT 1`).resolves.toEqualTypeOf<any[][]>();
+    });
+  });
+
+  it('should send tagged templates as parameterized queries', async () => {
+    const sql = createSql();
+    await sql`SELECT * FROM users WHERE id = ${1} AND name = ${'Ada'} ORDER BY ${sql.unsafe('name')}`;
+    expect(JSON.parse(requestOf(0).body as string)).toEqual({
+      query: 'SELECT * FROM users WHERE id = $1 AND name = $2 ORDER BY name',
+      params: [1, 'Ada'],
+    });
+  });
+
+  it('should reject conventional function calls', () => {
+    const sql = createSql() as any;
+    expect(() => sql('SELECT $1', [1])).toThrow(PgError);
+    expect(() => sql('SELECT $1', [1])).toThrow('use sql.query("SELECT $1", [value], options)');
+  });
+
+  it('should run transactions as one batch with transaction options', async () => {
+    mockFetch.mockResolvedValueOnce(jsonResponse({ results: [usersResult, usersResult] }));
+    const sql = createSql({ isolationLevel: 'Serializable' });
+    const results = await sql.transaction(txn => [
+      txn`SELECT id, name FROM users WHERE id = ${1}`,
+      txn.query('SELECT id, name FROM users WHERE id = $1', [2]),
+    ], { readOnly: true });
+
+    expect(results).toEqual([objectRows, objectRows]);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(mockFetch.mock.calls[0]![0]).toBe('https://test-proxy.com/transaction');
+    expect(requestOf(0).headers).toMatchObject({ 'Neon-Batch-Isolation-Level': 'Serializable', 'Neon-Batch-Read-Only': 'true' });
+    expect(JSON.parse(requestOf(0).body as string).queries).toEqual([
+      { query: 'SELECT id, name FROM users WHERE id = $1', params: [1] },
+      { query: 'SELECT id, name FROM users WHERE id = $1', params: [2] },
+    ]);
+  });
+
+  it('should merge fetchOptions into the request', async () => {
+    const sql = createSql({ fetchOptions: { priority: 'low', headers: { 'X-Tenant': 'a' } } });
+    await sql`SELECT 1`;
+    await sql.query('SELECT 1', [], { fetchOptions: { priority: 'high', headers: { 'X-Trace': 't' } } });
+
+    expect(requestOf(0)).toMatchObject({ priority: 'low', headers: { 'X-Tenant': 'a', 'Content-Type': 'application/json' } });
+    // Per-call fetchOptions are merged over neon()'s, like Neon's
+    expect(requestOf(1)).toMatchObject({ priority: 'high', headers: { 'X-Trace': 't', 'Content-Type': 'application/json' } });
+  });
+
+  it('should accept auth token functions on neon() and per call', async () => {
+    const sql = createSql({ authToken: async () => 'client-token' });
+    await sql`SELECT 1`;
+    await sql.query('SELECT 1', [], { authToken: () => 'call-token' });
+    await sql.transaction([sql`SELECT 1`], { authToken: 'tx-token' });
+
+    expect([0, 1, 2].map(call => requestOf(call).headers['Authorization'])).toEqual([
+      'Bearer client-token',
+      'Bearer call-token',
+      'Bearer tx-token',
+    ]);
+  });
+
+  it('should run each query promise once', async () => {
+    const sql = createSql();
+    const query = sql`INSERT INTO users (name) VALUES (${'Ada'})`;
+    await query;
+    await query;
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,140 @@
+import { createPgHttpClient, PgError, QueryPromise } from './client';
+import type { CallOptions, ClientOptions, IsolationLevel, PgQueryResult, UnsafeRawSql } from './client';
+
+// Rows as objects keyed by column name, or as arrays of column values in arrayMode
+export type NeonRows<ArrayMode extends boolean> = ArrayMode extends true ? any[][] : Record<string, any>[];
+
+// What a query resolves to: the rows, or the whole result with fullResults
+export type NeonResult<ArrayMode extends boolean, FullResults extends boolean> =
+  FullResults extends true ? PgQueryResult<NeonRows<ArrayMode>[number]> : NeonRows<ArrayMode>;
+
+// Options of neon() that can be overridden per query, as in @neondatabase/serverless
+export interface NeonQueryOptions<ArrayMode extends boolean, FullResults extends boolean> {
+  arrayMode?: ArrayMode;
+  fullResults?: FullResults;
+  // Merged into the options passed to fetch; per-call fetchOptions are merged over neon()'s
+  fetchOptions?: Record<string, any>;
+  authToken?: string | (() => Promise<string> | string);
+}
+
+export interface NeonTransactionOptions<ArrayMode extends boolean, FullResults extends boolean>
+  extends NeonQueryOptions<ArrayMode, FullResults> {
+  isolationLevel?: IsolationLevel;
+  readOnly?: boolean;
+  deferrable?: boolean;
+}
+
+// neon()'s options, plus the client's own (retry, timeoutMs, logger, ...)
+export type NeonOptions<ArrayMode extends boolean, FullResults extends boolean> =
+  NeonTransactionOptions<ArrayMode, FullResults> & Omit<ClientOptions, 'proxyUrl' | 'arrayMode' | 'fullResults' | 'authToken'>;
+
+export type NeonQueryPromise<ArrayMode extends boolean, FullResults extends boolean> = QueryPromise<NeonResult<ArrayMode, FullResults>>;
+
+// Query function passed to sql.transaction(txn => [...]); its queries take no options
+export interface NeonQueryFunctionInTransaction<ArrayMode extends boolean, FullResults extends boolean> {
+  (strings: TemplateStringsArray, ...params: any[]): NeonQueryPromise<ArrayMode, FullResults>;
+  query(queryWithPlaceholders: string, params?: any[]): NeonQueryPromise<ArrayMode, FullResults>;
+  unsafe(rawSql: string): UnsafeRawSql;
+}
+
+export interface NeonQueryFunction<ArrayMode extends boolean, FullResults extends boolean> {
+  (strings: TemplateStringsArray, ...params: any[]): NeonQueryPromise<ArrayMode, FullResults>;
+  query<ArrayModeOverride extends boolean = ArrayMode, FullResultsOverride extends boolean = FullResults>(
+    queryWithPlaceholders: string,
+    params?: any[],
+    queryOpts?: NeonQueryOptions<ArrayModeOverride, FullResultsOverride>
+  ): NeonQueryPromise<ArrayModeOverride, FullResultsOverride>;
+  unsafe(rawSql: string): UnsafeRawSql;
+  transaction<ArrayModeOverride extends boolean = ArrayMode, FullResultsOverride extends boolean = FullResults>(
+    queriesOrFn: QueryPromise[] | ((sql: NeonQueryFunctionInTransaction<ArrayModeOverride, FullResultsOverride>) => QueryPromise[]),
+    opts?: NeonTransactionOptions<ArrayModeOverride, FullResultsOverride>
+  ): Promise<NeonResult<ArrayModeOverride, FullResultsOverride>[]>;
+}
+
+const isTemplateStringsArray = (strings: unknown): strings is TemplateStringsArray =>
+  Array.isArray(strings) && 'raw' in strings;
+
+/**
+ * Query function shaped like neon() from @neondatabase/serverless v1, backed by the proxy client,
+ * so code and libraries written against Neon's HTTP driver run unchanged. The first argument is
+ * the proxy URL; the database connection is configured on the proxy.
+ *
+ * @example
+ * const sql = neon('https://your-pg-proxy-url.com', { authToken: 'your-secret-token' });
+ * const rows = await sql`SELECT * FROM users WHERE id = ${id}`;
+ * const result = await sql.query('SELECT * FROM users WHERE id = $1', [id], { fullResults: true });
+ * const [users, posts] = await sql.transaction(txn => [txn`SELECT * FROM users`, txn`SELECT * FROM posts`]);
+ */
+export function neon<ArrayMode extends boolean = false, FullResults extends boolean = false>(
+  proxyUrl: string,
+  options: NeonOptions<ArrayMode, FullResults> = {}
+): NeonQueryFunction<ArrayMode, FullResults> {
+  const {
+    arrayMode = false,
+    fullResults = false,
+    fetchOptions,
+    authToken,
+    isolationLevel,
+    readOnly,
+    deferrable,
+    ...clientOptions
+  } = options;
+
+  const client = createPgHttpClient({ ...clientOptions, proxyUrl, authToken, arrayMode, fullResults });
+
+  // Per-call options in the client's terms; a per-call authToken replaces the Authorization header
+  const resolveOptions = async (opts: NeonQueryOptions<boolean, boolean> = {}) => {
+    const merged = { ...fetchOptions, ...opts.fetchOptions };
+    if (opts.authToken !== undefined) {
+      const token = typeof opts.authToken === 'function' ? await opts.authToken() : opts.authToken;
+      merged.headers = { ...merged.headers, Authorization: `Bearer ${token}` };
+    }
+    return {
+      arrayMode: opts.arrayMode ?? arrayMode,
+      fullResults: opts.fullResults ?? fullResults,
+      fetchOptions: Object.keys(merged).length ? merged : undefined,
+    };
+  };
+
+  const run = async (query: string, params: any[], opts?: NeonQueryOptions<boolean, boolean> & CallOptions) => {
+    const { arrayMode: callArrayMode, fullResults: callFullResults, fetchOptions: callFetchOptions } = await resolveOptions(opts);
+    const result = await client.query(query, params, { ...opts, arrayMode: callArrayMode, fetchOptions: callFetchOptions });
+    return callFullResults ? result : result.rows;
+  };
+
+  const sql = (strings: TemplateStringsArray, ...params: any[]): QueryPromise<any> => {
+    if (!isTemplateStringsArray(strings)) {
+      throw new PgError(
+        'This function can now be called only as a tagged-template function: sql`SELECT ${value}`, not sql("SELECT $1", [value], options). ' +
+        'For a conventional function call with value placeholders ($1, $2, etc.), use sql.query("SELECT $1", [value], options).'
+      );
+    }
+    // The client's tag builds the query text and parameters, including nested fragments
+    return new QueryPromise(run, client.sql(strings, ...params).queryData);
+  };
+
+  const query = (queryWithPlaceholders: string, params: any[] = [], queryOpts?: NeonQueryOptions<boolean, boolean>) =>
+    new QueryPromise(run, { query: queryWithPlaceholders, params }, queryOpts);
+
+  const txn = Object.assign(
+    (strings: TemplateStringsArray, ...params: any[]) => sql(strings, ...params),
+    { query: (queryWithPlaceholders: string, params?: any[]) => query(queryWithPlaceholders, params), unsafe: client.unsafe }
+  );
+
+  // Runs as one batch request, like Neon's non-interactive transactions
+  const transaction = async (
+    queriesOrFn: QueryPromise[] | ((sql: typeof txn) => QueryPromise[]),
+    opts: NeonTransactionOptions<boolean, boolean> = {}
+  ) => {
+    const queries = typeof queriesOrFn === 'function' ? queriesOrFn(txn) : queriesOrFn;
+    const resolved = await resolveOptions(opts);
+    return client.transaction(queries, {
+      ...resolved,
+      isolationLevel: opts.isolationLevel ?? isolationLevel,
+      readOnly: opts.readOnly ?? readOnly,
+      deferrable: opts.deferrable ?? deferrable,
+    });
+  };
+
+  return Object.assign(sql, { query, unsafe: client.unsafe, transaction }) as unknown as NeonQueryFunction<ArrayMode, FullResults>;
+}